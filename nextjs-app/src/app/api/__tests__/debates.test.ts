@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as generate } from '../generate-debate/route';
+import { POST } from '../debates/route';
+import { GET as getDebate } from '../debates/[debateId]/route';
+import { GET as getSchema } from '../debates/schema/route';
+import { createApiKeyStore } from '@/lib/api-key-store';
+import { jsonRequest, setUpRouteEnv, tearDownRouteEnv, validDebate, withKey } from './test-env';
+
+describe('POST /api/debates', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = setUpRouteEnv();
+  });
+
+  afterEach(() => {
+    tearDownRouteEnv(dataDir);
+  });
+
+  it('imports an exported debate, migrating older ones', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', validDebate))).json();
+    const legacy = { ...debate, debateId: 'imported-debate' };
+    delete legacy.schemaVersion;
+
+    const response = await POST(jsonRequest('/api/debates', legacy));
+    const imported = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(imported.schemaVersion).toBe(1);
+
+    const saved = await getDebate(
+      jsonRequest('/api/debates/imported-debate', undefined, 'GET'),
+      { params: Promise.resolve({ debateId: 'imported-debate' }) }
+    );
+    expect(await saved.json()).toEqual(imported);
+  });
+
+  it('attributes an imported debate to the key that imports it', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', validDebate))).json();
+    const key = createApiKeyStore().issue('Importer', ['generate']);
+    const claimed = {
+      ...debate,
+      debateId: 'claimed-debate',
+      generationMetadata: { ...debate.generationMetadata, apiKeyId: 'someone-else' }
+    };
+
+    const fromKey = await (await POST(withKey(jsonRequest('/api/debates', claimed), key.key))).json();
+    expect(fromKey.generationMetadata.apiKeyId).toBe(key.apiKey.id);
+
+    const fromAdmin = await (await POST(jsonRequest('/api/debates', { ...claimed, debateId: 'admin-debate' }))).json();
+    expect(fromAdmin.generationMetadata).not.toHaveProperty('apiKeyId');
+  });
+
+  it('rejects a debate that does not match the schema', async () => {
+    const response = await POST(jsonRequest('/api/debates', { debateId: 'bad', topic: 42 }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid debate');
+    expect(data.details).toContain('topic: Invalid input: expected string, received number');
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const response = await POST(withKey(new NextRequest('http://localhost/api/debates', { method: 'POST', body: '{"debateId":' })));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual(['Debate must be a JSON object']);
+  });
+
+  it('refuses to overwrite an existing debate', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', validDebate))).json();
+
+    const response = await POST(jsonRequest('/api/debates', debate));
+
+    expect(response.status).toBe(409);
+  });
+
+  it('serves the JSON Schema', async () => {
+    const schema = await (await getSchema(new NextRequest('http://localhost/api/debates/schema'))).json();
+
+    expect(schema.properties.schemaVersion).toEqual({ type: 'number', const: 1 });
+  });
+});
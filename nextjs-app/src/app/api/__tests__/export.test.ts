@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as generate } from '../generate-debate/route';
+import { GET } from '../debates/[debateId]/export/route';
+import { jsonRequest, setUpRouteEnv, tearDownRouteEnv, validDebate } from './test-env';
+
+function exportDebate(debateId: string, query = '') {
+  const request = new NextRequest(`http://localhost/api/debates/${debateId}/export${query}`);
+  return GET(request, { params: Promise.resolve({ debateId }) });
+}
+
+describe('GET /api/debates/[debateId]/export', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = setUpRouteEnv();
+  });
+
+  afterEach(() => {
+    tearDownRouteEnv(dataDir);
+  });
+
+  it('downloads a saved debate in every format', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', validDebate))).json();
+
+    const pdf = await exportDebate(debate.debateId, '?format=pdf');
+    expect(pdf.status).toBe(200);
+    expect(pdf.headers.get('Content-Type')).toBe('application/pdf');
+    expect(pdf.headers.get('Content-Disposition')).toMatch(/^attachment; filename=".+_debate\.pdf"$/);
+    expect(Buffer.from(await pdf.arrayBuffer()).subarray(0, 4).toString()).toBe('%PDF');
+
+    const docx = await exportDebate(debate.debateId, '?format=docx&layout=sequential');
+    expect(docx.status).toBe(200);
+    expect(Buffer.from(await docx.arrayBuffer()).subarray(0, 2).toString()).toBe('PK');
+
+    const json = await exportDebate(debate.debateId, '?format=json');
+    expect(await json.json()).toEqual(debate);
+
+    const md = await exportDebate(debate.debateId, '?format=md');
+    expect(await md.text()).toContain(`# ${debate.topic}`);
+  });
+
+  it('defaults to html', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', validDebate))).json();
+
+    const response = await exportDebate(debate.debateId);
+
+    expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(await response.text()).toContain('<!DOCTYPE html>');
+  });
+
+  it('rejects an unknown format or layout', async () => {
+    expect((await exportDebate('anything', '?format=rtf')).status).toBe(400);
+    expect((await exportDebate('anything', '?layout=grid')).status).toBe(400);
+  });
+
+  it('returns 404 for a debate that does not exist', async () => {
+    const response = await exportDebate('missing', '?format=pdf');
+
+    expect(response.status).toBe(404);
+  });
+});
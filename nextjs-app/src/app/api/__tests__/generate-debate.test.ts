@@ -0,0 +1,315 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../generate-debate/route';
+import { getGenerationQueue } from '@/lib/generation-queue';
+import { createApiKeyStore } from '@/lib/api-key-store';
+import { TEST_ADMIN_TOKEN, jsonRequest, setUpRouteEnv, tearDownRouteEnv, validDebate, withKey } from './test-env';
+
+describe('POST /api/generate-debate', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = setUpRouteEnv();
+  });
+
+  afterEach(() => {
+    tearDownRouteEnv(dataDir);
+  });
+
+  it('generates and archives a debate', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate));
+    const debate = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(debate.personas.persona1.content.content).toContain('Costs have climbed faster than wages for a decade');
+    expect(debate.personas.persona2.content.sourcesUsed).toEqual(['https://x.com/regwatch/status/1000000000000000005']);
+    expect(fs.existsSync(path.join(dataDir, 'debates', `${debate.debateId}.json`))).toBe(true);
+  });
+
+  it('sends the API key to xAI', async () => {
+    await POST(jsonRequest('/api/generate-debate', validDebate));
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://api.x.ai/v1/chat/completions');
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer test-key');
+  });
+
+  it('rejects missing fields', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', { topic: 'Taxes' }));
+
+    expect(response.status).toBe(400);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('rejects a topic over the length limit and a body that is not JSON', async () => {
+    const tooLong = await POST(jsonRequest('/api/generate-debate', { ...validDebate, topic: 'x'.repeat(301) }));
+    const notJson = await POST(withKey(new NextRequest('http://localhost/api/generate-debate', { method: 'POST', body: 'topic=Taxes' })));
+
+    expect((await tooLong.json()).details).toEqual(['topic must be at most 300 characters']);
+    expect(notJson.status).toBe(400);
+    expect((await notJson.json()).details).toEqual(['Request body must be a JSON object']);
+  });
+
+  it('rejects an unknown pairing policy', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', { ...validDebate, pairingPolicy: 'chaos' }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects a pair the policy does not allow', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', {
+      ...validDebate,
+      persona2Id: 'liberal_expert'
+    }));
+
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.code).toBe('INVALID_PERSONA_PAIR');
+    expect(body.error).toContain('different political leanings');
+  });
+
+  it('rejects an unknown provider in personaModels', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', {
+      ...validDebate,
+      personaModels: { persona1: { provider: 'skynet' } }
+    }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects a search profile the search API would refuse', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', {
+      ...validDebate,
+      searchProfile: { allowedHandles: ['AOC'], excludedHandles: ['spam'] }
+    }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual([
+      'searchProfile can set allowedHandles or excludedHandles, not both'
+    ]);
+  });
+
+  it('drops live search when the budget cannot cover it', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', { ...validDebate, budget: { perDebate: 0.1 } }));
+    const debate = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(debate.personas.persona2.content.sources).toEqual([]);
+    expect(debate.personas.persona2.content.sourcesUsed).toBeUndefined();
+    expect(debate.generationMetadata.budget.fallbacks).toContain(
+      'Dropped live search for a grok-4-fast call to stay within budget'
+    );
+    expect(debate.generationMetadata.budget.spent).toBeLessThanOrEqual(0.1);
+
+    // Calls sent without search aren't told to search and cite either
+    const bodies = vi.mocked(fetch).mock.calls.map(([, init]) => JSON.parse(String(init?.body)));
+    const unsearched = bodies.filter(body => !body.search_parameters);
+    expect(unsearched.length).toBeGreaterThan(0);
+    for (const body of unsearched) {
+      expect(JSON.stringify(body.messages)).not.toContain('X/TWITTER');
+    }
+  });
+
+  it('refuses with 402 when even the cheapest call is over budget', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', { ...validDebate, budget: { perDebate: 0.0001 } }));
+    const body = await response.json();
+
+    expect(response.status).toBe(402);
+    expect(body.code).toBe('BUDGET_EXCEEDED');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses once the daily budget is spent', async () => {
+    vi.stubEnv('DAILY_BUDGET_USD', '1');
+    const today = new Date().toISOString().slice(0, 10);
+    fs.writeFileSync(path.join(dataDir, 'spend.json'), JSON.stringify({ days: { [today]: 1.5 } }));
+
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate));
+
+    expect(response.status).toBe(402);
+    expect((await response.json()).details).toBe('The daily spending limit of $1 has been reached');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('records what each debate spent toward the daily budget', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate));
+    const debate = await response.json();
+
+    const { days } = JSON.parse(fs.readFileSync(path.join(dataDir, 'spend.json'), 'utf-8'));
+    expect(Object.values(days)[0]).toBeCloseTo(debate.generationMetadata.budget.spent);
+  });
+
+  it('records every call in the usage ledger under the debate id', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', { ...validDebate, includeModerator: true }));
+    const debate = await response.json();
+
+    const entries = fs.readFileSync(path.join(dataDir, 'usage.jsonl'), 'utf-8')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(new Set(entries.map(entry => entry.debateId))).toEqual(new Set([debate.debateId]));
+    // The voice pass makes one call per section, so only the other calls have a fixed count
+    expect(entries.filter(entry => entry.purpose !== 'voice').map(entry => entry.purpose).sort()).toEqual(
+      ['essay', 'essay', 'moderator', 'moderator']
+    );
+    expect(new Set(entries.filter(entry => entry.purpose === 'voice').map(entry => entry.personaId)))
+      .toEqual(new Set(['conservative_expert', 'liberal_grassroots']));
+
+    const ledgerTotal = entries.reduce((total, entry) => total + entry.cost, 0);
+    expect(ledgerTotal).toBeCloseTo(debate.costAnalysis.totalEstimatedCost, 8);
+  });
+
+  it('rejects an invalid budget', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', { ...validDebate, budget: { perDebate: -1 } }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual(['budget.perDebate must be a positive number of dollars']);
+  });
+
+  it('saves the bias levels it was given', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', {
+      ...validDebate,
+      biasLevels: { persona1: 0.2, persona2: 0.9 }
+    }));
+    const debate = await response.json();
+
+    expect(debate.generationMetadata.biasLevels).toEqual({ persona1: 0.2, persona2: 0.9 });
+    expect(debate.personas.persona1.content.voiceEnhanced).toBe(false);
+    expect(debate.personas.persona2.content.voiceEnhanced).toBe(true);
+  });
+
+  it('rejects an unknown voice mode', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', { ...validDebate, voiceMode: 'loud' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Invalid request',
+      code: 'INVALID_REQUEST',
+      details: ['voiceMode must be one of: none, quick, llm']
+    });
+  });
+
+  it('rejects a bias level outside 0 to 1', async () => {
+    const response = await POST(jsonRequest('/api/generate-debate', { ...validDebate, biasLevels: { persona1: 2 } }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual(['biasLevels.persona1 must be a number from 0 to 1']);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('stops calling the LLM once the client disconnects', async () => {
+    const controller = new AbortController();
+    vi.mocked(fetch).mockImplementationOnce(async () => {
+      controller.abort();
+      throw new DOMException('This operation was aborted', 'AbortError');
+    });
+
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate, 'POST', controller.signal));
+
+    expect(response.status).toBe(499);
+    // The second essay sees the cancellation before it calls out
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fs.existsSync(path.join(dataDir, 'debates'))).toBe(false);
+  });
+
+  it('fails cleanly when no API key is configured', async () => {
+    vi.stubEnv('XAI_API_KEY', '');
+    vi.stubEnv('NEXT_PUBLIC_XAI_API_KEY', '');
+
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate));
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe('LLM provider not configured');
+  });
+
+  it('reports upstream failures', async () => {
+    tearDownRouteEnv(dataDir);
+    dataDir = setUpRouteEnv({ failureMode: 'server_error' });
+
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate));
+    const body = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(body.code).toBe('UPSTREAM_ERROR');
+    expect(body.details).toBe('API request failed: Internal Server Error');
+  });
+
+  it('answers 429 with Retry-After once the upstream rate limit outlasts the retries', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    vi.stubEnv('MOCK_LLM_FAILURE', 'rate_limit');
+
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('1');
+    expect((await response.json()).code).toBe('UPSTREAM_RATE_LIMITED');
+  });
+
+  it('refuses a mock failure count that is not a whole number', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    vi.stubEnv('MOCK_LLM_FAILURE', 'rate_limit');
+    vi.stubEnv('MOCK_LLM_FAILURE_COUNT', 'abc');
+
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({
+      code: 'PROVIDER_NOT_CONFIGURED',
+      details: 'Invalid MOCK_LLM_FAILURE_COUNT "abc". Expected a whole number'
+    });
+  });
+
+  it('answers 504 when the upstream times out', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    vi.stubEnv('MOCK_LLM_FAILURE', 'timeout');
+
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate));
+
+    expect(response.status).toBe(504);
+    expect(await response.json()).toMatchObject({ code: 'UPSTREAM_TIMEOUT', details: 'Request timeout' });
+  }, 10000);
+
+  it('answers 429 with Retry-After once a client uses up its burst', async () => {
+    vi.stubEnv('RATE_LIMIT_BURST', '2');
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '1');
+    const fromIp = (ip: string, apiKey = TEST_ADMIN_TOKEN) => new NextRequest('http://localhost/api/generate-debate', {
+      method: 'POST',
+      headers: { 'X-Forwarded-For': ip, Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({ topic: 'Taxes' })
+    });
+
+    expect((await POST(fromIp('203.0.113.7'))).status).toBe(400);
+    expect((await POST(fromIp('203.0.113.7'))).status).toBe(400);
+    const limited = await POST(fromIp('203.0.113.7'));
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(await limited.json()).toMatchObject({ code: 'RATE_LIMITED', details: 'At most 2 requests every 60 seconds' });
+
+    // A key is limited wherever it is used from
+    const keys = createApiKeyStore();
+    const keyA = keys.issue('Script A', ['generate']).key;
+    const keyB = keys.issue('Script B', ['generate']).key;
+    expect((await POST(fromIp('198.51.100.1', keyA))).status).toBe(400);
+    expect((await POST(fromIp('198.51.100.2', keyA))).status).toBe(400);
+    expect((await POST(fromIp('198.51.100.3', keyA))).status).toBe(429);
+    expect((await POST(fromIp('198.51.100.3', keyB))).status).toBe(400);
+  });
+
+  it('answers 503 when the generation queue is full', async () => {
+    const queue = getGenerationQueue();
+    let finish!: () => void;
+    const busy = new Promise<void>(resolve => { finish = resolve; });
+    const held = Array.from({ length: queue.maxConcurrent + queue.maxWaiting }, () => queue.run(() => busy));
+
+    const response = await POST(jsonRequest('/api/generate-debate', validDebate));
+
+    expect(response.status).toBe(503);
+    expect((await response.json()).code).toBe('SERVER_BUSY');
+
+    finish();
+    await Promise.all(held);
+  });
+});
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as listKeys, POST as issueKey } from '../keys/route';
+import { DELETE as revokeKey } from '../keys/[keyId]/route';
+import { POST as generate } from '../generate-debate/route';
+import { GET as getPersonas } from '../personas/route';
+import { GET as getUsage } from '../usage/route';
+import { createApiKeyStore } from '@/lib/api-key-store';
+import { jsonRequest, setUpRouteEnv, tearDownRouteEnv, validDebate, withKey } from './test-env';
+
+async function issue(name: string, scopes: string[], adminKey?: string): Promise<string> {
+  const request = jsonRequest('/api/keys', { name, scopes });
+  const response = await issueKey(adminKey ? withKey(request, adminKey) : request);
+  return (await response.json()).key;
+}
+
+describe('API keys', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = setUpRouteEnv();
+  });
+
+  afterEach(() => {
+    tearDownRouteEnv(dataDir);
+  });
+
+  it('issues a key once and stores only its hash', async () => {
+    const response = await issueKey(jsonRequest('/api/keys', { name: 'Nightly digest', scopes: ['generate', 'read'] }));
+    const { apiKey, key } = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(key).toMatch(/^dgk_/);
+    expect(apiKey).toMatchObject({ name: 'Nightly digest', scopes: ['generate', 'read'], prefix: key.slice(0, 10) });
+    expect(fs.readFileSync(path.join(dataDir, 'api-keys.json'), 'utf-8')).not.toContain(key);
+
+    const { keys } = await (await listKeys(withKey(new NextRequest('http://localhost/api/keys')))).json();
+    expect(keys).toEqual([apiKey]);
+  });
+
+  it('rejects a key request without a name or with an unknown scope', async () => {
+    const response = await issueKey(jsonRequest('/api/keys', { scopes: ['write'] }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual([
+      'name is required',
+      'scopes must be a non-empty list of: generate, read, admin'
+    ]);
+  });
+
+  it('lets requests without a key read and generate but not manage keys', async () => {
+    const read = await getPersonas(new NextRequest('http://localhost/api/personas'));
+    const generated = await generate(new NextRequest('http://localhost/api/generate-debate', {
+      method: 'POST',
+      body: JSON.stringify(validDebate)
+    }));
+    const issued = await issueKey(new NextRequest('http://localhost/api/keys', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Mine now', scopes: ['admin'] })
+    }));
+
+    expect(read.status).toBe(200);
+    expect(generated.status).toBe(200);
+    expect((await generated.json()).generationMetadata).not.toHaveProperty('apiKeyId');
+    expect(issued.status).toBe(401);
+    expect(await issued.json()).toMatchObject({
+      code: 'UNAUTHORIZED',
+      details: 'Requests without a key can only read and generate; send a key with the admin scope as "Authorization: Bearer <key>"'
+    });
+    expect(createApiKeyStore().list()).toEqual([]);
+  });
+
+  it('only issues keys to the admin token or an admin key', async () => {
+    const generateKey = await issue('Bot', ['generate']);
+    vi.stubEnv('API_ADMIN_TOKEN', '');
+
+    const withoutToken = await issueKey(jsonRequest('/api/keys', { name: 'Again', scopes: ['read'] }));
+    const withGenerateKey = await issueKey(withKey(jsonRequest('/api/keys', { name: 'Again', scopes: ['read'] }), generateKey));
+
+    expect(withoutToken.status).toBe(401);
+    expect(withGenerateKey.status).toBe(403);
+  });
+
+  it('refuses requests without a valid key once keys are required', async () => {
+    const adminKey = await issue('Ops', ['admin']);
+    vi.stubEnv('REQUIRE_API_KEYS', 'true');
+
+    const anonymous = await getPersonas(new NextRequest('http://localhost/api/personas'));
+    const wrongKey = await getPersonas(withKey(new NextRequest('http://localhost/api/personas'), 'dgk_not-a-key'));
+    const admin = await getPersonas(withKey(new NextRequest('http://localhost/api/personas'), adminKey));
+
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('WWW-Authenticate')).toBe('Bearer');
+    expect(await anonymous.json()).toMatchObject({ code: 'UNAUTHORIZED', error: 'API key required' });
+    expect(wrongKey.status).toBe(401);
+    expect(admin.status).toBe(200);
+  });
+
+  it('checks a key against the scope each route needs', async () => {
+    const readKey = await issue('Dashboard', ['read']);
+
+    const read = await getPersonas(withKey(new NextRequest('http://localhost/api/personas'), readKey));
+    const generated = await generate(withKey(jsonRequest('/api/generate-debate', validDebate), readKey));
+    const usage = await getUsage(withKey(new NextRequest('http://localhost/api/usage'), readKey));
+
+    expect(read.status).toBe(200);
+    expect(generated.status).toBe(403);
+    expect(await generated.json()).toMatchObject({ code: 'FORBIDDEN', error: 'API key "Dashboard" does not have the generate scope' });
+    expect(usage.status).toBe(403);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('records the key on the debate and on every usage ledger entry', async () => {
+    const key = await issue('Newsroom bot', ['generate']);
+    const { keys } = await (await listKeys(withKey(new NextRequest('http://localhost/api/keys')))).json();
+
+    const debate = await (await generate(withKey(jsonRequest('/api/generate-debate', validDebate), key))).json();
+    const entries = fs.readFileSync(path.join(dataDir, 'usage.jsonl'), 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line));
+    const summary = await (await getUsage(withKey(new NextRequest('http://localhost/api/usage')))).json();
+
+    expect(debate.generationMetadata.apiKeyId).toBe(keys[0].id);
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries.every(entry => entry.apiKeyId === keys[0].id)).toBe(true);
+    expect(summary.byApiKey[keys[0].id].calls).toBe(entries.length);
+  });
+
+  it('stops accepting a revoked key', async () => {
+    const key = await issue('Old script', ['read']);
+    const { keys } = await (await listKeys(withKey(new NextRequest('http://localhost/api/keys')))).json();
+
+    const revoked = await revokeKey(
+      withKey(new NextRequest(`http://localhost/api/keys/${keys[0].id}`, { method: 'DELETE' })),
+      { params: Promise.resolve({ keyId: keys[0].id }) }
+    );
+    const response = await getPersonas(withKey(new NextRequest('http://localhost/api/personas'), key));
+
+    expect((await revoked.json()).apiKey.revokedAt).toBeDefined();
+    expect(response.status).toBe(401);
+  });
+});
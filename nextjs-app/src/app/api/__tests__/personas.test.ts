@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../personas/route';
+import { jsonRequest, setUpRouteEnv, tearDownRouteEnv, withKey } from './test-env';
+
+const customPersona = {
+  personaId: 'sam_green',
+  displayName: 'Sam Green',
+  description: 'a climate organizer',
+  politicalLeaning: 'green',
+  expertiseLevel: 'grassroots',
+  characterName: 'Sam Green',
+  background: 'Organizer from Portland',
+  writingStyle: 'Urgent and hopeful',
+  keyInfluences: ['Bill McKibben'],
+  signaturePhrases: ['There is no planet B'],
+  preferredSources: ['Grist'],
+  socialMediaHandle: '@samgreen'
+};
+
+describe('/api/personas', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = setUpRouteEnv();
+  });
+
+  afterEach(() => {
+    tearDownRouteEnv(dataDir);
+  });
+
+  it('lists personas and valid combinations without calling any LLM', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/personas'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.personas).toHaveLength(4);
+    expect(data.validCombinations).toHaveLength(4);
+    expect(data.pairingPolicy).toBe('opposing_leaning');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('filters combinations by pairing policy', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/personas?pairingPolicy=any'));
+
+    expect((await response.json()).validCombinations).toHaveLength(6);
+  });
+
+  it('rejects an unknown pairing policy', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/personas?pairingPolicy=chaos'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('creates a custom persona that later requests can see', async () => {
+    const created = await POST(jsonRequest('/api/personas', customPersona));
+    expect(created.status).toBe(201);
+
+    const data = await (await GET(new NextRequest('http://localhost/api/personas'))).json();
+    expect(data.personas.map((p: { id: string }) => p.id)).toContain('sam_green');
+    expect(data.customPersonas).toHaveLength(1);
+  });
+
+  it('rejects duplicate and invalid personas', async () => {
+    await POST(jsonRequest('/api/personas', customPersona));
+
+    expect((await POST(jsonRequest('/api/personas', customPersona))).status).toBe(409);
+    expect((await POST(jsonRequest('/api/personas', { personaId: 'x' }))).status).toBe(400);
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const response = await POST(withKey(new NextRequest('http://localhost/api/personas', { method: 'POST', body: '{"personaId":' })));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual(['Persona must be a JSON object']);
+  });
+});
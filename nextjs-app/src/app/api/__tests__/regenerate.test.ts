@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { POST as generate } from '../generate-debate/route';
+import { POST } from '../debates/[debateId]/regenerate/route';
+import { jsonRequest, setUpRouteEnv, tearDownRouteEnv, validDebate } from './test-env';
+
+function regenerate(debateId: string, body: unknown) {
+  const url = `/api/debates/${debateId}/regenerate`;
+  return POST(jsonRequest(url, body), { params: Promise.resolve({ debateId }) });
+}
+
+describe('POST /api/debates/[debateId]/regenerate', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = setUpRouteEnv();
+  });
+
+  afterEach(() => {
+    tearDownRouteEnv(dataDir);
+  });
+
+  it('rewrites one side and saves the earlier version as an alternate', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', validDebate))).json();
+
+    const response = await regenerate(debate.debateId, { slot: 'persona2' });
+    const updated = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(updated.personas.persona2.alternates).toEqual([debate.personas.persona2.content]);
+    expect(updated.personas.persona1).toEqual(debate.personas.persona1);
+
+    const saved = JSON.parse(fs.readFileSync(path.join(dataDir, 'debates', `${debate.debateId}.json`), 'utf-8'));
+    expect(saved.personas.persona2.alternates).toHaveLength(1);
+  });
+
+  it('keeps both rewrites when the two sides are regenerated at once', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', validDebate))).json();
+
+    const responses = await Promise.all([
+      regenerate(debate.debateId, { slot: 'persona1' }),
+      regenerate(debate.debateId, { slot: 'persona2' })
+    ]);
+
+    expect(responses.map(response => response.status)).toEqual([200, 200]);
+    const saved = JSON.parse(fs.readFileSync(path.join(dataDir, 'debates', `${debate.debateId}.json`), 'utf-8'));
+    expect(saved.personas.persona1.alternates).toEqual([debate.personas.persona1.content]);
+    expect(saved.personas.persona2.alternates).toEqual([debate.personas.persona2.content]);
+  });
+
+  it('records the rewrite under the original debate in the usage ledger', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', validDebate))).json();
+    await regenerate(debate.debateId, { slot: 'persona1' });
+
+    const entries = fs.readFileSync(path.join(dataDir, 'usage.jsonl'), 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(entries.filter(entry => entry.purpose === 'essay')).toHaveLength(3);
+    expect(entries.every(entry => entry.debateId === debate.debateId)).toBe(true);
+  });
+
+  it('adds the rewrite to the budget report', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', { ...validDebate, budget: { perDebate: 5 } }))).json();
+
+    const updated = await (await regenerate(debate.debateId, { slot: 'persona1', budget: { perDebate: 2 } })).json();
+    const added = updated.costAnalysis.totalEstimatedCost - debate.costAnalysis.totalEstimatedCost;
+
+    expect(added).toBeGreaterThan(0);
+    expect(updated.generationMetadata.budget.spent).toBeCloseTo(debate.generationMetadata.budget.spent + added, 8);
+    expect(updated.generationMetadata.budget.perDebate).toBe(2);
+  });
+
+  it('rejects an unknown slot', async () => {
+    const response = await regenerate('anything', { slot: 'persona3' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 404 for a debate that does not exist', async () => {
+    const response = await regenerate('missing', { slot: 'persona1' });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('refuses rounds debates', async () => {
+    const debate = await (await generate(jsonRequest('/api/generate-debate', { ...validDebate, format: 'rounds', rebuttalRounds: 1 }))).json();
+
+    const response = await regenerate(debate.debateId, { slot: 'persona1' });
+
+    expect(response.status).toBe(400);
+  });
+});
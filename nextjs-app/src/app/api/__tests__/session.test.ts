@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DELETE, GET, POST } from '../session/route';
+import { POST as generate } from '../generate-debate/route';
+import { createApiKeyStore } from '@/lib/api-key-store';
+import { setUpRouteEnv, tearDownRouteEnv, validDebate } from './test-env';
+
+function signIn(key: unknown) {
+  return POST(new NextRequest('http://localhost/api/session', { method: 'POST', body: JSON.stringify({ key }) }));
+}
+
+function withSession(url: string, cookie: string, init: { method?: string; body?: string } = {}) {
+  return new NextRequest(`http://localhost${url}`, { ...init, headers: { Cookie: cookie } });
+}
+
+describe('/api/session', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = setUpRouteEnv();
+  });
+
+  afterEach(() => {
+    tearDownRouteEnv(dataDir);
+  });
+
+  it('signs the browser in with a key that then authorizes its requests', async () => {
+    vi.stubEnv('REQUIRE_API_KEYS', 'true');
+    const { apiKey, key } = createApiKeyStore().issue('Newsroom', ['generate', 'read']);
+
+    const response = await signIn(key);
+    const setCookie = response.headers.get('Set-Cookie')!;
+    const cookie = setCookie.split(';')[0];
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ apiKey });
+    expect(setCookie).toContain('HttpOnly');
+    expect(setCookie.toLowerCase()).toContain('samesite=strict');
+
+    const session = await GET(withSession('/api/session', cookie));
+    expect(await session.json()).toEqual({ apiKey });
+
+    const debate = await generate(withSession('/api/generate-debate', cookie, {
+      method: 'POST',
+      body: JSON.stringify(validDebate)
+    }));
+    expect(debate.status).toBe(200);
+    expect((await debate.json()).generationMetadata.apiKeyId).toBe(apiKey.id);
+  });
+
+  it('refuses an unknown key and a missing one', async () => {
+    const unknown = await signIn('dgk_not-a-key');
+    const missing = await signIn(undefined);
+
+    expect(unknown.status).toBe(401);
+    expect(unknown.headers.get('Set-Cookie')).toBeNull();
+    expect(missing.status).toBe(400);
+  });
+
+  it('stops authorizing a session once its key is revoked', async () => {
+    const store = createApiKeyStore();
+    const { apiKey, key } = store.issue('Intern', ['generate']);
+    const cookie = (await signIn(key)).headers.get('Set-Cookie')!.split(';')[0];
+
+    store.revoke(apiKey.id);
+    const response = await generate(withSession('/api/generate-debate', cookie, {
+      method: 'POST',
+      body: JSON.stringify(validDebate)
+    }));
+
+    expect(response.status).toBe(401);
+    expect(await (await GET(withSession('/api/session', cookie))).json()).toEqual({ apiKey: null });
+  });
+
+  it('signs out by clearing the cookie', async () => {
+    const response = await DELETE();
+
+    expect(await response.json()).toEqual({ apiKey: null });
+    expect(response.headers.get('Set-Cookie')).toMatch(/^debate_session=;/);
+  });
+});
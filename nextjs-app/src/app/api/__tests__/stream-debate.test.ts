@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '../stream-debate/route';
+import { jsonRequest, setUpRouteEnv, tearDownRouteEnv, validDebate } from './test-env';
+
+interface StreamEvent {
+  type: string;
+  perspectiveType?: string;
+  code?: string;
+  details?: string;
+  debateResult?: { topic: string };
+}
+
+async function readEvents(response: Response): Promise<StreamEvent[]> {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .filter(event => event.startsWith('data: '))
+    .map(event => JSON.parse(event.slice(6)));
+}
+
+describe('POST /api/stream-debate', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = setUpRouteEnv();
+  });
+
+  afterEach(() => {
+    tearDownRouteEnv(dataDir);
+  });
+
+  it('streams status, deltas, both perspectives and the result', async () => {
+    const response = await POST(jsonRequest('/api/stream-debate', validDebate));
+    const events = await readEvents(response);
+    const types = events.map(e => e.type);
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(types[0]).toBe('status');
+    expect(types).toContain('delta');
+    expect(types.slice(-3)).toEqual(['perspective', 'perspective', 'complete']);
+    expect(events.at(-1)?.debateResult?.topic).toBe(validDebate.topic);
+  });
+
+  it('tags every delta with its persona', async () => {
+    const events = await readEvents(await POST(jsonRequest('/api/stream-debate', validDebate)));
+    const slots = new Set(events.filter(e => e.type === 'delta').map(e => e.perspectiveType));
+
+    expect(slots).toEqual(new Set(['persona1', 'persona2']));
+  });
+
+  it('stops calling the LLM when the client cancels the stream', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    vi.stubEnv('MOCK_LLM_CHUNK_DELAY_MS', '5');
+    const response = await POST(jsonRequest('/api/stream-debate', validDebate));
+    const reader = response.body!.getReader();
+
+    // Wait for the essays to start streaming, then walk away
+    let received = '';
+    while (!received.includes('"type":"delta"')) {
+      received += new TextDecoder().decode((await reader.read()).value);
+    }
+    await reader.cancel();
+
+    await vi.waitFor(() => expect(console.log).toHaveBeenCalledWith('Debate generation cancelled by the client'));
+    expect(fs.existsSync(path.join(dataDir, 'debates'))).toBe(false);
+  });
+
+  it('rejects missing fields before opening the stream', async () => {
+    const response = await POST(jsonRequest('/api/stream-debate', { topic: 'Taxes' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Invalid request',
+      code: 'INVALID_REQUEST',
+      details: ['persona1Id is required', 'persona2Id is required']
+    });
+  });
+
+  describe('with the mock provider simulating failures', () => {
+    beforeEach(() => {
+      vi.stubEnv('LLM_PROVIDER', 'mock');
+      vi.stubEnv('MOCK_LLM_CHUNK_DELAY_MS', '0');
+    });
+
+    it('sends an error event when the upstream times out', async () => {
+      vi.stubEnv('MOCK_LLM_FAILURE', 'timeout');
+
+      const events = await readEvents(await POST(jsonRequest('/api/stream-debate', validDebate)));
+
+      expect(events.at(-1)).toMatchObject({ type: 'error', code: 'UPSTREAM_TIMEOUT', details: 'Request timeout' });
+    }, 10000);
+
+    it('sends an error event after rate limits exhaust the retries', async () => {
+      vi.stubEnv('MOCK_LLM_FAILURE', 'rate_limit');
+
+      const events = await readEvents(await POST(jsonRequest('/api/stream-debate', validDebate)));
+
+      expect(events.at(-1)).toMatchObject({
+        type: 'error',
+        code: 'UPSTREAM_RATE_LIMITED',
+        details: 'API request failed: Too Many Requests'
+      });
+    });
+
+    it('recovers when the rate limit clears before the retries run out', async () => {
+      vi.stubEnv('MOCK_LLM_FAILURE', 'rate_limit');
+      vi.stubEnv('MOCK_LLM_FAILURE_COUNT', '1');
+
+      const events = await readEvents(await POST(jsonRequest('/api/stream-debate', validDebate)));
+
+      expect(events.at(-1)?.type).toBe('complete');
+    });
+  });
+
+  describe('with the openai provider against a failing upstream', () => {
+    beforeEach(() => {
+      vi.stubEnv('LLM_PROVIDER', 'openai');
+      vi.stubEnv('OPENAI_API_KEY', 'test-key');
+    });
+
+    it('sends a rate limit error event once the retries run out', async () => {
+      // retry-after-ms keeps the SDK's retries fast
+      vi.mocked(fetch).mockImplementation(async () => new Response(
+        JSON.stringify({ error: { message: 'Rate limit reached', type: 'rate_limit_exceeded' } }),
+        { status: 429, headers: { 'Content-Type': 'application/json', 'retry-after-ms': '1' } }
+      ));
+
+      const events = await readEvents(await POST(jsonRequest('/api/stream-debate', validDebate)));
+
+      expect(events.at(-1)).toMatchObject({ type: 'error', code: 'UPSTREAM_RATE_LIMITED' });
+    });
+
+    it('sends an upstream error event when the provider fails', async () => {
+      vi.mocked(fetch).mockImplementation(async () => new Response(
+        JSON.stringify({ error: { message: 'Invalid model', type: 'invalid_request_error' } }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      ));
+
+      const events = await readEvents(await POST(jsonRequest('/api/stream-debate', validDebate)));
+
+      expect(events.at(-1)).toMatchObject({ type: 'error', code: 'UPSTREAM_ERROR', details: 'Invalid model' });
+    });
+
+    it('sends an upstream error event when the provider cannot be reached', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'local');
+      vi.mocked(fetch).mockImplementation(async () => {
+        throw new TypeError('fetch failed', { cause: new Error('connect ECONNREFUSED 127.0.0.1:11434') });
+      });
+
+      const events = await readEvents(await POST(jsonRequest('/api/stream-debate', validDebate)));
+
+      expect(events.at(-1)).toMatchObject({ type: 'error', code: 'UPSTREAM_ERROR' });
+      expect(events.at(-1)?.details).toContain('Cannot connect to API: connect ECONNREFUSED');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { vi } from 'vitest';
+import { createMockFetch, MockProviderConfig } from '@/lib/providers/mock-provider';
+import { InMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limiter';
+
+/**
+ * The operator token route tests send unless they test a key of their own
+ */
+export const TEST_ADMIN_TOKEN = 'test-admin-token';
+
+/**
+ * Point the stores at a temp directory, start the rate limits from zero and
+ * replace the xAI API with the mock fetch
+ */
+export function setUpRouteEnv(mock: MockProviderConfig = {}): string {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'debate-routes-'));
+  vi.stubEnv('XAI_API_KEY', 'test-key');
+  vi.stubEnv('LLM_PROVIDER', '');
+  vi.stubEnv('DEBATE_STORE_DIR', path.join(dataDir, 'debates'));
+  vi.stubEnv('PERSONA_STORE_PATH', path.join(dataDir, 'personas.json'));
+  vi.stubEnv('SPEND_STORE_PATH', path.join(dataDir, 'spend.json'));
+  vi.stubEnv('USAGE_LEDGER_PATH', path.join(dataDir, 'usage.jsonl'));
+  vi.stubEnv('API_KEY_STORE_PATH', path.join(dataDir, 'api-keys.json'));
+  vi.stubEnv('REQUIRE_API_KEYS', '');
+  vi.stubEnv('API_ADMIN_TOKEN', TEST_ADMIN_TOKEN);
+  vi.stubEnv('DEBATE_BUDGET_USD', '');
+  vi.stubEnv('DAILY_BUDGET_USD', '');
+  vi.stubEnv('RATE_LIMIT_BURST', '');
+  vi.stubEnv('RATE_LIMIT_WINDOW_SECONDS', '');
+  vi.stubEnv('RATE_LIMIT_DAILY', '');
+  vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '');
+  setRateLimitStore(new InMemoryRateLimitStore());
+  vi.stubGlobal('fetch', vi.fn(createMockFetch(mock)));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  return dataDir;
+}
+
+export function tearDownRouteEnv(dataDir: string): void {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+}
+
+/**
+ * A request to a route, sent with the admin token
+ */
+export function jsonRequest(url: string, body: unknown, method = 'POST', signal?: AbortSignal): NextRequest {
+  return new NextRequest(`http://localhost${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_ADMIN_TOKEN}` },
+    body: JSON.stringify(body),
+    signal
+  });
+}
+
+export const validDebate = {
+  topic: 'Remote work vs office mandates',
+  persona1Id: 'liberal_grassroots',
+  persona2Id: 'conservative_expert'
+};
+
+/**
+ * Send a request with a key, or the admin token
+ */
+export function withKey(request: NextRequest, key: string = TEST_ADMIN_TOKEN): NextRequest {
+  request.headers.set('Authorization', `Bearer ${key}`);
+  return request;
+}
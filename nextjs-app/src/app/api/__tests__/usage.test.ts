@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '../usage/route';
+import { POST } from '../generate-debate/route';
+import { jsonRequest, setUpRouteEnv, tearDownRouteEnv, validDebate, withKey } from './test-env';
+
+describe('GET /api/usage', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = setUpRouteEnv();
+  });
+
+  afterEach(() => {
+    tearDownRouteEnv(dataDir);
+  });
+
+  it('reports nothing before any debate has run', async () => {
+    const response = await GET(withKey(new NextRequest('http://localhost/api/usage')));
+    const summary = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(summary.totals.calls).toBe(0);
+    expect(summary.byDay).toEqual({});
+  });
+
+  it('reports spend by day, persona, model and topic', async () => {
+    const debate = await (await POST(jsonRequest('/api/generate-debate', validDebate))).json();
+
+    const summary = await (await GET(withKey(new NextRequest('http://localhost/api/usage')))).json();
+
+    const today = new Date().toISOString().slice(0, 10);
+    expect(summary.totals.cost).toBeCloseTo(debate.costAnalysis.totalEstimatedCost, 8);
+    expect(summary.byDay[today].calls).toBe(summary.totals.calls);
+    expect(Object.keys(summary.byPersona).sort()).toEqual(['conservative_expert', 'liberal_grassroots']);
+    expect(Object.keys(summary.byModel)).toEqual(['grok/grok-4-fast']);
+    expect(summary.byTopic[validDebate.topic].calls).toBe(summary.totals.calls);
+  });
+
+  it('filters by date range', async () => {
+    await POST(jsonRequest('/api/generate-debate', validDebate));
+
+    const response = await GET(withKey(new NextRequest('http://localhost/api/usage?from=2000-01-01&to=2000-12-31')));
+
+    expect((await response.json()).totals.calls).toBe(0);
+  });
+
+  it('rejects a malformed date', async () => {
+    const response = await GET(withKey(new NextRequest('http://localhost/api/usage?from=yesterday')));
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { createDebateStore } from '@/lib/debate-store';
+import { EXPORT_FORMATS, EXPORT_LAYOUTS, ExportFormat, ExportLayout, exportDebate } from '@/lib/debate-export';
+
+interface RouteContext {
+  params: Promise<{ debateId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { denied } = authorize(request, 'read');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { debateId } = await params;
+    const format = request.nextUrl.searchParams.get('format') ?? 'html';
+    const layout = request.nextUrl.searchParams.get('layout') ?? 'side-by-side';
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return apiError('INVALID_REQUEST', `Invalid format. Expected one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    if (!EXPORT_LAYOUTS.includes(layout as ExportLayout)) {
+      return apiError('INVALID_REQUEST', `Invalid layout. Expected one of: ${EXPORT_LAYOUTS.join(', ')}`);
+    }
+
+    const debate = createDebateStore().get(debateId);
+
+    if (!debate) {
+      return apiError('NOT_FOUND', `Debate "${debateId}" not found`);
+    }
+
+    const file = await exportDebate(debate, format as ExportFormat, layout as ExportLayout);
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Error exporting debate:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to export debate',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DebateGenerator } from '@/lib/debate-generator';
+import { LLMProvider, createLLMProvider } from '@/lib/llm-provider';
+import { createDebateStore } from '@/lib/debate-store';
+import { addToBudgetReport, createDebateBudget } from '@/lib/budget';
+import { parseRegenerateRequest } from '@/lib/debate-request';
+import { apiError, generationErrorResponse } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { createUsageLedger } from '@/lib/usage-ledger';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { getGenerationQueue } from '@/lib/generation-queue';
+
+interface RouteContext {
+  params: Promise<{ debateId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { apiKey, denied } = authorize(request, 'generate');
+    if (denied) {
+      return denied;
+    }
+
+    const rateLimited = await checkRateLimit(request, apiKey?.id);
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const { debateId } = await params;
+    const { request: regenerateRequest, errors } = parseRegenerateRequest(await request.json().catch(() => undefined));
+
+    if (!regenerateRequest) {
+      return apiError('INVALID_REQUEST', 'Invalid request', errors);
+    }
+
+    const store = createDebateStore();
+    const debate = store.get(debateId);
+    if (!debate) {
+      return apiError('NOT_FOUND', `Debate "${debateId}" not found`);
+    }
+
+    if (debate.format === 'rounds') {
+      return apiError('INVALID_REQUEST', 'Only essay debates can regenerate one side');
+    }
+
+    const budget = createDebateBudget(regenerateRequest.budget);
+    const exhaustedLimit = budget.exhaustedLimit();
+    if (exhaustedLimit) {
+      return apiError('BUDGET_EXCEEDED', 'Budget exceeded', exhaustedLimit);
+    }
+
+    // Every call is checked against the budget, then recorded in the usage ledger under the original debate
+    // and the key that asked for the regeneration
+    const usageLedger = createUsageLedger();
+    const instrument = (inner: LLMProvider) =>
+      budget.wrap(usageLedger.wrap(inner, { debateId: debate.debateId, topic: debate.topic, apiKeyId: apiKey?.id }));
+
+    let provider;
+    try {
+      provider = instrument(createLLMProvider());
+    } catch (error) {
+      return apiError(
+        'PROVIDER_NOT_CONFIGURED',
+        'LLM provider not configured',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+
+    const debateGenerator = new DebateGenerator(provider, undefined, name => instrument(createLLMProvider(name)));
+    // Start from the latest saved version, in case another regeneration of this debate finished first
+    const updated = await store.update(debateId, async latest => {
+      const regenerated = await getGenerationQueue().run(
+        () => debateGenerator.regeneratePersona(latest, regenerateRequest.slot, request.signal),
+        request.signal
+      );
+      // The debate's costs now include the rewrite, so its budget report does too
+      const metadata = regenerated.generationMetadata;
+      return {
+        ...regenerated,
+        generationMetadata: { ...metadata, budget: addToBudgetReport(metadata.budget, budget.getReport()) }
+      };
+    });
+
+    if (!updated) {
+      return apiError('NOT_FOUND', `Debate "${debateId}" not found`);
+    }
+
+    return NextResponse.json(updated);
+
+  } catch (error) {
+    if (request.signal.aborted) {
+      console.log('Regeneration cancelled by the client');
+      return new NextResponse(null, { status: 499 });
+    }
+
+    console.error('Regeneration error:', error);
+
+    return generationErrorResponse(error, 'Failed to regenerate');
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { createDebateStore } from '@/lib/debate-store';
+
+interface RouteContext {
+  params: Promise<{ debateId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { denied } = authorize(request, 'read');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { debateId } = await params;
+    const debate = createDebateStore().get(debateId);
+
+    if (!debate) {
+      return apiError('NOT_FOUND', `Debate "${debateId}" not found`);
+    }
+
+    return NextResponse.json(debate);
+
+  } catch (error) {
+    console.error('Error loading debate:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to load debate',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { denied } = authorize(request, 'admin');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { debateId } = await params;
+
+    if (!createDebateStore().delete(debateId)) {
+      return apiError('NOT_FOUND', `Debate "${debateId}" not found`);
+    }
+
+    return NextResponse.json({ deleted: debateId });
+
+  } catch (error) {
+    console.error('Error deleting debate:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to delete debate',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
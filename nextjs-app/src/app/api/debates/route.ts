@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { createDebateStore } from '@/lib/debate-store';
+import { parseDebateResult } from '@/lib/debate-schema';
+import { DebateResult } from '@/types/personas';
+
+export async function GET(request: NextRequest) {
+  const { denied } = authorize(request, 'read');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const sortBy = params.get('sort') === 'cost' ? 'cost' : 'date';
+    const order = params.get('order') === 'asc' ? 'asc' : 'desc';
+
+    const debates = createDebateStore().list({
+      query: params.get('q') || undefined,
+      personaId: params.get('persona') || undefined,
+      sortBy,
+      order
+    });
+
+    return NextResponse.json({ debates });
+
+  } catch (error) {
+    console.error('Error listing debates:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to list debates',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * Import a debate exported as JSON, migrating it if it was saved with an
+ * older schema
+ */
+export async function POST(request: NextRequest) {
+  const { apiKey, denied } = authorize(request, 'generate');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { debate, errors } = parseDebateResult(await request.json().catch(() => undefined));
+
+    if (!debate) {
+      return apiError('INVALID_REQUEST', 'Invalid debate', errors);
+    }
+
+    const store = createDebateStore();
+    if (store.get(debate.debateId)) {
+      return apiError('ALREADY_EXISTS', `Debate "${debate.debateId}" already exists`);
+    }
+
+    // The debate belongs to whoever imports it, not the key the file claims
+    const imported: DebateResult = {
+      ...debate,
+      generationMetadata: { ...debate.generationMetadata, apiKeyId: apiKey?.id }
+    };
+    store.save(imported);
+
+    return NextResponse.json(imported, { status: 201 });
+
+  } catch (error) {
+    console.error('Error importing debate:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to import debate',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDebateJsonSchema } from '@/lib/debate-schema';
+import { authorize } from '@/lib/api-auth';
+
+export async function GET(request: NextRequest) {
+  const { denied } = authorize(request, 'read');
+  if (denied) {
+    return denied;
+  }
+
+  return NextResponse.json(getDebateJsonSchema());
+}
@@ -1,67 +1,101 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DebateGenerator } from '@/lib/debate-generator';
-import GrokClient from '@/lib/grok-client';
-import { PersonaType } from '@/types/personas';
+import { DebateGenerator, createDebateId } from '@/lib/debate-generator';
+import { LLMProvider, createLLMProvider } from '@/lib/llm-provider';
+import { createDebateStore } from '@/lib/debate-store';
+import { createDebateBudget } from '@/lib/budget';
+import { parseDebateRequest } from '@/lib/debate-request';
+import { apiError, generationErrorResponse } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { createUsageLedger } from '@/lib/usage-ledger';
+import { describePairingPolicy } from '@/lib/persona-registry';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { getGenerationQueue } from '@/lib/generation-queue';
 
 export async function POST(request: NextRequest) {
   try {
-    const { topic, persona1Id, persona2Id, context, useTwitterSearch = true, biasLevels } = await request.json();
+    const { apiKey, denied } = authorize(request, 'generate');
+    if (denied) {
+      return denied;
+    }
 
-    if (!topic || !persona1Id || !persona2Id) {
-      return NextResponse.json(
-        { error: 'Missing required fields: topic, persona1Id, persona2Id' },
-        { status: 400 }
-      );
+    const rateLimited = await checkRateLimit(request, apiKey?.id);
+    if (rateLimited) {
+      return rateLimited;
     }
 
-    // Initialize Grok client with API key from environment
-    const apiKey = process.env.XAI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'XAI API key not configured' },
-        { status: 500 }
-      );
+    const { request: debateRequest, errors } = parseDebateRequest(await request.json().catch(() => undefined));
+    if (!debateRequest) {
+      return apiError('INVALID_REQUEST', 'Invalid request', errors);
     }
+    const { config } = debateRequest;
 
-    const grokClient = new GrokClient({
-      apiKey,
-      baseUrl: process.env.XAI_BASE_URL || 'https://api.x.ai/v1',
-      timeout: 60000,
-      maxRetries: 3
-    });
+    const budget = createDebateBudget(debateRequest.budget);
+    const exhaustedLimit = budget.exhaustedLimit();
+    if (exhaustedLimit) {
+      return apiError('BUDGET_EXCEEDED', 'Budget exceeded', exhaustedLimit);
+    }
+
+    // Every call is checked against the budget, then recorded in the usage ledger under the caller's key
+    const debateId = createDebateId(config.persona1Id, config.persona2Id);
+    const usageLedger = createUsageLedger();
+    const instrument = (inner: LLMProvider) =>
+      budget.wrap(usageLedger.wrap(inner, { debateId, topic: config.topic, apiKeyId: apiKey?.id }));
+
+    // Initialize the default LLM provider from environment
+    let provider;
+    try {
+      provider = instrument(createLLMProvider());
+    } catch (error) {
+      return apiError(
+        'PROVIDER_NOT_CONFIGURED',
+        'LLM provider not configured',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
 
     // Initialize debate generator
-    const debateGenerator = new DebateGenerator(grokClient);
+    const debateGenerator = new DebateGenerator(provider, undefined, name => instrument(createLLMProvider(name)));
 
     // Validate persona selection
-    if (!debateGenerator.validatePersonaSelection(persona1Id, persona2Id)) {
-      return NextResponse.json(
-        { error: 'Invalid persona combination. Personas must be from opposing political sides.' },
-        { status: 400 }
+    if (!debateGenerator.validatePersonaSelection(config.persona1Id, config.persona2Id, config.pairingPolicy)) {
+      return apiError(
+        'INVALID_PERSONA_PAIR',
+        `Invalid persona combination: ${describePairingPolicy(config.pairingPolicy)}.`
       );
     }
 
-    // Generate the debate
-    const debateResult = await debateGenerator.generateDebate({
-      topic,
-      persona1Id: PersonaType[persona1Id.toUpperCase() as keyof typeof PersonaType],
-      persona2Id: PersonaType[persona2Id.toUpperCase() as keyof typeof PersonaType],
-      context,
-      useTwitterSearch,
-      biasLevels
-    });
+    // Generate the debate once the queue has a free slot
+    const generated = await getGenerationQueue().run(
+      () => debateGenerator.generateDebate({ ...config, debateId }, undefined, request.signal),
+      request.signal
+    );
+    const debateResult = {
+      ...generated,
+      generationMetadata: {
+        ...generated.generationMetadata,
+        budget: budget.getReport(),
+        ...(apiKey && { apiKeyId: apiKey.id })
+      }
+    };
+
+    // Archive the debate; a storage failure shouldn't cost the user their result
+    try {
+      createDebateStore().save(debateResult);
+    } catch (error) {
+      console.error('Failed to save debate:', error);
+    }
 
     return NextResponse.json(debateResult);
 
   } catch (error) {
+    // The client went away, so there is nobody to answer
+    if (request.signal.aborted) {
+      console.log('Debate generation cancelled by the client');
+      return new NextResponse(null, { status: 499 });
+    }
+
     console.error('Debate generation error:', error);
 
-    return NextResponse.json(
-      {
-        error: 'Failed to generate debate',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
+    return generationErrorResponse(error);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { createApiKeyStore } from '@/lib/api-key-store';
+
+interface RouteContext {
+  params: Promise<{ keyId: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { denied } = authorize(request, 'admin');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { keyId } = await params;
+    const apiKey = createApiKeyStore().revoke(keyId);
+
+    if (!apiKey) {
+      return apiError('NOT_FOUND', `API key "${keyId}" not found`);
+    }
+
+    return NextResponse.json({ apiKey });
+
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to revoke API key',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
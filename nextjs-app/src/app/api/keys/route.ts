@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { createApiKeyStore, validateNewApiKey } from '@/lib/api-key-store';
+
+export async function GET(request: NextRequest) {
+  const { denied } = authorize(request, 'admin');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    return NextResponse.json({ keys: createApiKeyStore().list() });
+
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to list API keys',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { denied } = authorize(request, 'admin');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { request: newKey, errors } = validateNewApiKey(await request.json().catch(() => undefined));
+
+    if (!newKey) {
+      return apiError('INVALID_REQUEST', 'Invalid API key', errors);
+    }
+
+    // The key is only ever shown in this response
+    const { apiKey, key } = createApiKeyStore().issue(newKey.name, newKey.scopes);
+    return NextResponse.json({ apiKey, key }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error issuing API key:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to issue API key',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
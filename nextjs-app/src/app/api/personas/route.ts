@@ -1,20 +1,29 @@
-import { NextResponse } from 'next/server';
-import { PersonaRegistry } from '@/lib/persona-registry';
-import GrokClient from '@/lib/grok-client';
-import { DebateGenerator } from '@/lib/debate-generator';
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { PersonaRegistry, getDefaultPairingPolicy } from '@/lib/persona-registry';
+import { createPersonaStore, validatePersonaProfile } from '@/lib/persona-store';
+import { PairingPolicy } from '@/types/personas';
+
+export async function GET(request: NextRequest) {
+  const { denied } = authorize(request, 'read');
+  if (denied) {
+    return denied;
+  }
 
-export async function GET() {
   try {
-    // We need to initialize the debate generator to access persona methods
-    // Using a dummy API key since we're only accessing persona metadata
-    const grokClient = new GrokClient({
-      apiKey: 'dummy',
-    });
+    const requestedPolicy = request.nextUrl.searchParams.get('pairingPolicy') as PairingPolicy | null;
+    if (requestedPolicy && !Object.values(PairingPolicy).includes(requestedPolicy)) {
+      return apiError('INVALID_REQUEST', `Invalid pairingPolicy. Expected one of: ${Object.values(PairingPolicy).join(', ')}`);
+    }
+    const pairingPolicy = requestedPolicy || getDefaultPairingPolicy();
 
-    const debateGenerator = new DebateGenerator(grokClient);
+    // Persona metadata comes straight from the registry; no LLM provider is needed
+    const store = createPersonaStore();
+    const registry = new PersonaRegistry(store);
 
-    const personas = debateGenerator.getAvailablePersonas();
-    const combinations = debateGenerator.getValidCombinations();
+    const personas = registry.getPersonaDisplayInfo();
+    const combinations = registry.getValidCombinations(pairingPolicy);
 
     // Convert complex PersonaCombination objects to simple arrays of persona IDs
     const validCombinations = combinations.map(combo => [
@@ -22,21 +31,133 @@ export async function GET() {
       combo.persona2.personaId
     ]);
 
+    // Full profiles of custom personas so clients can edit them
+    const customPersonas = store.list();
 
     return NextResponse.json({
       personas,
-      validCombinations
+      validCombinations,
+      pairingPolicy,
+      pairingPolicies: Object.values(PairingPolicy),
+      customPersonas
     });
 
   } catch (error) {
     console.error('Error fetching personas:', error);
 
-    return NextResponse.json(
-      {
-        error: 'Failed to fetch personas',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to fetch personas',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { denied } = authorize(request, 'admin');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { profile, errors } = validatePersonaProfile(await request.json().catch(() => undefined));
+
+    if (!profile) {
+      return apiError('INVALID_REQUEST', 'Invalid persona', errors);
+    }
+
+    const store = createPersonaStore();
+    const registry = new PersonaRegistry(store);
+
+    if (registry.getPersona(profile.personaId)) {
+      return apiError('ALREADY_EXISTS', `Persona "${profile.personaId}" already exists`);
+    }
+
+    const created = store.create(profile);
+    return NextResponse.json({ persona: created }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating persona:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to create persona',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const { denied } = authorize(request, 'admin');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { profile, errors } = validatePersonaProfile(await request.json().catch(() => undefined));
+
+    if (!profile) {
+      return apiError('INVALID_REQUEST', 'Invalid persona', errors);
+    }
+
+    const store = createPersonaStore();
+    const registry = new PersonaRegistry(store);
+
+    if (registry.isBuiltIn(profile.personaId)) {
+      return apiError('FORBIDDEN', 'Built-in personas cannot be modified');
+    }
+
+    if (!store.get(profile.personaId)) {
+      return apiError('NOT_FOUND', `Persona "${profile.personaId}" not found`);
+    }
+
+    const updated = store.update(profile.personaId, profile);
+    return NextResponse.json({ persona: updated });
+
+  } catch (error) {
+    console.error('Error updating persona:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to update persona',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const { denied } = authorize(request, 'admin');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const personaId = request.nextUrl.searchParams.get('id');
+
+    if (!personaId) {
+      return apiError('INVALID_REQUEST', 'Missing required query parameter: id');
+    }
+
+    const store = createPersonaStore();
+    const registry = new PersonaRegistry(store);
+
+    if (registry.isBuiltIn(personaId)) {
+      return apiError('FORBIDDEN', 'Built-in personas cannot be deleted');
+    }
+
+    if (!store.delete(personaId)) {
+      return apiError('NOT_FOUND', `Persona "${personaId}" not found`);
+    }
+
+    return NextResponse.json({ deleted: personaId });
+
+  } catch (error) {
+    console.error('Error deleting persona:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to delete persona',
+      error instanceof Error ? error.message : 'Unknown error'
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { createLLMProvider, getConfiguredProviders } from '@/lib/llm-provider';
+
+export async function GET(request: NextRequest) {
+  const { denied } = authorize(request, 'read');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const providers = getConfiguredProviders().map(name => ({
+      name,
+      defaultModel: createLLMProvider(name).defaultModel
+    }));
+
+    return NextResponse.json({
+      providers,
+      defaultProvider: process.env.LLM_PROVIDER || 'grok'
+    });
+
+  } catch (error) {
+    console.error('Error listing providers:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to list providers',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { SESSION_COOKIE, getSessionToken } from '@/lib/api-auth';
+import { createApiKeyStore } from '@/lib/api-key-store';
+
+// Signed-in browsers stay signed in for 30 days, or until the key is revoked
+const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * The key the browser is signed in with, or null
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = getSessionToken(request);
+    const apiKey = token ? createApiKeyStore().verify(token) : undefined;
+
+    return NextResponse.json({ apiKey: apiKey ?? null });
+
+  } catch (error) {
+    console.error('Error reading session:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to read session',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * Sign the app's pages in with an API key, which the session cookie then
+ * sends with every API request
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => undefined);
+    const key = typeof body?.key === 'string' ? body.key.trim() : '';
+    if (!key) {
+      return apiError('INVALID_REQUEST', 'Invalid request', ['key is required']);
+    }
+
+    const apiKey = createApiKeyStore().verify(key);
+    if (!apiKey) {
+      return apiError('UNAUTHORIZED', 'Invalid API key', 'The key is malformed, unknown or revoked');
+    }
+
+    const response = NextResponse.json({ apiKey });
+    response.cookies.set(SESSION_COOKIE, key, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/api',
+      maxAge: SESSION_MAX_AGE_SECONDS
+    });
+    return response;
+
+  } catch (error) {
+    console.error('Error signing in:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to sign in',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * Sign out, forgetting the key
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ apiKey: null });
+  response.cookies.delete({ name: SESSION_COOKIE, path: '/api' });
+  return response;
+}
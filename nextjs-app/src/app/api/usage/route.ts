@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { authorize } from '@/lib/api-auth';
+import { createUsageLedger } from '@/lib/usage-ledger';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  const { denied } = authorize(request, 'admin');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from') || undefined;
+    const to = params.get('to') || undefined;
+
+    if ((from && !DAY_PATTERN.test(from)) || (to && !DAY_PATTERN.test(to))) {
+      return apiError('INVALID_REQUEST', 'Invalid date range. Use from and to as YYYY-MM-DD');
+    }
+
+    return NextResponse.json(createUsageLedger().summarize({ from, to }));
+
+  } catch (error) {
+    console.error('Error summarizing usage:', error);
+
+    return apiError(
+      'INTERNAL_ERROR',
+      'Failed to summarize usage',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
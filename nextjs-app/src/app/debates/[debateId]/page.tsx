@@ -0,0 +1,58 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import DebateDisplay from '@/components/DebateDisplay';
+import { createDebateStore } from '@/lib/debate-store';
+
+interface DebatePageProps {
+  params: Promise<{ debateId: string }>;
+}
+
+export async function generateMetadata({ params }: DebatePageProps): Promise<Metadata> {
+  const { debateId } = await params;
+  const debate = createDebateStore().get(debateId);
+
+  if (!debate) {
+    return { title: 'Debate not found' };
+  }
+
+  const persona1 = debate.personas.persona1.info;
+  const persona2 = debate.personas.persona2.info;
+  const title = `${debate.topic}: ${persona1.characterName} vs ${persona2.characterName}`;
+  const description = debate.moderator?.framingQuestion.content ??
+    `An AI-generated debate on "${debate.topic}" between ${persona1.displayName} (${persona1.politicalLeaning}) and ${persona2.displayName} (${persona2.politicalLeaning}).`;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: 'article',
+      url: `/debates/${encodeURIComponent(debate.debateId)}`,
+      publishedTime: debate.timestamp,
+      siteName: 'AI Debate Generator',
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+  };
+}
+
+export default async function DebatePage({ params }: DebatePageProps) {
+  const { debateId } = await params;
+  const debate = createDebateStore().get(debateId);
+
+  if (!debate) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-700">
+      <div className="container mx-auto px-4 py-8">
+        <DebateDisplay debateResult={debate} readOnly />
+      </div>
+    </div>
+  );
+}
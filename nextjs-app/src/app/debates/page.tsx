@@ -0,0 +1,264 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, ArrowLeft, Loader2, Search, Trash2 } from 'lucide-react';
+import DebateDisplay from '@/components/DebateDisplay';
+import SessionControl from '@/components/SessionControl';
+import { getLeaningColor } from '@/lib/leaning-styles';
+import { parseDebateResult } from '@/lib/debate-schema';
+import type { DebateResult, DebateSummary } from '@/types/personas';
+
+interface PersonaOption {
+  id: string;
+  displayName: string;
+}
+
+const ALL_PERSONAS = 'all';
+
+const SORT_OPTIONS: Record<string, { sort: string; order: string; label: string }> = {
+  newest: { sort: 'date', order: 'desc', label: 'Newest first' },
+  oldest: { sort: 'date', order: 'asc', label: 'Oldest first' },
+  cost_desc: { sort: 'cost', order: 'desc', label: 'Most expensive' },
+  cost_asc: { sort: 'cost', order: 'asc', label: 'Least expensive' },
+};
+
+export default function DebateArchive() {
+  const [debates, setDebates] = useState<DebateSummary[]>([]);
+  const [personas, setPersonas] = useState<PersonaOption[]>([]);
+  const [query, setQuery] = useState('');
+  const [personaFilter, setPersonaFilter] = useState(ALL_PERSONAS);
+  const [sortOption, setSortOption] = useState('newest');
+  const [isLoading, setIsLoading] = useState(true);
+  const [openDebate, setOpenDebate] = useState<DebateResult | null>(null);
+  const [loadError, setLoadError] = useState('');
+
+  const fetchPersonas = useCallback(async () => {
+    try {
+      const response = await fetch('/api/personas');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Failed to load personas: ${response.statusText}`);
+      }
+      setPersonas(data.personas ?? []);
+    } catch (error) {
+      console.error('Failed to fetch personas:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPersonas();
+  }, [fetchPersonas]);
+
+  const fetchDebates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { sort, order } = SORT_OPTIONS[sortOption];
+      const params = new URLSearchParams({ sort, order });
+      if (query.trim()) params.set('q', query.trim());
+      if (personaFilter !== ALL_PERSONAS) params.set('persona', personaFilter);
+
+      const response = await fetch(`/api/debates?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Failed to list debates: ${response.statusText}`);
+      }
+      setDebates(data.debates ?? []);
+      setLoadError('');
+    } catch (error) {
+      console.error('Failed to fetch debates:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to list debates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query, personaFilter, sortOption]);
+
+  // Refetch whenever the filters change, debounced so typing doesn't flood the API
+  useEffect(() => {
+    const timeoutId = setTimeout(() => fetchDebates(), 250);
+    return () => clearTimeout(timeoutId);
+  }, [fetchDebates]);
+
+  // Loads the stored result as-is: reopening never regenerates the debate
+  const openStoredDebate = async (debateId: string) => {
+    try {
+      const response = await fetch(`/api/debates/${encodeURIComponent(debateId)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load debate: ${response.statusText}`);
+      }
+      const { debate, errors } = parseDebateResult(await response.json());
+      if (!debate) {
+        throw new Error(`Invalid debate: ${errors.join('; ')}`);
+      }
+      setOpenDebate(debate);
+    } catch (error) {
+      console.error('Failed to open debate:', error);
+    }
+  };
+
+  const deleteDebate = async (debateId: string) => {
+    if (!window.confirm('Delete this debate from the archive?')) return;
+
+    try {
+      const response = await fetch(`/api/debates/${encodeURIComponent(debateId)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || `Failed to delete debate: ${response.statusText}`);
+      }
+      setDebates(prev => prev.filter(d => d.debateId !== debateId));
+    } catch (error) {
+      console.error('Failed to delete debate:', error);
+    }
+  };
+
+  const formatCost = (cost: number) => {
+    return cost < 0.01 ? `<$0.01` : `$${cost.toFixed(3)}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-700">
+      <div className="container mx-auto px-4 py-8">
+        {openDebate ? (
+          <DebateDisplay
+            debateResult={openDebate}
+            onNewDebate={() => setOpenDebate(null)}
+            backLabel="Back to Archive"
+            onDebateUpdate={setOpenDebate}
+          />
+        ) : (
+          <div className="max-w-4xl mx-auto space-y-6">
+            <div>
+              <Button asChild variant="outline" className="mb-3">
+                <Link href="/">
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  New Debate
+                </Link>
+              </Button>
+              <h1 className="flex items-center gap-2 text-3xl font-bold text-slate-900 dark:text-slate-100">
+                <Archive className="h-7 w-7" />
+                Debate Archive
+              </h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                Every generated debate is saved here. Reopening one costs nothing.
+              </p>
+              <div className="mt-3 flex justify-start">
+                <SessionControl onChange={() => { fetchPersonas(); fetchDebates(); }} />
+              </div>
+              {loadError && <p className="mt-2 text-sm text-red-600">{loadError}</p>}
+            </div>
+
+            {/* Filters */}
+            <Card>
+              <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-6">
+                <div>
+                  <Label htmlFor="archive-search">Search Topics</Label>
+                  <div className="relative mt-1">
+                    <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="archive-search"
+                      value={query}
+                      onChange={(e) => setQuery(e.target.value)}
+                      placeholder="e.g. climate"
+                      className="pl-8"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="archive-persona">Persona</Label>
+                  <Select value={personaFilter} onValueChange={setPersonaFilter}>
+                    <SelectTrigger id="archive-persona" className="mt-1 w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_PERSONAS}>All personas</SelectItem>
+                      {personas.map(persona => (
+                        <SelectItem key={persona.id} value={persona.id}>
+                          {persona.displayName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="archive-sort">Sort By</Label>
+                  <Select value={sortOption} onValueChange={setSortOption}>
+                    <SelectTrigger id="archive-sort" className="mt-1 w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SORT_OPTIONS).map(([value, option]) => (
+                        <SelectItem key={value} value={value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Results */}
+            {isLoading ? (
+              <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin" />
+                Loading debates...
+              </div>
+            ) : debates.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Archive className="h-8 w-8 mx-auto mb-2" />
+                No saved debates match these filters
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {debates.map(debate => (
+                  <Card
+                    key={debate.debateId}
+                    className="cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+                    onClick={() => openStoredDebate(debate.debateId)}
+                  >
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <CardTitle className="text-lg">{debate.topic}</CardTitle>
+                          <CardDescription>
+                            {new Date(debate.timestamp).toLocaleString()} · {formatCost(debate.totalEstimatedCost)}
+                            {debate.format === 'rounds' && ' · Rounds'}
+                          </CardDescription>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteDebate(debate.debateId);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="flex flex-wrap items-center gap-2">
+                      <Badge className={getLeaningColor(debate.personas.persona1.politicalLeaning)}>
+                        {debate.personas.persona1.characterName}
+                      </Badge>
+                      <span className="text-sm text-muted-foreground">vs</span>
+                      <Badge className={getLeaningColor(debate.personas.persona2.politicalLeaning)}>
+                        {debate.personas.persona2.characterName}
+                      </Badge>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
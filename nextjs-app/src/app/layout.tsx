@@ -13,8 +13,10 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  // Absolute base for Open Graph URLs on shared debate permalinks
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"),
+  title: "AI Debate Generator",
+  description: "Generate balanced political debates between AI personas",
 };
 
 export default function RootLayout({
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,9 +9,21 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Sparkles, Users, MessageSquare } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Sparkles, Users, MessageSquare, MessagesSquare, Archive, Cpu, Square } from 'lucide-react';
 import PersonaSelector from '@/components/PersonaSelector';
-import DebateDisplay from '@/components/DebateDisplay';
+import BiasSettings from '@/components/BiasSettings';
+import SearchSettings, {
+  DEFAULT_SEARCH_SETTINGS,
+  buildSearchProfileRequest,
+  getSearchSettingsErrors,
+} from '@/components/SearchSettings';
+import { PAIRING_POLICY_LABELS } from '@/lib/leaning-styles';
+import { DEFAULT_BIAS_LEVEL, DEFAULT_VOICE_MODE } from '@/lib/bias';
+import { parseDebateResult } from '@/lib/debate-schema';
+import type { DebateResult, VoiceMode } from '@/types/personas';
+import DebateDisplay, { LiveDebatePreview } from '@/components/DebateDisplay';
+import SessionControl from '@/components/SessionControl';
 
 interface PersonaInfo {
   id: string;
@@ -23,18 +36,15 @@ interface PersonaInfo {
   keyInfluences: string[];
 }
 
-interface DebateResult {
-  debateId: string;
-  topic: string;
-  personas: {
-    persona1: any;
-    persona2: any;
-  };
-  generationMetadata: any;
-  costAnalysis: any;
-  timestamp: string;
+interface ProviderInfo {
+  name: string;
+  defaultModel: string;
 }
 
+type PersonaSlot = 'persona1' | 'persona2';
+
+const DEFAULT_PROVIDER = 'default';
+
 export default function Home() {
   const [topic, setTopic] = useState('');
   const [context, setContext] = useState('');
@@ -42,10 +52,29 @@ export default function Home() {
   const [selectedPersona2, setSelectedPersona2] = useState<string>('');
   const [personas, setPersonas] = useState<PersonaInfo[]>([]);
   const [validCombinations, setValidCombinations] = useState<string[][]>([]);
+  const [pairingPolicy, setPairingPolicy] = useState('');
+  const [pairingPolicies, setPairingPolicies] = useState<string[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [debateResult, setDebateResult] = useState<DebateResult | null>(null);
   const [generationProgress, setGenerationProgress] = useState(0);
   const [generationStatus, setGenerationStatus] = useState('');
+  const [liveContent, setLiveContent] = useState({ persona1: '', persona2: '' });
+  const [format, setFormat] = useState<'essays' | 'rounds'>('essays');
+  const [rebuttalRounds, setRebuttalRounds] = useState(2);
+  const [includeModerator, setIncludeModerator] = useState(false);
+  const [includeFactCheck, setIncludeFactCheck] = useState(false);
+  const [debateBudget, setDebateBudget] = useState('');
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState('');
+  const [loadError, setLoadError] = useState('');
+  const [personaModels, setPersonaModels] = useState({
+    persona1: { provider: DEFAULT_PROVIDER, model: '' },
+    persona2: { provider: DEFAULT_PROVIDER, model: '' }
+  });
+  const [searchSettings, setSearchSettings] = useState(DEFAULT_SEARCH_SETTINGS);
+  const [biasLevels, setBiasLevels] = useState({ persona1: DEFAULT_BIAS_LEVEL, persona2: DEFAULT_BIAS_LEVEL });
+  const [voiceMode, setVoiceMode] = useState<VoiceMode>(DEFAULT_VOICE_MODE);
 
   // Sample trending topics
   const trendingTopics = [
@@ -62,19 +91,76 @@ export default function Home() {
   // Load available personas on component mount
   useEffect(() => {
     fetchPersonas();
+    fetchProviders();
   }, []);
 
-  const fetchPersonas = async () => {
+  const fetchProviders = async () => {
+    try {
+      const response = await fetch('/api/providers');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Failed to load providers: ${response.statusText}`);
+      }
+      setProviders(data.providers ?? []);
+      setDefaultProvider(data.defaultProvider ?? '');
+    } catch (error) {
+      console.error('Failed to fetch providers:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load providers');
+    }
+  };
+
+  const updatePersonaModel = (slot: PersonaSlot, update: Partial<{ provider: string; model: string }>) => {
+    setPersonaModels(prev => ({ ...prev, [slot]: { ...prev[slot], ...update } }));
+  };
+
+  // Only send the choices the user actually changed; the server fills in the rest
+  const buildPersonaModelsRequest = () => {
+    const request: Partial<Record<PersonaSlot, { provider?: string; model?: string }>> = {};
+    for (const slot of ['persona1', 'persona2'] as const) {
+      const { provider, model } = personaModels[slot];
+      if (provider !== DEFAULT_PROVIDER || model.trim()) {
+        request[slot] = {
+          provider: provider !== DEFAULT_PROVIDER ? provider : undefined,
+          model: model.trim() || undefined
+        };
+      }
+    }
+    return Object.keys(request).length > 0 ? request : undefined;
+  };
+
+  const getModelPlaceholder = (slot: PersonaSlot) => {
+    const providerName = personaModels[slot].provider === DEFAULT_PROVIDER
+      ? defaultProvider
+      : personaModels[slot].provider;
+    const provider = providers.find(p => p.name === providerName);
+    return provider ? `Auto (${provider.defaultModel} or its reasoning model)` : 'Auto';
+  };
+
+  const fetchPersonas = async (policy?: string) => {
     try {
-      const response = await fetch('/api/personas');
+      const query = policy ? `?pairingPolicy=${encodeURIComponent(policy)}` : '';
+      const response = await fetch(`/api/personas${query}`);
       const data = await response.json();
-      setPersonas(data.personas);
-      setValidCombinations(data.validCombinations);
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Failed to load personas: ${response.statusText}`);
+      }
+      setPersonas(data.personas ?? []);
+      setValidCombinations(data.validCombinations ?? []);
+      setPairingPolicy(data.pairingPolicy ?? '');
+      setPairingPolicies(data.pairingPolicies ?? []);
     } catch (error) {
       console.error('Failed to fetch personas:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load personas');
     }
   };
 
+  const handlePairingPolicyChange = (policy: string) => {
+    setPairingPolicy(policy);
+    setSelectedPersona1('');
+    setSelectedPersona2('');
+    fetchPersonas(policy);
+  };
+
   const handleTopicSelect = (selectedTopic: string) => {
     setTopic(selectedTopic);
   };
@@ -87,19 +173,25 @@ export default function Home() {
   };
 
   const canGenerate = topic.trim() && selectedPersona1 && selectedPersona2 &&
-    isValidCombination(selectedPersona1, selectedPersona2);
+    isValidCombination(selectedPersona1, selectedPersona2) &&
+    getSearchSettingsErrors(searchSettings).length === 0;
 
   const generateDebate = async () => {
     if (!canGenerate) return;
 
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+
     setIsGenerating(true);
     setGenerationProgress(0);
     setGenerationStatus('Initializing debate generation...');
     setDebateResult(null);
+    setLiveContent({ persona1: '', persona2: '' });
 
     try {
       const response = await fetch('/api/stream-debate', {
         method: 'POST',
+        signal: abortController.signal,
         headers: {
           'Content-Type': 'application/json',
         },
@@ -108,64 +200,113 @@ export default function Home() {
           persona1Id: selectedPersona1,
           persona2Id: selectedPersona2,
           context: context.trim() || undefined,
-          useTwitterSearch: true,
+          useTwitterSearch: searchSettings.enabled,
+          biasLevels,
+          voiceMode,
+          format,
+          rebuttalRounds: format === 'rounds' ? rebuttalRounds : undefined,
+          includeModerator,
+          includeFactCheck,
+          pairingPolicy: pairingPolicy || undefined,
+          personaModels: buildPersonaModelsRequest(),
+          searchProfile: searchSettings.enabled ? buildSearchProfileRequest(searchSettings) : undefined,
+          budget: Number(debateBudget) > 0 ? { perDebate: Number(debateBudget) } : undefined,
         }),
       });
 
+      // Validation and budget refusals come back before the stream starts
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const details = Array.isArray(body.details) ? body.details.join('; ') : body.details;
+        throw new Error(details || body.error || `Request failed with status ${response.status}`);
+      }
+
       if (!response.body) {
         throw new Error('No response stream available');
       }
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
+      let buffer = '';
 
       while (true) {
         const { done, value } = await reader.read();
 
         if (done) break;
 
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
+        // Events can be split across chunks, so keep the trailing partial line
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
+            let data;
             try {
-              const data = JSON.parse(line.slice(6));
-
-              switch (data.type) {
-                case 'status':
-                  setGenerationStatus(data.message);
-                  setGenerationProgress(data.progress);
-                  break;
-
-                case 'perspective':
-                  setGenerationStatus(`Generated ${data.perspectiveType} perspective`);
-                  setGenerationProgress(data.progress);
-                  break;
-
-                case 'complete':
-                  setGenerationStatus('Debate completed successfully!');
-                  setGenerationProgress(100);
-                  setDebateResult(data.debateResult);
-                  break;
-
-                case 'error':
-                  throw new Error(data.details || 'Unknown error occurred');
-              }
+              data = JSON.parse(line.slice(6));
             } catch (parseError) {
               console.error('Failed to parse stream data:', parseError);
+              continue;
+            }
+
+            switch (data.type) {
+              case 'status':
+                setGenerationStatus(data.message);
+                setGenerationProgress(data.progress);
+                break;
+
+              case 'delta':
+                setLiveContent(prev => ({
+                  ...prev,
+                  [data.perspectiveType]: prev[data.perspectiveType as keyof typeof prev] + data.delta
+                }));
+                break;
+
+              case 'perspective':
+                setGenerationStatus(`Generated ${data.perspectiveType} perspective`);
+                setGenerationProgress(data.progress);
+                break;
+
+              case 'complete': {
+                const { debate, errors } = parseDebateResult(data.debateResult);
+                if (!debate) {
+                  throw new Error(`Invalid debate from server: ${errors.join('; ')}`);
+                }
+                setGenerationStatus('Debate completed successfully!');
+                setGenerationProgress(100);
+                setDebateResult(debate);
+                break;
+              }
+
+              case 'error':
+                throw new Error(data.details || 'Unknown error occurred');
             }
           }
         }
       }
     } catch (error) {
-      console.error('Debate generation failed:', error);
-      setGenerationStatus('Failed to generate debate');
+      if (abortController.signal.aborted) {
+        setGenerationStatus('Debate generation cancelled');
+      } else {
+        console.error('Debate generation failed:', error);
+        setGenerationStatus(
+          error instanceof Error ? `Failed to generate debate: ${error.message}` : 'Failed to generate debate'
+        );
+      }
     } finally {
+      generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  // Closing the connection is what tells the server to stop its LLM calls
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // Don't leave a debate generating, and spending, after leaving the page
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-700">
       <div className="container mx-auto px-4 py-8">
@@ -179,8 +320,24 @@ export default function Home() {
           </div>
           <p className="text-lg text-slate-600 dark:text-slate-300 max-w-2xl mx-auto">
             Generate balanced political debates using advanced AI personas. Explore different perspectives
-            on contemporary issues with authentic liberal and conservative viewpoints.
+            on contemporary issues with authentic viewpoints from across the political spectrum.
           </p>
+          <Button asChild variant="outline" size="sm" className="mt-4">
+            <Link href="/debates">
+              <Archive className="mr-2 h-4 w-4" />
+              Debate Archive
+            </Link>
+          </Button>
+          <div className="mt-4">
+            <SessionControl
+              onChange={() => {
+                setLoadError('');
+                fetchPersonas(pairingPolicy || undefined);
+                fetchProviders();
+              }}
+            />
+            {loadError && <p className="mt-2 text-sm text-red-600">{loadError}</p>}
+          </div>
         </div>
 
         {!debateResult ? (
@@ -247,10 +404,28 @@ export default function Home() {
                   Select Debate Personas
                 </CardTitle>
                 <CardDescription>
-                  Choose two personas from opposing political sides to represent different perspectives
+                  Choose two personas to represent different perspectives. The pairing rule decides which
+                  combinations are allowed.
                 </CardDescription>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-4">
+                {pairingPolicies.length > 0 && (
+                  <div>
+                    <Label htmlFor="pairing-policy">Pairing Rule</Label>
+                    <Select value={pairingPolicy} onValueChange={handlePairingPolicyChange}>
+                      <SelectTrigger id="pairing-policy" className="mt-1 w-full md:w-80">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {pairingPolicies.map(policy => (
+                          <SelectItem key={policy} value={policy}>
+                            {PAIRING_POLICY_LABELS[policy] ?? policy}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <PersonaSelector
                   personas={personas}
                   validCombinations={validCombinations}
@@ -262,6 +437,159 @@ export default function Home() {
               </CardContent>
             </Card>
 
+            {/* How hard each persona argues */}
+            <BiasSettings
+              personas={{
+                persona1: personas.find(p => p.id === selectedPersona1),
+                persona2: personas.find(p => p.id === selectedPersona2),
+              }}
+              value={biasLevels}
+              onChange={setBiasLevels}
+              format={format}
+              voiceMode={voiceMode}
+              onVoiceModeChange={setVoiceMode}
+            />
+
+            {/* Debate Format */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessagesSquare className="h-5 w-5" />
+                  Debate Format
+                </CardTitle>
+                <CardDescription>
+                  Generate two independent essays, or a back-and-forth debate where each persona answers the other
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="format">Format</Label>
+                  <Select value={format} onValueChange={(value) => setFormat(value as 'essays' | 'rounds')}>
+                    <SelectTrigger id="format" className="mt-1 w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="essays">Side-by-side essays</SelectItem>
+                      <SelectItem value="rounds">Rounds with rebuttals</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {format === 'rounds' && (
+                  <div>
+                    <Label htmlFor="rebuttal-rounds">Rebuttal Rounds</Label>
+                    <Select
+                      value={String(rebuttalRounds)}
+                      onValueChange={(value) => setRebuttalRounds(Number(value))}
+                    >
+                      <SelectTrigger id="rebuttal-rounds" className="mt-1 w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[1, 2, 3, 4, 5].map(rounds => (
+                          <SelectItem key={rounds} value={String(rounds)}>
+                            {rounds} {rounds === 1 ? 'round' : 'rounds'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="debate-budget">Budget per Debate (USD, optional)</Label>
+                  <Input
+                    id="debate-budget"
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    value={debateBudget}
+                    onChange={(e) => setDebateBudget(e.target.value)}
+                    placeholder="No limit"
+                    className="mt-1"
+                  />
+                </div>
+                <div className="md:col-span-2 flex items-start gap-3">
+                  <input
+                    id="include-moderator"
+                    type="checkbox"
+                    checked={includeModerator}
+                    onChange={(e) => setIncludeModerator(e.target.checked)}
+                    className="mt-1 h-4 w-4"
+                  />
+                  <div>
+                    <Label htmlFor="include-moderator">Include a neutral moderator</Label>
+                    <p className="text-sm text-muted-foreground">
+                      The moderator frames the question, asks a follow-up after each round, and closes with a
+                      balanced summary of where the two sides agree and disagree.
+                    </p>
+                  </div>
+                </div>
+                <div className="md:col-span-2 flex items-start gap-3">
+                  <input
+                    id="include-fact-check"
+                    type="checkbox"
+                    checked={includeFactCheck}
+                    onChange={(e) => setIncludeFactCheck(e.target.checked)}
+                    className="mt-1 h-4 w-4"
+                  />
+                  <div>
+                    <Label htmlFor="include-fact-check">Fact-check the essays</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Each factual claim is graded as supported, contradicted or unverifiable against the sources
+                      found, and marked in the text.
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Models per persona */}
+            {providers.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Cpu className="h-5 w-5" />
+                    Models
+                  </CardTitle>
+                  <CardDescription>
+                    Pick the provider and model that argue each side, to compare how different models make the same case
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {(['persona1', 'persona2'] as const).map((slot, index) => (
+                    <div key={slot} className="space-y-2">
+                      <Label htmlFor={`${slot}-provider`}>
+                        {index === 0 ? 'First' : 'Second'} Persona
+                      </Label>
+                      <Select
+                        value={personaModels[slot].provider}
+                        onValueChange={(value) => updatePersonaModel(slot, { provider: value })}
+                      >
+                        <SelectTrigger id={`${slot}-provider`} className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_PROVIDER}>Default ({defaultProvider})</SelectItem>
+                          {providers.map(provider => (
+                            <SelectItem key={provider.name} value={provider.name}>
+                              {provider.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={personaModels[slot].model}
+                        onChange={(e) => updatePersonaModel(slot, { model: e.target.value })}
+                        placeholder={getModelPlaceholder(slot)}
+                      />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Live search settings */}
+            <SearchSettings value={searchSettings} onChange={setSearchSettings} />
+
             {/* Generation Button */}
             <div className="text-center">
               <Button
@@ -282,12 +610,27 @@ export default function Home() {
                   </>
                 )}
               </Button>
+              {isGenerating && (
+                <Button onClick={cancelGeneration} variant="outline" size="lg" className="ml-2">
+                  <Square className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
               {isGenerating && (
                 <p className="text-sm text-slate-600 dark:text-slate-400 mt-2">
                   {generationStatus}
                 </p>
               )}
             </div>
+
+            {/* Live essays while the debate streams in */}
+            {isGenerating && (
+              <LiveDebatePreview
+                persona1={personas.find(p => p.id === selectedPersona1)}
+                persona2={personas.find(p => p.id === selectedPersona2)}
+                content={liveContent}
+              />
+            )}
           </div>
         ) : (
           <DebateDisplay
@@ -298,7 +641,9 @@ export default function Home() {
               setContext('');
               setSelectedPersona1('');
               setSelectedPersona2('');
+              setFormat('essays');
             }}
+            onDebateUpdate={setDebateResult}
           />
         )}
       </div>
@@ -0,0 +1,124 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Flame, Thermometer, Wand2 } from 'lucide-react';
+import {
+  VOICE_ENHANCEMENT_MIN_LENGTH,
+  VOICE_MODES,
+  describeBiasLevel,
+  getBiasTemperature,
+  willEnhanceVoice,
+} from '@/lib/bias';
+import type { DebateSpeaker, VoiceMode } from '@/types/personas';
+
+const VOICE_MODE_LABELS: Record<VoiceMode, string> = {
+  none: 'None',
+  quick: 'Quick touches (no extra cost)',
+  llm: 'Full rewrite by the model'
+};
+
+interface BiasPersona {
+  characterName: string;
+  expertiseLevel: string;
+}
+
+interface BiasSettingsProps {
+  personas: Partial<Record<DebateSpeaker, BiasPersona>>;
+  value: Record<DebateSpeaker, number>;
+  onChange: (value: Record<DebateSpeaker, number>) => void;
+  format: 'essays' | 'rounds';
+  voiceMode: VoiceMode;
+  onVoiceModeChange: (voiceMode: VoiceMode) => void;
+}
+
+/**
+ * The voice pass mode and a slider per selected persona, previewing the
+ * temperature and what the voice pass will do
+ */
+export default function BiasSettings({ personas, value, onChange, format, voiceMode, onVoiceModeChange }: BiasSettingsProps) {
+  const slots = (['persona1', 'persona2'] as const).filter(slot => personas[slot]);
+
+  if (slots.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flame className="h-5 w-5" />
+          Tone
+        </CardTitle>
+        <CardDescription>
+          How hard each persona pushes their side, from measured to fiery
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="md:col-span-2">
+          <Label htmlFor="voice-mode">Voice Pass</Label>
+          <Select value={voiceMode} onValueChange={(mode) => onVoiceModeChange(mode as VoiceMode)}>
+            <SelectTrigger id="voice-mode" className="mt-1 w-full md:w-80">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VOICE_MODES.map(mode => (
+                <SelectItem key={mode} value={mode}>
+                  {VOICE_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {slots.map(slot => {
+          const persona = personas[slot]!;
+          const level = value[slot];
+          const voicePass = format === 'rounds'
+            ? 'Not used in rounds'
+            : !willEnhanceVoice(level, undefined, voiceMode)
+              ? 'Off'
+              : voiceMode === 'quick'
+                ? 'Opening and sign-off from the profile'
+                : `Rewrite for essays over ${VOICE_ENHANCEMENT_MIN_LENGTH} characters`;
+
+          return (
+            <div key={slot} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor={`${slot}-bias`}>{persona.characterName}</Label>
+                <Badge variant="outline">
+                  {describeBiasLevel(level)} ({level.toFixed(2)})
+                </Badge>
+              </div>
+              <input
+                id={`${slot}-bias`}
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={level}
+                onChange={(e) => onChange({ ...value, [slot]: Number(e.target.value) })}
+                className="w-full accent-primary"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Measured</span>
+                <span>Fiery</span>
+              </div>
+              <div className="space-y-1 text-sm text-muted-foreground">
+                <p className="flex items-center gap-2">
+                  <Thermometer className="h-4 w-4" />
+                  Temperature {getBiasTemperature(persona.expertiseLevel, level).toFixed(2)}
+                </p>
+                <p className="flex items-center gap-2">
+                  <Wand2 className="h-4 w-4" />
+                  Voice pass: {voicePass}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import {
+  InlineCitation,
+  InlineCitationCard,
+  InlineCitationCardBody,
+  InlineCitationCardTrigger,
+  InlineCitationCarousel,
+  InlineCitationCarouselContent,
+  InlineCitationCarouselHeader,
+  InlineCitationCarouselIndex,
+  InlineCitationCarouselItem,
+  InlineCitationCarouselNext,
+  InlineCitationCarouselPrev,
+  InlineCitationSource,
+  InlineCitationText,
+} from '@/components/ai-elements/inline-citation';
+import type { SourceCitation } from '@/types/personas';
+
+interface CitedClaimProps {
+  sources: SourceCitation[];
+  children: ReactNode;
+}
+
+/**
+ * A claim with the posts that back it, shown on hover
+ */
+export default function CitedClaim({ sources, children }: CitedClaimProps) {
+  if (sources.length === 0) {
+    return <>{children}</>;
+  }
+
+  return (
+    <InlineCitation>
+      <InlineCitationText>{children}</InlineCitationText>
+      <InlineCitationCard>
+        <InlineCitationCardTrigger sources={sources.map(source => source.url)} />
+        <InlineCitationCardBody>
+          <InlineCitationCarousel>
+            <InlineCitationCarouselHeader>
+              <InlineCitationCarouselPrev />
+              <InlineCitationCarouselNext />
+              <InlineCitationCarouselIndex />
+            </InlineCitationCarouselHeader>
+            <InlineCitationCarouselContent>
+              {sources.map(source => (
+                <InlineCitationCarouselItem key={source.index}>
+                  <InlineCitationSource
+                    title={`[${source.index}] ${source.title}`}
+                    url={source.url}
+                    description={source.snippet || undefined}
+                  />
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Open post
+                  </a>
+                </InlineCitationCarouselItem>
+              ))}
+            </InlineCitationCarouselContent>
+          </InlineCitationCarousel>
+        </InlineCitationCardBody>
+      </InlineCitationCard>
+    </InlineCitation>
+  );
+}
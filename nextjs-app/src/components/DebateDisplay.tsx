@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
+import Link from 'next/link';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
@@ -20,6 +21,38 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Response } from '@/components/ai-elements/response';
+import {
+  Branch,
+  BranchMessages,
+  BranchNext,
+  BranchPage,
+  BranchPrevious,
+  BranchSelector,
+} from '@/components/ai-elements/branch';
+import CitedClaim from '@/components/CitedClaim';
+import FactCheckBadge, { VERDICT_STYLES } from '@/components/FactCheckBadge';
+import { getLeaningColor } from '@/lib/leaning-styles';
+import { DEFAULT_BIAS_LEVEL, describeBiasLevel } from '@/lib/bias';
+import { markCitedClaims } from '@/lib/citations';
+import { parseDebateResult } from '@/lib/debate-schema';
+import { FACT_CHECK_VERDICTS, markFactCheckedClaims } from '@/lib/fact-checker';
+import type {
+  DebateResult,
+  DebateSpeaker,
+  DebateTurn,
+  FactCheckClaim,
+  SourceCitation,
+  VoiceDiffSection,
+} from '@/types/personas';
 import {
   ArrowLeft,
   Download,
@@ -34,67 +67,131 @@ import {
   CheckCircle,
   ExternalLink,
   Twitter,
+  Loader2,
+  MessagesSquare,
+  Scale,
+  ShieldCheck,
+  RefreshCw,
 } from 'lucide-react';
 
-interface DebateResult {
-  debateId: string;
-  topic: string;
-  personas: {
-    persona1: {
-      id: string;
-      info: any;
-      content: {
-        perspective: string;
-        persona: any;
-        topic: string;
-        content: string;
-        title: string;
-        modelUsed: string;
-        tokenUsage: any;
-        sourcesUsed?: string[];
-        timestamp: string;
-      };
-    };
-    persona2: {
-      id: string;
-      info: any;
-      content: {
-        perspective: string;
-        persona: any;
-        topic: string;
-        content: string;
-        title: string;
-        modelUsed: string;
-        tokenUsage: any;
-        sourcesUsed?: string[];
-        timestamp: string;
-      };
-    };
+interface DebateDisplayProps {
+  debateResult: DebateResult;
+  onNewDebate?: () => void;
+  backLabel?: string;
+  readOnly?: boolean;
+  /** Receives the debate after one side is regenerated; the Regenerate action is hidden without it */
+  onDebateUpdate?: (debate: DebateResult) => void;
+}
+
+interface LivePersonaInfo {
+  displayName: string;
+  characterName: string;
+  politicalLeaning: string;
+}
+
+interface LiveDebatePreviewProps {
+  persona1?: LivePersonaInfo;
+  persona2?: LivePersonaInfo;
+  content: {
+    persona1: string;
+    persona2: string;
   };
-  generationMetadata: any;
-  costAnalysis: any;
-  timestamp: string;
 }
 
-interface DebateDisplayProps {
-  debateResult: DebateResult;
-  onNewDebate: () => void;
+/**
+ * Renders both essays side by side while their tokens are still streaming in
+ */
+export function LiveDebatePreview({ persona1, persona2, content }: LiveDebatePreviewProps) {
+  const columns = [
+    { slot: 'persona1' as const, info: persona1 },
+    { slot: 'persona2' as const, info: persona2 },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {columns.map(({ slot, info }) => (
+        <Card key={slot}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Avatar>
+                  <AvatarFallback className={getLeaningColor(info?.politicalLeaning ?? '')}>
+                    {(info?.characterName ?? '?')
+                      .split(' ')
+                      .map((n: string) => n[0])
+                      .join('')}
+                  </AvatarFallback>
+                </Avatar>
+                <div>
+                  <CardTitle className="text-lg">{info?.displayName ?? slot}</CardTitle>
+                  <CardDescription>{info?.characterName}</CardDescription>
+                </div>
+              </div>
+              {info && (
+                <Badge className={getLeaningColor(info.politicalLeaning)}>
+                  {info.politicalLeaning}
+                </Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-96 overflow-y-auto">
+              {content[slot] ? (
+                <Response className="prose-custom max-w-none">{content[slot]}</Response>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground py-8 justify-center">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Waiting for {info?.characterName ?? 'persona'} to start writing...
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
 }
 
-export default function DebateDisplay({ debateResult, onNewDebate }: DebateDisplayProps) {
-  const [activeTab, setActiveTab] = useState('side-by-side');
+export default function DebateDisplay({
+  debateResult,
+  onNewDebate,
+  backLabel = 'New Debate',
+  readOnly = false,
+  onDebateUpdate,
+}: DebateDisplayProps) {
+  const hasTranscript = (debateResult.turns?.length ?? 0) > 0;
+  const [activeTab, setActiveTab] = useState(hasTranscript ? 'transcript' : 'side-by-side');
   const [copiedText, setCopiedText] = useState('');
+  const [regenerating, setRegenerating] = useState<DebateSpeaker | null>(null);
+  const [regenerateError, setRegenerateError] = useState('');
+  // Rounds turns answer each other, so one side can't be redone on its own
+  const canRegenerate = Boolean(onDebateUpdate) && !readOnly && debateResult.format !== 'rounds';
 
-  const getPersonaColor = (perspective: string) => {
-    return perspective.toLowerCase().includes('liberal')
-      ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
-      : 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300';
+  const getTurnLabel = (turn: DebateTurn) => {
+    switch (turn.phase) {
+      case 'opening':
+        return 'Opening Statement';
+      case 'rebuttal':
+        return `Rebuttal ${turn.round}`;
+      case 'closing':
+        return 'Closing Statement';
+    }
   };
 
   const formatCost = (cost: number) => {
     return cost < 0.01 ? `<$0.01` : `$${cost.toFixed(3)}`;
   };
 
+  // Older debates predate per-persona providers and only record the model
+  const formatModel = (response: { modelUsed: string; providerUsed?: string }) => {
+    return response.providerUsed ? `${response.providerUsed}/${response.modelUsed}` : response.modelUsed;
+  };
+
+  const formatBiasLevel = (slot: DebateSpeaker) => {
+    const level: number = debateResult.generationMetadata.biasLevels?.[slot] ?? DEFAULT_BIAS_LEVEL;
+    return `${debateResult.personas[slot].info.characterName} ${describeBiasLevel(level)} (${level.toFixed(2)})`;
+  };
+
   const formatTokens = (tokens: number) => {
     return tokens.toLocaleString();
   };
@@ -129,9 +226,10 @@ ${debateResult.personas.persona2.content.content}
 ---
 
 **Generation Details:**
-- Cost: ${formatCost(debateResult.costAnalysis.totalEstimatedCost)}
+- Cost: ${formatCost(debateResult.costAnalysis?.totalEstimatedCost ?? 0)}
 - Generation Time: ${debateResult.generationMetadata.generationTimeSeconds.toFixed(2)}s
-- Models Used: ${debateResult.generationMetadata.modelsUsed.persona1}, ${debateResult.generationMetadata.modelsUsed.persona2}
+- Models Used: ${formatModel(debateResult.personas.persona1.content)}, ${formatModel(debateResult.personas.persona2.content)}
+- Bias Levels: ${formatBiasLevel('persona1')}, ${formatBiasLevel('persona2')}
 `;
 
     const blob = new Blob([content], { type: 'text/markdown' });
@@ -145,22 +243,29 @@ ${debateResult.personas.persona2.content.content}
     URL.revokeObjectURL(url);
   };
 
+  const exportUrl = (format: string, layout?: string) => {
+    const query = new URLSearchParams({ format, ...(layout ? { layout } : {}) });
+    return `/api/debates/${encodeURIComponent(debateResult.debateId)}/export?${query}`;
+  };
+
   const shareDebate = async () => {
+    // Link to the debate's permalink page rather than wherever the viewer happens to be
+    const permalink = `${window.location.origin}/debates/${encodeURIComponent(debateResult.debateId)}`;
     const shareData = {
       title: `AI Debate: ${debateResult.topic}`,
       text: `Check out this AI-generated debate on "${debateResult.topic}" featuring perspectives from ${debateResult.personas.persona1.content.persona.displayName} and ${debateResult.personas.persona2.content.persona.displayName}`,
-      url: window.location.href,
+      url: permalink,
     };
 
     if (navigator.share) {
       try {
         await navigator.share(shareData);
-      } catch (err) {
+      } catch {
         console.log('Sharing cancelled or failed');
       }
     } else {
       // Fallback to copying URL
-      await copyToClipboard(window.location.href, 'URL');
+      await copyToClipboard(permalink, 'URL');
     }
   };
 
@@ -290,19 +395,192 @@ ${debateResult.personas.persona2.content.content}
     ),
   };
 
+  // Debates saved before structured citations only kept bare URLs
+  const getSources = (response: { sources?: SourceCitation[]; sourcesUsed?: string[] }): SourceCitation[] => {
+    if (response.sources) return response.sources;
+    return (response.sourcesUsed ?? []).map((url, index) => ({
+      index: index + 1,
+      url,
+      title: url.replace(/^https?:\/\/(www\.)?/, ''),
+      snippet: ''
+    }));
+  };
+
+  const getClaims = (slot: DebateSpeaker): FactCheckClaim[] => debateResult.factCheck?.[slot] ?? [];
+
+  const renderCitedMarkdown = (content: string, sources: SourceCitation[], claims: FactCheckClaim[] = []) => (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[rehypeRaw, rehypeHighlight]}
+      components={{
+        ...MarkdownComponents,
+        cite: ({ children, ...props }: any) => {
+          const indexes = String(props['data-sources'] ?? '').split(',').map(Number);
+          return (
+            <CitedClaim sources={sources.filter(source => indexes.includes(source.index))}>
+              {children}
+            </CitedClaim>
+          );
+        },
+        sup: ({ children, ...props }: any) => {
+          const claim = claims[Number(props['data-fact-check'])];
+          return claim ? <FactCheckBadge claim={claim} sources={sources} /> : <sup>{children}</sup>;
+        },
+      }}
+    >
+      {markCitedClaims(markFactCheckedClaims(content, claims), sources.length)}
+    </ReactMarkdown>
+  );
+
+  const regenerate = async (slot: DebateSpeaker) => {
+    setRegenerating(slot);
+    setRegenerateError('');
+
+    try {
+      const response = await fetch(`/api/debates/${encodeURIComponent(debateResult.debateId)}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slot }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(data.details) ? data.details.join('; ') : data.details;
+        throw new Error(details || data.error || 'Failed to regenerate');
+      }
+      const { debate, errors } = parseDebateResult(data);
+      if (!debate) {
+        throw new Error(`Invalid debate from server: ${errors.join('; ')}`);
+      }
+      onDebateUpdate?.(debate);
+    } catch (error) {
+      console.error('Regeneration failed:', error);
+      setRegenerateError(error instanceof Error ? error.message : 'Failed to regenerate');
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const renderRegenerateButton = (slot: DebateSpeaker) => canRegenerate && (
+    <Button variant="outline" size="sm" onClick={() => regenerate(slot)} disabled={regenerating !== null}>
+      {regenerating === slot ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <RefreshCw className="mr-2 h-4 w-4" />
+      )}
+      Regenerate
+    </Button>
+  );
+
+  // Earlier versions are browsable; fact-check badges only apply to the current one
+  const renderVersions = (slot: DebateSpeaker) => {
+    const side = debateResult.personas[slot];
+    const versions = [...(side.alternates ?? []), side.content];
+    const current = versions.length - 1;
+
+    if (versions.length === 1) {
+      return (
+        <div className="prose-custom max-w-none">
+          {renderCitedMarkdown(side.content.content, getSources(side.content), getClaims(slot))}
+        </div>
+      );
+    }
+
+    return (
+      <Branch key={versions.length} defaultBranch={current}>
+        <BranchMessages>
+          {versions.map((version, index) => (
+            <div key={`${version.timestamp}-${index}`} className="prose-custom max-w-none">
+              {renderCitedMarkdown(version.content, getSources(version), index === current ? getClaims(slot) : [])}
+            </div>
+          ))}
+        </BranchMessages>
+        <BranchSelector from="assistant" className="px-0">
+          <BranchPrevious />
+          <BranchPage />
+          <BranchNext />
+        </BranchSelector>
+      </Branch>
+    );
+  };
+
+  const describeKeptOriginal = (section: VoiceDiffSection) => {
+    switch (section.keptOriginal) {
+      case 'missing_facts':
+        return `Original kept: the rewrite dropped ${section.missing?.join(', ')}`;
+      case 'too_short':
+        return 'Original kept: the rewrite was too short';
+      default:
+        return 'Original kept: the voice pass failed';
+    }
+  };
+
+  // Only the sections the voice pass rewrote or tried and failed to; skipped ones are unchanged
+  const renderVoiceDiff = (slot: DebateSpeaker) => {
+    const { content } = debateResult.personas[slot];
+    const sections = (content.voiceDiff ?? []).filter(section => section.keptOriginal !== 'skipped');
+    if (sections.length === 0) return null;
+
+    return (
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="mt-4">
+            Review Voice Edits
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Voice Edits</DialogTitle>
+            <DialogDescription>
+              Each section as {content.persona.characterName} first wrote it, and after the voice pass
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {sections.map((section, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                <div className="rounded-md border bg-muted/40 p-3 whitespace-pre-wrap">{section.original.trim()}</div>
+                {section.enhanced ? (
+                  <div className="rounded-md border border-green-200 bg-green-50 p-3 whitespace-pre-wrap dark:border-green-800 dark:bg-green-950">
+                    {section.enhanced.trim()}
+                  </div>
+                ) : (
+                  <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-amber-800 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-300">
+                    {describeKeptOriginal(section)}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  const sources1 = getSources(debateResult.personas.persona1.content);
+  const sources2 = getSources(debateResult.personas.persona2.content);
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div>
-          <Button
-            variant="outline"
-            onClick={onNewDebate}
-            className="mb-3"
-          >
-            <ArrowLeft className="mr-2 h-4 w-4" />
-            New Debate
-          </Button>
+          {onNewDebate ? (
+            <Button
+              variant="outline"
+              onClick={onNewDebate}
+              className="mb-3"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              {backLabel}
+            </Button>
+          ) : (
+            <Button asChild variant="outline" className="mb-3">
+              <Link href="/">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                {readOnly ? 'Create Your Own Debate' : backLabel}
+              </Link>
+            </Button>
+          )}
           <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100">
             {debateResult.topic}
           </h2>
@@ -313,10 +591,41 @@ ${debateResult.personas.persona2.content.content}
         </div>
 
         <div className="flex gap-2">
-          <Button onClick={downloadAsMarkdown} variant="outline" size="sm">
-            <Download className="mr-2 h-4 w-4" />
-            Download
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Side by side</DropdownMenuLabel>
+              <DropdownMenuItem asChild>
+                <a href={exportUrl('pdf')} download>PDF</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={exportUrl('docx')} download>Word (.docx)</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={exportUrl('html')} download>Web page (.html)</a>
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>One after the other</DropdownMenuLabel>
+              <DropdownMenuItem asChild>
+                <a href={exportUrl('pdf', 'sequential')} download>PDF</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={exportUrl('docx', 'sequential')} download>Word (.docx)</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={downloadAsMarkdown}>
+                Markdown (.md)
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem asChild>
+                <a href={exportUrl('json')} download>Raw data (.json)</a>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button onClick={shareDebate} variant="outline" size="sm">
             <Share2 className="mr-2 h-4 w-4" />
             Share
@@ -348,9 +657,13 @@ ${debateResult.personas.persona2.content.content}
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
               </div>
               <div className="text-2xl font-semibold">
-                {formatCost(debateResult.costAnalysis.totalEstimatedCost)}
+                {formatCost(debateResult.costAnalysis?.totalEstimatedCost ?? 0)}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Estimated Cost
+                {debateResult.generationMetadata.budget?.perDebate !== undefined &&
+                  ` of ${formatCost(debateResult.generationMetadata.budget.perDebate)} budget`}
               </div>
-              <div className="text-xs text-muted-foreground">Estimated Cost</div>
             </div>
             <div className="text-center">
               <div className="flex items-center justify-center gap-1 mb-1">
@@ -358,8 +671,8 @@ ${debateResult.personas.persona2.content.content}
               </div>
               <div className="text-2xl font-semibold">
                 {formatTokens(
-                  (debateResult.costAnalysis.costBreakdown.persona1.totalTokens || 0) +
-                  (debateResult.costAnalysis.costBreakdown.persona2.totalTokens || 0)
+                  (debateResult.costAnalysis?.costBreakdown.persona1?.totalTokens || 0) +
+                  (debateResult.costAnalysis?.costBreakdown.persona2?.totalTokens || 0)
                 )}
               </div>
               <div className="text-xs text-muted-foreground">Total Tokens</div>
@@ -372,12 +685,46 @@ ${debateResult.personas.persona2.content.content}
               <div className="text-xs text-muted-foreground">AI Personas</div>
             </div>
           </div>
+          {debateResult.generationMetadata.biasLevels && (
+            <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Tone:</span>
+              {(['persona1', 'persona2'] as const).map(slot => (
+                <Badge key={slot} variant="outline">
+                  {formatBiasLevel(slot)}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {debateResult.generationMetadata.budget && debateResult.generationMetadata.budget.fallbacks.length > 0 && (
+            <ul className="mt-4 space-y-1 text-sm text-amber-700 dark:text-amber-400">
+              {debateResult.generationMetadata.budget.fallbacks.map((fallback: string, index: number) => (
+                <li key={index}>{fallback}</li>
+              ))}
+            </ul>
+          )}
         </CardContent>
       </Card>
 
+      {/* Moderator Framing */}
+      {debateResult.moderator && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Scale className="h-5 w-5" />
+              Moderator&apos;s Question
+            </CardTitle>
+            <CardDescription>
+              The neutral framing question both personas were asked to answer
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-lg italic">{debateResult.moderator.framingQuestion.content}</p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* X/Twitter Sources */}
-      {((debateResult.personas.persona1.content.sourcesUsed?.length ?? 0) > 0 ||
-        (debateResult.personas.persona2.content.sourcesUsed?.length ?? 0) > 0) && (
+      {(sources1.length > 0 || sources2.length > 0) && (
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="flex items-center gap-2 text-lg">
@@ -385,58 +732,72 @@ ${debateResult.personas.persona2.content.content}
               X/Twitter Sources
             </CardTitle>
             <CardDescription>
-              Real-time social media posts and discussions that informed the debate
+              Real-time social media posts and discussions that informed the debate. Hover a cited claim to see its post.
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Liberal Perspective Sources */}
-              {(debateResult.personas.persona1.content.sourcesUsed?.length ?? 0) > 0 && (
+              {/* First Persona Sources */}
+              {sources1.length > 0 && (
                 <div>
                   <h4 className="font-semibold mb-3 text-blue-700 dark:text-blue-300">
-                    Liberal Perspective Sources
+                    {debateResult.personas.persona1.content.persona.characterName}&apos;s Sources
                   </h4>
-                  <div className="space-y-2">
-                    {debateResult.personas.persona1.content.sourcesUsed?.map((source, index) => (
-                      <a
-                        key={index}
-                        href={source}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-2 p-2 rounded-lg border hover:bg-blue-50 dark:hover:bg-blue-950 transition-colors text-sm"
-                      >
-                        <ExternalLink className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                        <span className="truncate text-blue-600 dark:text-blue-400">
-                          {source.replace('https://', '').replace('www.', '')}
-                        </span>
-                      </a>
+                  <ol className="space-y-2">
+                    {sources1.map(source => (
+                      <li key={source.index}>
+                        <a
+                          href={source.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-start gap-2 p-2 rounded-lg border hover:bg-blue-50 dark:hover:bg-blue-950 transition-colors text-sm"
+                        >
+                          <span className="font-mono text-xs text-muted-foreground pt-0.5">[{source.index}]</span>
+                          <span className="min-w-0 flex-1">
+                            <span className="flex items-center gap-1 font-medium text-blue-600 dark:text-blue-400">
+                              <span className="truncate">{source.title}</span>
+                              <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                            </span>
+                            {source.snippet && (
+                              <span className="block text-muted-foreground line-clamp-2">{source.snippet}</span>
+                            )}
+                          </span>
+                        </a>
+                      </li>
                     ))}
-                  </div>
+                  </ol>
                 </div>
               )}
 
-              {/* Conservative Perspective Sources */}
-              {(debateResult.personas.persona2.content.sourcesUsed?.length ?? 0) > 0 && (
+              {/* Second Persona Sources */}
+              {sources2.length > 0 && (
                 <div>
                   <h4 className="font-semibold mb-3 text-red-700 dark:text-red-300">
-                    Conservative Perspective Sources
+                    {debateResult.personas.persona2.content.persona.characterName}&apos;s Sources
                   </h4>
-                  <div className="space-y-2">
-                    {debateResult.personas.persona2.content.sourcesUsed?.map((source, index) => (
-                      <a
-                        key={index}
-                        href={source}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-2 p-2 rounded-lg border hover:bg-red-50 dark:hover:bg-red-950 transition-colors text-sm"
-                      >
-                        <ExternalLink className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                        <span className="truncate text-red-600 dark:text-red-400">
-                          {source.replace('https://', '').replace('www.', '')}
-                        </span>
-                      </a>
+                  <ol className="space-y-2">
+                    {sources2.map(source => (
+                      <li key={source.index}>
+                        <a
+                          href={source.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-start gap-2 p-2 rounded-lg border hover:bg-red-50 dark:hover:bg-red-950 transition-colors text-sm"
+                        >
+                          <span className="font-mono text-xs text-muted-foreground pt-0.5">[{source.index}]</span>
+                          <span className="min-w-0 flex-1">
+                            <span className="flex items-center gap-1 font-medium text-red-600 dark:text-red-400">
+                              <span className="truncate">{source.title}</span>
+                              <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                            </span>
+                            {source.snippet && (
+                              <span className="block text-muted-foreground line-clamp-2">{source.snippet}</span>
+                            )}
+                          </span>
+                        </a>
+                      </li>
                     ))}
-                  </div>
+                  </ol>
                 </div>
               )}
             </div>
@@ -456,22 +817,96 @@ ${debateResult.personas.persona2.content.content}
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {regenerateError && (
+            <p className="mb-4 text-sm text-red-600 dark:text-red-400">{regenerateError}</p>
+          )}
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className={`grid w-full ${hasTranscript ? 'grid-cols-4' : 'grid-cols-3'}`}>
+              {hasTranscript && (
+                <TabsTrigger value="transcript">Transcript</TabsTrigger>
+              )}
               <TabsTrigger value="side-by-side">Side by Side</TabsTrigger>
-              <TabsTrigger value="liberal">Liberal View</TabsTrigger>
-              <TabsTrigger value="conservative">Conservative View</TabsTrigger>
+              <TabsTrigger value="persona1">
+                {debateResult.personas.persona1.content.persona.characterName}
+              </TabsTrigger>
+              <TabsTrigger value="persona2">
+                {debateResult.personas.persona2.content.persona.characterName}
+              </TabsTrigger>
             </TabsList>
 
+            {hasTranscript && (
+              <TabsContent value="transcript" className="space-y-4 mt-4">
+                {debateResult.turns?.map((turn, index, turns) => {
+                  const speaker = debateResult.personas[turn.speaker].content;
+                  const endsRound = turns[index + 1]?.round !== turn.round;
+                  const followUp = endsRound
+                    ? debateResult.moderator?.followUps.find(f => f.afterRound === turn.round)
+                    : undefined;
+                  return (
+                    <Fragment key={turn.turnIndex}>
+                      <div
+                        className={`flex ${turn.speaker === 'persona1' ? 'justify-start' : 'justify-end'}`}
+                      >
+                        <Card className="w-full lg:w-5/6">
+                          <CardHeader className="pb-3">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-3">
+                                <Avatar>
+                                  <AvatarFallback className={getLeaningColor(speaker.perspective)}>
+                                    {speaker.persona.characterName
+                                      .split(' ')
+                                      .map((n: string) => n[0])
+                                      .join('')}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <div>
+                                  <CardTitle className="text-lg">
+                                    {speaker.persona.characterName}
+                                  </CardTitle>
+                                  <CardDescription className="flex items-center gap-1">
+                                    <MessagesSquare className="h-3 w-3" />
+                                    {getTurnLabel(turn)}
+                                  </CardDescription>
+                                </div>
+                              </div>
+                              <Badge className={getLeaningColor(speaker.perspective)}>
+                                {speaker.perspective}
+                              </Badge>
+                            </div>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="prose-custom max-w-none">
+                              {renderCitedMarkdown(turn.content, getSources(speaker), getClaims(turn.speaker))}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      </div>
+                      {followUp && (
+                        <div className="flex justify-center">
+                          <div className="w-full lg:w-4/6 rounded-lg border border-dashed bg-muted p-4 text-center">
+                            <div className="flex items-center justify-center gap-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">
+                              <Scale className="h-3 w-3" />
+                              Moderator
+                            </div>
+                            <p className="text-sm italic">{followUp.content}</p>
+                          </div>
+                        </div>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TabsContent>
+            )}
+
             <TabsContent value="side-by-side" className="space-y-4 mt-4">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                {/* Liberal Perspective */}
+                {/* First Perspective */}
                 <Card>
                   <CardHeader className="pb-3">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
                         <Avatar>
-                          <AvatarFallback className={getPersonaColor(debateResult.personas.persona1.content.perspective)}>
+                          <AvatarFallback className={getLeaningColor(debateResult.personas.persona1.content.perspective)}>
                             {debateResult.personas.persona1.content.persona.characterName
                               .split(' ')
                               .map((n: string) => n[0])
@@ -484,25 +919,27 @@ ${debateResult.personas.persona2.content.content}
                           </CardTitle>
                           <CardDescription>
                             {debateResult.personas.persona1.content.persona.characterName}
+                            {' · '}{formatModel(debateResult.personas.persona1.content)}
                           </CardDescription>
                         </div>
                       </div>
-                      <Badge className={getPersonaColor(debateResult.personas.persona1.content.perspective)}>
-                        {debateResult.personas.persona1.content.perspective}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        {renderRegenerateButton('persona1')}
+                        <Badge className={getLeaningColor(debateResult.personas.persona1.content.perspective)}>
+                          {debateResult.personas.persona1.content.perspective}
+                        </Badge>
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="max-h-96 overflow-y-auto">
                       <div className="prose-custom max-w-none">
-                        <ReactMarkdown
-                          remarkPlugins={[remarkGfm]}
-                          rehypePlugins={[rehypeRaw, rehypeHighlight]}
-                          components={MarkdownComponents}
-                        >
-                          {debateResult.personas.persona1.content.content.substring(0, 1000) +
-                           (debateResult.personas.persona1.content.content.length > 1000 ? '...' : '')}
-                        </ReactMarkdown>
+                        {renderCitedMarkdown(
+                          debateResult.personas.persona1.content.content.substring(0, 1000) +
+                            (debateResult.personas.persona1.content.content.length > 1000 ? '...' : ''),
+                          getSources(debateResult.personas.persona1.content),
+                          getClaims('persona1')
+                        )}
                       </div>
                     </div>
                     <Dialog>
@@ -514,31 +951,29 @@ ${debateResult.personas.persona2.content.content}
                       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
                         <DialogHeader>
                           <DialogTitle>
-                            {debateResult.personas.persona1.content.persona.displayName} - Liberal Perspective
+                            {debateResult.personas.persona1.content.persona.displayName} - {debateResult.personas.persona1.content.perspective} perspective
                           </DialogTitle>
                           <DialogDescription>
                             {debateResult.personas.persona1.content.title}
                           </DialogDescription>
                         </DialogHeader>
                         <div className="prose-custom max-w-none">
-                          <ReactMarkdown
-                            remarkPlugins={[remarkGfm]}
-                            rehypePlugins={[rehypeRaw, rehypeHighlight]}
-                            components={MarkdownComponents}
-                          >
-                            {debateResult.personas.persona1.content.content}
-                          </ReactMarkdown>
+                          {renderCitedMarkdown(
+                            debateResult.personas.persona1.content.content,
+                            getSources(debateResult.personas.persona1.content),
+                            getClaims('persona1')
+                          )}
                         </div>
                         <div className="flex gap-2 mt-4">
                           <Button
                             onClick={() => copyToClipboard(
                               debateResult.personas.persona1.content.content,
-                              'Liberal perspective'
+                              'First perspective'
                             )}
                             variant="outline"
                             size="sm"
                           >
-                            {copiedText === 'Liberal perspective' ? (
+                            {copiedText === 'First perspective' ? (
                               <CheckCircle className="mr-2 h-4 w-4" />
                             ) : (
                               <Copy className="mr-2 h-4 w-4" />
@@ -551,13 +986,13 @@ ${debateResult.personas.persona2.content.content}
                   </CardContent>
                 </Card>
 
-                {/* Conservative Perspective */}
+                {/* Second Perspective */}
                 <Card>
                   <CardHeader className="pb-3">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
                         <Avatar>
-                          <AvatarFallback className={getPersonaColor(debateResult.personas.persona2.content.perspective)}>
+                          <AvatarFallback className={getLeaningColor(debateResult.personas.persona2.content.perspective)}>
                             {debateResult.personas.persona2.content.persona.characterName
                               .split(' ')
                               .map((n: string) => n[0])
@@ -570,25 +1005,27 @@ ${debateResult.personas.persona2.content.content}
                           </CardTitle>
                           <CardDescription>
                             {debateResult.personas.persona2.content.persona.characterName}
+                            {' · '}{formatModel(debateResult.personas.persona2.content)}
                           </CardDescription>
                         </div>
                       </div>
-                      <Badge className={getPersonaColor(debateResult.personas.persona2.content.perspective)}>
-                        {debateResult.personas.persona2.content.perspective}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        {renderRegenerateButton('persona2')}
+                        <Badge className={getLeaningColor(debateResult.personas.persona2.content.perspective)}>
+                          {debateResult.personas.persona2.content.perspective}
+                        </Badge>
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="max-h-96 overflow-y-auto">
                       <div className="prose-custom max-w-none">
-                        <ReactMarkdown
-                          remarkPlugins={[remarkGfm]}
-                          rehypePlugins={[rehypeRaw, rehypeHighlight]}
-                          components={MarkdownComponents}
-                        >
-                          {debateResult.personas.persona2.content.content.substring(0, 1000) +
-                           (debateResult.personas.persona2.content.content.length > 1000 ? '...' : '')}
-                        </ReactMarkdown>
+                        {renderCitedMarkdown(
+                          debateResult.personas.persona2.content.content.substring(0, 1000) +
+                            (debateResult.personas.persona2.content.content.length > 1000 ? '...' : ''),
+                          getSources(debateResult.personas.persona2.content),
+                          getClaims('persona2')
+                        )}
                       </div>
                     </div>
                     <Dialog>
@@ -600,31 +1037,29 @@ ${debateResult.personas.persona2.content.content}
                       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
                         <DialogHeader>
                           <DialogTitle>
-                            {debateResult.personas.persona2.content.persona.displayName} - Conservative Perspective
+                            {debateResult.personas.persona2.content.persona.displayName} - {debateResult.personas.persona2.content.perspective} perspective
                           </DialogTitle>
                           <DialogDescription>
                             {debateResult.personas.persona2.content.title}
                           </DialogDescription>
                         </DialogHeader>
                         <div className="prose-custom max-w-none">
-                          <ReactMarkdown
-                            remarkPlugins={[remarkGfm]}
-                            rehypePlugins={[rehypeRaw, rehypeHighlight]}
-                            components={MarkdownComponents}
-                          >
-                            {debateResult.personas.persona2.content.content}
-                          </ReactMarkdown>
+                          {renderCitedMarkdown(
+                            debateResult.personas.persona2.content.content,
+                            getSources(debateResult.personas.persona2.content),
+                            getClaims('persona2')
+                          )}
                         </div>
                         <div className="flex gap-2 mt-4">
                           <Button
                             onClick={() => copyToClipboard(
                               debateResult.personas.persona2.content.content,
-                              'Conservative perspective'
+                              'Second perspective'
                             )}
                             variant="outline"
                             size="sm"
                           >
-                            {copiedText === 'Conservative perspective' ? (
+                            {copiedText === 'Second perspective' ? (
                               <CheckCircle className="mr-2 h-4 w-4" />
                             ) : (
                               <Copy className="mr-2 h-4 w-4" />
@@ -639,13 +1074,13 @@ ${debateResult.personas.persona2.content.content}
               </div>
             </TabsContent>
 
-            <TabsContent value="liberal" className="mt-4">
+            <TabsContent value="persona1" className="mt-4">
               <Card>
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <Avatar>
-                        <AvatarFallback className={getPersonaColor(debateResult.personas.persona1.content.perspective)}>
+                        <AvatarFallback className={getLeaningColor(debateResult.personas.persona1.content.perspective)}>
                           {debateResult.personas.persona1.content.persona.characterName
                             .split(' ')
                             .map((n: string) => n[0])
@@ -661,32 +1096,28 @@ ${debateResult.personas.persona2.content.content}
                         </CardDescription>
                       </div>
                     </div>
-                    <Badge className={getPersonaColor(debateResult.personas.persona1.content.perspective)}>
-                      {debateResult.personas.persona1.content.perspective}
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                      {renderRegenerateButton('persona1')}
+                      <Badge className={getLeaningColor(debateResult.personas.persona1.content.perspective)}>
+                        {debateResult.personas.persona1.content.perspective}
+                      </Badge>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <div className="prose-custom max-w-none">
-                    <ReactMarkdown
-                      remarkPlugins={[remarkGfm]}
-                      rehypePlugins={[rehypeRaw, rehypeHighlight]}
-                      components={MarkdownComponents}
-                    >
-                      {debateResult.personas.persona1.content.content}
-                    </ReactMarkdown>
-                  </div>
+                  {renderVersions('persona1')}
+                  {renderVoiceDiff('persona1')}
                 </CardContent>
               </Card>
             </TabsContent>
 
-            <TabsContent value="conservative" className="mt-4">
+            <TabsContent value="persona2" className="mt-4">
               <Card>
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <Avatar>
-                        <AvatarFallback className={getPersonaColor(debateResult.personas.persona2.content.perspective)}>
+                        <AvatarFallback className={getLeaningColor(debateResult.personas.persona2.content.perspective)}>
                           {debateResult.personas.persona2.content.persona.characterName
                             .split(' ')
                             .map((n: string) => n[0])
@@ -702,21 +1133,17 @@ ${debateResult.personas.persona2.content.content}
                         </CardDescription>
                       </div>
                     </div>
-                    <Badge className={getPersonaColor(debateResult.personas.persona2.content.perspective)}>
-                      {debateResult.personas.persona2.content.perspective}
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                      {renderRegenerateButton('persona2')}
+                      <Badge className={getLeaningColor(debateResult.personas.persona2.content.perspective)}>
+                        {debateResult.personas.persona2.content.perspective}
+                      </Badge>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <div className="prose-custom max-w-none">
-                    <ReactMarkdown
-                      remarkPlugins={[remarkGfm]}
-                      rehypePlugins={[rehypeRaw, rehypeHighlight]}
-                      components={MarkdownComponents}
-                    >
-                      {debateResult.personas.persona2.content.content}
-                    </ReactMarkdown>
-                  </div>
+                  {renderVersions('persona2')}
+                  {renderVoiceDiff('persona2')}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -724,6 +1151,80 @@ ${debateResult.personas.persona2.content.content}
         </CardContent>
       </Card>
 
+      {/* Fact Check */}
+      {debateResult.factCheck && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Fact Check
+            </CardTitle>
+            <CardDescription>
+              Factual claims graded against each side&apos;s sources. Hover a badge in the text for the reasoning.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {(['persona1', 'persona2'] as const).map(slot => (
+              <div key={slot} className="space-y-3">
+                <h4 className="font-semibold">
+                  {debateResult.personas[slot].content.persona.characterName}
+                </h4>
+                {getClaims(slot).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No checkable claims found.</p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      {FACT_CHECK_VERDICTS.map(verdict => {
+                        const count = getClaims(slot).filter(claim => claim.verdict === verdict).length;
+                        return count > 0 && (
+                          <Badge key={verdict} variant="outline" className={VERDICT_STYLES[verdict].className}>
+                            {count} {VERDICT_STYLES[verdict].label.toLowerCase()}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                    <ul className="space-y-2 text-sm">
+                      {getClaims(slot).map((claim, index) => (
+                        <li key={index}>
+                          &ldquo;{claim.claim}&rdquo;
+                          <FactCheckBadge claim={claim} sources={getSources(debateResult.personas[slot].content)} />
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Moderator Summary */}
+      {debateResult.moderator && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Moderator&apos;s Summary
+            </CardTitle>
+            <CardDescription>
+              A non-partisan wrap-up of where the two sides agree and disagree
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="prose-custom max-w-none">
+              <ReactMarkdown
+                remarkPlugins={[remarkGfm]}
+                rehypePlugins={[rehypeRaw, rehypeHighlight]}
+                components={MarkdownComponents}
+              >
+                {debateResult.moderator.summary.content}
+              </ReactMarkdown>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {copiedText && (
         <div className="fixed bottom-4 right-4 bg-green-600 text-white px-4 py-2 rounded-lg shadow-lg">
           <div className="flex items-center gap-2">
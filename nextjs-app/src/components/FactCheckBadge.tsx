@@ -0,0 +1,58 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { CheckCircle, HelpCircle, XCircle } from 'lucide-react';
+import type { FactCheckClaim, FactCheckVerdict, SourceCitation } from '@/types/personas';
+
+export const VERDICT_STYLES: Record<FactCheckVerdict, { label: string; className: string; icon: typeof CheckCircle }> = {
+  supported: {
+    label: 'Supported',
+    className: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-800',
+    icon: CheckCircle
+  },
+  contradicted: {
+    label: 'Contradicted',
+    className: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800',
+    icon: XCircle
+  },
+  unverifiable: {
+    label: 'Unverifiable',
+    className: 'bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800',
+    icon: HelpCircle
+  },
+};
+
+interface FactCheckBadgeProps {
+  claim: FactCheckClaim;
+  sources: SourceCitation[];
+}
+
+/**
+ * A claim's verdict, shown in place after the claim, with the reasoning on hover
+ */
+export default function FactCheckBadge({ claim, sources }: FactCheckBadgeProps) {
+  const style = VERDICT_STYLES[claim.verdict];
+  const Icon = style.icon;
+  const backing = sources.filter(source => claim.sourceIndexes.includes(source.index));
+
+  return (
+    <HoverCard>
+      <HoverCardTrigger asChild>
+        <Badge variant="outline" className={`ml-1 cursor-help align-middle gap-1 px-1.5 py-0 text-[10px] ${style.className}`}>
+          <Icon className="h-3 w-3" />
+          {style.label}
+        </Badge>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 space-y-2 text-sm">
+        <p className="font-medium">&ldquo;{claim.claim}&rdquo;</p>
+        {claim.explanation && <p className="text-muted-foreground">{claim.explanation}</p>}
+        <p className="text-xs text-muted-foreground">
+          {backing.length > 0
+            ? <>Checked against {backing.map(source => `[${source.index}] ${source.title}`).join(', ')}</>
+            : 'Checked by the fact-checking model, not a cited source'}
+        </p>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
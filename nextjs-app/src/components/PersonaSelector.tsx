@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Users, CheckCircle, AlertCircle, Lightbulb, GraduationCap } from 'lucide-react';
+import { getLeaningColor } from '@/lib/leaning-styles';
 
 interface PersonaInfo {
   id: string;
@@ -37,12 +38,6 @@ export default function PersonaSelector({
 }: PersonaSelectorProps) {
   const [activeSelection, setActiveSelection] = useState<'persona1' | 'persona2' | null>(null);
 
-  const getPersonaColor = (politicalLeaning: string) => {
-    return politicalLeaning.toLowerCase().includes('liberal')
-      ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
-      : 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300';
-  };
-
   const getPersonaIcon = (expertiseLevel: string) => {
     return expertiseLevel.toLowerCase().includes('expert')
       ? <GraduationCap className="h-4 w-4" />
@@ -63,7 +58,7 @@ export default function PersonaSelector({
     if (!otherPersona) return personas; // All personas available if other slot is empty
 
     return personas.filter(persona =>
-      isValidCombination(persona.id, otherPersona)
+      persona.id !== otherPersona && isValidCombination(persona.id, otherPersona)
     );
   };
 
@@ -98,7 +93,7 @@ export default function PersonaSelector({
             <CardTitle className="flex items-center justify-between text-lg">
               <span className="flex items-center gap-2">
                 <Users className="h-5 w-5" />
-                Liberal Perspective
+                First Persona
               </span>
               {selectedPersona1 && <CheckCircle className="h-5 w-5 text-green-600" />}
             </CardTitle>
@@ -108,7 +103,7 @@ export default function PersonaSelector({
               <div className="space-y-2">
                 <div className="flex items-center gap-3">
                   <Avatar>
-                    <AvatarFallback className={getPersonaColor(selectedPersona1Info.politicalLeaning)}>
+                    <AvatarFallback className={getLeaningColor(selectedPersona1Info.politicalLeaning)}>
                       {selectedPersona1Info.characterName.split(' ').map(n => n[0]).join('')}
                     </AvatarFallback>
                   </Avatar>
@@ -118,6 +113,12 @@ export default function PersonaSelector({
                   </div>
                 </div>
                 <div className="flex gap-2">
+                  <Badge
+                    variant="outline"
+                    className={`text-xs ${getLeaningColor(selectedPersona1Info.politicalLeaning)}`}
+                  >
+                    {selectedPersona1Info.politicalLeaning}
+                  </Badge>
                   <Badge variant="secondary" className="text-xs">
                     {getPersonaIcon(selectedPersona1Info.expertiseLevel)}
                     <span className="ml-1">{selectedPersona1Info.expertiseLevel}</span>
@@ -130,7 +131,7 @@ export default function PersonaSelector({
             ) : (
               <div className="text-center py-8">
                 <Users className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
-                <p className="text-sm text-muted-foreground">Click to select liberal persona</p>
+                <p className="text-sm text-muted-foreground">Click to select the first persona</p>
               </div>
             )}
           </CardContent>
@@ -151,7 +152,7 @@ export default function PersonaSelector({
             <CardTitle className="flex items-center justify-between text-lg">
               <span className="flex items-center gap-2">
                 <Users className="h-5 w-5" />
-                Conservative Perspective
+                Second Persona
               </span>
               {selectedPersona2 && <CheckCircle className="h-5 w-5 text-green-600" />}
             </CardTitle>
@@ -161,7 +162,7 @@ export default function PersonaSelector({
               <div className="space-y-2">
                 <div className="flex items-center gap-3">
                   <Avatar>
-                    <AvatarFallback className={getPersonaColor(selectedPersona2Info.politicalLeaning)}>
+                    <AvatarFallback className={getLeaningColor(selectedPersona2Info.politicalLeaning)}>
                       {selectedPersona2Info.characterName.split(' ').map(n => n[0]).join('')}
                     </AvatarFallback>
                   </Avatar>
@@ -171,6 +172,12 @@ export default function PersonaSelector({
                   </div>
                 </div>
                 <div className="flex gap-2">
+                  <Badge
+                    variant="outline"
+                    className={`text-xs ${getLeaningColor(selectedPersona2Info.politicalLeaning)}`}
+                  >
+                    {selectedPersona2Info.politicalLeaning}
+                  </Badge>
                   <Badge variant="secondary" className="text-xs">
                     {getPersonaIcon(selectedPersona2Info.expertiseLevel)}
                     <span className="ml-1">{selectedPersona2Info.expertiseLevel}</span>
@@ -183,7 +190,7 @@ export default function PersonaSelector({
             ) : (
               <div className="text-center py-8">
                 <Users className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
-                <p className="text-sm text-muted-foreground">Click to select conservative persona</p>
+                <p className="text-sm text-muted-foreground">Click to select the second persona</p>
               </div>
             )}
           </CardContent>
@@ -204,7 +211,7 @@ export default function PersonaSelector({
             <>
               <AlertCircle className="h-5 w-5 text-red-600" />
               <span className="text-sm font-medium text-red-700 dark:text-red-400">
-                These personas are from the same political side. Please select opposing perspectives.
+                These personas can&apos;t be paired under the current pairing rule. Please choose another combination.
               </span>
             </>
           )}
@@ -217,28 +224,24 @@ export default function PersonaSelector({
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Users className="h-5 w-5" />
-              Choose {activeSelection === 'persona1' ? 'Liberal' : 'Conservative'} Persona
+              Choose {activeSelection === 'persona1' ? 'First' : 'Second'} Persona
             </CardTitle>
             <CardDescription>
-              Select a persona to represent the {activeSelection === 'persona1' ? 'liberal' : 'conservative'} perspective in this debate
+              Select the persona who will argue {activeSelection === 'persona1' ? 'first' : 'second'} in this debate
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {(() => {
                 const availablePersonas = getAvailablePersonas(activeSelection)
-                  .filter(persona => persona && persona.id && persona.politicalLeaning)
-                  .filter(persona => {
-                    const isLiberal = persona.politicalLeaning.toLowerCase().includes('liberal');
-                    return activeSelection === 'persona1' ? isLiberal : !isLiberal;
-                  });
+                  .filter(persona => persona && persona.id && persona.politicalLeaning);
 
                 if (availablePersonas.length === 0) {
                   return (
                     <div className="col-span-full text-center py-8">
                       <Users className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
                       <p className="text-muted-foreground">
-                        No {activeSelection === 'persona1' ? 'liberal' : 'conservative'} personas available
+                        No personas can be paired with your other selection
                       </p>
                     </div>
                   );
@@ -254,7 +257,7 @@ export default function PersonaSelector({
                       <div className="space-y-3">
                         <div className="flex items-center gap-3">
                           <Avatar>
-                            <AvatarFallback className={getPersonaColor(persona.politicalLeaning)}>
+                            <AvatarFallback className={getLeaningColor(persona.politicalLeaning)}>
                               {persona.characterName.split(' ').map(n => n[0]).join('')}
                             </AvatarFallback>
                           </Avatar>
@@ -267,7 +270,7 @@ export default function PersonaSelector({
                         <div className="flex gap-2">
                           <Badge
                             variant="outline"
-                            className={`text-xs ${getPersonaColor(persona.politicalLeaning)}`}
+                            className={`text-xs ${getLeaningColor(persona.politicalLeaning)}`}
                           >
                             {persona.politicalLeaning}
                           </Badge>
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { AlertCircle, ChevronDown, Search } from 'lucide-react';
+import {
+  DEFAULT_SEARCH_PROFILE,
+  SEARCH_SOURCE_TYPES,
+  SEARCH_TIME_RANGES,
+  validateSearchProfile,
+} from '@/lib/search-profile';
+import type { SearchProfile, SearchSourceType, SearchTimeRange } from '@/types/personas';
+
+type ListField = 'allowedHandles' | 'excludedHandles' | 'allowedWebsites' | 'excludedWebsites';
+
+/**
+ * Search settings as edited in the form; lists stay as typed text until sent
+ */
+export type SearchSettingsForm = Omit<SearchProfile, ListField> & Record<ListField, string> & {
+  enabled: boolean;
+};
+
+export const DEFAULT_SEARCH_SETTINGS: SearchSettingsForm = {
+  ...DEFAULT_SEARCH_PROFILE,
+  allowedHandles: '',
+  excludedHandles: '',
+  allowedWebsites: '',
+  excludedWebsites: '',
+  enabled: true
+};
+
+const SOURCE_LABELS: Record<SearchSourceType, string> = {
+  x: 'X posts',
+  news: 'News',
+  web: 'Web'
+};
+
+const LIST_FIELDS: Array<{ field: ListField; label: string; placeholder: string }> = [
+  { field: 'allowedHandles', label: 'Only these X accounts', placeholder: 'e.g. @AOC, @Heritage' },
+  { field: 'excludedHandles', label: 'Never these X accounts', placeholder: 'e.g. @spam_account' },
+  { field: 'allowedWebsites', label: 'Only these websites (web)', placeholder: 'e.g. apnews.com, reuters.com' },
+  { field: 'excludedWebsites', label: 'Never these websites', placeholder: 'e.g. example.com' },
+];
+
+function parseList(text: string): string[] {
+  return text.split(/[\s,]+/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * The searchProfile to send: only the settings that differ from the defaults
+ */
+export function buildSearchProfileRequest(form: SearchSettingsForm): Partial<SearchProfile> | undefined {
+  const request: Partial<SearchProfile> = {};
+
+  if (form.sources.join() !== DEFAULT_SEARCH_PROFILE.sources.join()) request.sources = form.sources;
+  if (form.timeRange !== DEFAULT_SEARCH_PROFILE.timeRange) request.timeRange = form.timeRange;
+  if (form.minFavorites !== DEFAULT_SEARCH_PROFILE.minFavorites) request.minFavorites = form.minFavorites;
+  if (form.minViews !== DEFAULT_SEARCH_PROFILE.minViews) request.minViews = form.minViews;
+  if (form.maxSources !== DEFAULT_SEARCH_PROFILE.maxSources) request.maxSources = form.maxSources;
+  if (form.seedFromPreferredSources) request.seedFromPreferredSources = true;
+
+  for (const { field } of LIST_FIELDS) {
+    const items = parseList(form[field]);
+    if (items.length > 0) request[field] = items;
+  }
+
+  return Object.keys(request).length > 0 ? request : undefined;
+}
+
+/**
+ * Problems the server would reject the settings for, shown before generating
+ */
+export function getSearchSettingsErrors(form: SearchSettingsForm): string[] {
+  return form.enabled ? validateSearchProfile(buildSearchProfileRequest(form)).errors : [];
+}
+
+interface SearchSettingsProps {
+  value: SearchSettingsForm;
+  onChange: (value: SearchSettingsForm) => void;
+}
+
+export default function SearchSettings({ value, onChange }: SearchSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const errors = getSearchSettingsErrors(value);
+
+  const update = (patch: Partial<SearchSettingsForm>) => onChange({ ...value, ...patch });
+
+  const toggleSource = (source: SearchSourceType, checked: boolean) => {
+    const sources = checked
+      ? SEARCH_SOURCE_TYPES.filter(s => s === source || value.sources.includes(s))
+      : value.sources.filter(s => s !== source);
+    update({ sources });
+  };
+
+  const updateCount = (field: 'minFavorites' | 'minViews' | 'maxSources', text: string) => {
+    const count = Number(text);
+    if (text !== '' && Number.isInteger(count)) update({ [field]: count });
+  };
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Search className="h-5 w-5" />
+                Live Search
+              </CardTitle>
+              <CardDescription>
+                Choose where the personas look for current sources, and how recent and popular they must be
+              </CardDescription>
+            </div>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm">
+                Advanced
+                <ChevronDown className={`ml-1 h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+              </Button>
+            </CollapsibleTrigger>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-start gap-3">
+            <input
+              id="search-enabled"
+              type="checkbox"
+              checked={value.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="mt-1 h-4 w-4"
+            />
+            <div>
+              <Label htmlFor="search-enabled">Search for live sources</Label>
+              <p className="text-sm text-muted-foreground">
+                Each source found adds to the cost of the debate.
+              </p>
+            </div>
+          </div>
+
+          <CollapsibleContent className="space-y-4">
+            <div>
+              <Label>Search In</Label>
+              <div className="flex flex-wrap gap-4 mt-2">
+                {SEARCH_SOURCE_TYPES.map(source => (
+                  <label key={source} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={value.sources.includes(source)}
+                      onChange={(e) => toggleSource(source, e.target.checked)}
+                      disabled={!value.enabled}
+                      className="h-4 w-4"
+                    />
+                    {SOURCE_LABELS[source]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="search-time-range">Time Range</Label>
+                <Select
+                  value={value.timeRange}
+                  onValueChange={(timeRange) => update({ timeRange: timeRange as SearchTimeRange })}
+                  disabled={!value.enabled}
+                >
+                  <SelectTrigger id="search-time-range" className="mt-1 w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEARCH_TIME_RANGES.map(range => (
+                      <SelectItem key={range} value={range}>
+                        Past {range}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="search-min-favorites">Min. Likes</Label>
+                <Input
+                  id="search-min-favorites"
+                  type="number"
+                  min={0}
+                  value={value.minFavorites}
+                  onChange={(e) => updateCount('minFavorites', e.target.value)}
+                  disabled={!value.enabled}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="search-min-views">Min. Views</Label>
+                <Input
+                  id="search-min-views"
+                  type="number"
+                  min={0}
+                  value={value.minViews}
+                  onChange={(e) => updateCount('minViews', e.target.value)}
+                  disabled={!value.enabled}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="search-max-sources">Max. Sources</Label>
+                <Input
+                  id="search-max-sources"
+                  type="number"
+                  min={1}
+                  value={value.maxSources}
+                  onChange={(e) => updateCount('maxSources', e.target.value)}
+                  disabled={!value.enabled}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {LIST_FIELDS.map(({ field, label, placeholder }) => (
+                <div key={field}>
+                  <Label htmlFor={`search-${field}`}>{label}</Label>
+                  <Input
+                    id={`search-${field}`}
+                    value={value[field]}
+                    onChange={(e) => update({ [field]: e.target.value })}
+                    placeholder={placeholder}
+                    disabled={!value.enabled}
+                    className="mt-1"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-start gap-3">
+              <input
+                id="search-seed-handles"
+                type="checkbox"
+                checked={value.seedFromPreferredSources}
+                onChange={(e) => update({ seedFromPreferredSources: e.target.checked })}
+                disabled={!value.enabled}
+                className="mt-1 h-4 w-4"
+              />
+              <div>
+                <Label htmlFor="search-seed-handles">Add each persona&apos;s trusted accounts</Label>
+                <p className="text-sm text-muted-foreground">
+                  Each persona searches its own preferred X accounts as well as the ones listed above.
+                  Ignored when accounts are excluded.
+                </p>
+              </div>
+            </div>
+          </CollapsibleContent>
+
+          {errors.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <ul>
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Collapsible>
+    </Card>
+  );
+}
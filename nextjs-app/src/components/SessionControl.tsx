@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, Loader2, LogOut } from 'lucide-react';
+import type { ApiKey } from '@/lib/api-key-store';
+
+interface SessionControlProps {
+  /** Called after signing in or out, so the page can reload what the key may see */
+  onChange?: () => void;
+}
+
+/**
+ * Sign the app's pages in with an API key. The server keeps the key in an
+ * HttpOnly cookie, so every fetch the pages make sends it without the key
+ * ever reaching page scripts.
+ */
+export default function SessionControl({ onChange }: SessionControlProps) {
+  const [apiKey, setApiKey] = useState<ApiKey | null>(null);
+  const [key, setKey] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/session')
+      .then(response => response.json())
+      .then(data => setApiKey(data.apiKey))
+      .catch(error => console.error('Failed to read session:', error));
+  }, []);
+
+  const signIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!key.trim()) return;
+
+    setIsBusy(true);
+    setError('');
+    try {
+      const response = await fetch('/api/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: key.trim() })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Sign in failed with status ${response.status}`);
+      }
+      setApiKey(data.apiKey);
+      setKey('');
+      onChange?.();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Sign in failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const signOut = async () => {
+    setIsBusy(true);
+    try {
+      await fetch('/api/session', { method: 'DELETE' });
+      setApiKey(null);
+      onChange?.();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (apiKey) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-sm">
+        <Badge variant="secondary">
+          <KeyRound className="mr-1 h-3 w-3" />
+          {apiKey.name}
+        </Badge>
+        <Button variant="ghost" size="sm" onClick={signOut} disabled={isBusy}>
+          <LogOut className="mr-1 h-4 w-4" />
+          Sign out
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={signIn} className="flex flex-col items-center gap-1">
+      <div className="flex items-center gap-2">
+        <Input
+          type="password"
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          placeholder="API key to generate debates"
+          aria-label="API key"
+          className="w-64"
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={isBusy || !key.trim()}>
+          {isBusy ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <KeyRound className="mr-1 h-4 w-4" />}
+          Sign in
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { classifyGenerationError, generationErrorResponse } from '../api-errors';
+import { BudgetExceededError } from '../budget';
+
+describe('api errors', () => {
+  it('maps GrokClient failures by status and code', () => {
+    expect(classifyGenerationError({ error: 'API request failed: Too Many Requests', statusCode: 429, retryAfterSeconds: 3 }))
+      .toMatchObject({ code: 'UPSTREAM_RATE_LIMITED', retryAfterSeconds: 3 });
+    expect(classifyGenerationError({ error: 'Request timeout', code: 'TIMEOUT' }).code).toBe('UPSTREAM_TIMEOUT');
+    expect(classifyGenerationError({ error: 'API request failed: Bad Gateway', statusCode: 502 }).code).toBe('UPSTREAM_ERROR');
+  });
+
+  it('looks inside the AI SDK retry error for the last failure', () => {
+    const apiCallError = Object.assign(new Error('Rate limit reached'), {
+      statusCode: 429,
+      responseHeaders: { 'retry-after': '20' }
+    });
+    const retryError = Object.assign(new Error('Failed after 3 attempts'), { lastError: apiCallError });
+
+    expect(classifyGenerationError(retryError)).toMatchObject({
+      code: 'UPSTREAM_RATE_LIMITED',
+      retryAfterSeconds: 20,
+      details: 'Failed after 3 attempts'
+    });
+  });
+
+  it('answers budget refusals with 402 and anything else with 500', async () => {
+    const budget = generationErrorResponse(new BudgetExceededError('Over the limit', 0.5, 0.1));
+    const other = generationErrorResponse(new Error('Disk full'), 'Failed to regenerate');
+
+    expect(budget.status).toBe(402);
+    expect(await budget.json()).toEqual({ error: 'Budget exceeded', code: 'BUDGET_EXCEEDED', details: 'Over the limit' });
+    expect(other.status).toBe(500);
+    expect(await other.json()).toEqual({ error: 'Failed to regenerate', code: 'INTERNAL_ERROR', details: 'Disk full' });
+  });
+});
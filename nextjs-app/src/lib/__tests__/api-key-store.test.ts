@@ -0,0 +1,58 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ApiKeyStore, hasScope, validateNewApiKey } from '../api-key-store';
+
+describe('ApiKeyStore', () => {
+  let dataDir: string;
+  let store: ApiKeyStore;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+    store = new ApiKeyStore(path.join(dataDir, 'api-keys.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('verifies an issued key without storing it', () => {
+    const { apiKey, key } = store.issue('Reporting', ['read']);
+
+    expect(store.verify(key)).toEqual(apiKey);
+    expect(store.verify(`${key}x`)).toBeUndefined();
+    expect(fs.readFileSync(path.join(dataDir, 'api-keys.json'), 'utf-8')).not.toContain(key);
+  });
+
+  it('keeps a revoked key listed but stops verifying it', () => {
+    const { apiKey, key } = store.issue('Reporting', ['read']);
+
+    expect(store.revoke(apiKey.id, new Date('2026-03-01T00:00:00Z'))?.revokedAt).toBe('2026-03-01T00:00:00.000Z');
+    expect(store.verify(key)).toBeUndefined();
+    expect(store.list()).toHaveLength(1);
+    expect(store.revoke('key_missing')).toBeUndefined();
+  });
+
+  it('lets an admin key do everything', () => {
+    const admin = store.issue('Ops', ['admin']).apiKey;
+    const reader = store.issue('Dashboard', ['read']).apiKey;
+
+    expect(hasScope(admin, 'generate')).toBe(true);
+    expect(hasScope(reader, 'read')).toBe(true);
+    expect(hasScope(reader, 'generate')).toBe(false);
+  });
+});
+
+describe('validateNewApiKey', () => {
+  it('trims the name and drops repeated scopes', () => {
+    expect(validateNewApiKey({ name: ' CI ', scopes: ['read', 'read'] })).toEqual({
+      request: { name: 'CI', scopes: ['read'] },
+      errors: []
+    });
+  });
+
+  it('rejects anything but an object', () => {
+    expect(validateNewApiKey('CI').errors).toEqual(['Request body must be a JSON object']);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { describeBiasLevel, getBiasTemperature, willEnhanceVoice } from '../bias';
+
+describe('bias', () => {
+  it('runs experts cooler than grassroots voices at the same bias', () => {
+    expect(getBiasTemperature('expert', 0.4)).toBeCloseTo(0.75);
+    expect(getBiasTemperature('grassroots', 0.4)).toBeCloseTo(0.8);
+  });
+
+  it('runs the voice pass above the bias threshold on long enough essays', () => {
+    expect(willEnhanceVoice(0.3)).toBe(false);
+    expect(willEnhanceVoice(0.35)).toBe(true);
+    expect(willEnhanceVoice(0.35, 500)).toBe(false);
+    expect(willEnhanceVoice(0.35, 501)).toBe(true);
+  });
+
+  it('never runs the voice pass when it is turned off', () => {
+    expect(willEnhanceVoice(1, 5000, 'none')).toBe(false);
+    expect(willEnhanceVoice(1, 5000, 'quick')).toBe(true);
+  });
+
+  it('names the level from measured to fiery', () => {
+    expect([0, 0.3, 0.5, 1].map(describeBiasLevel)).toEqual(['Measured', 'Firm', 'Pointed', 'Fiery']);
+  });
+});
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BudgetExceededError, DebateBudget, createDebateBudget, estimateCallCost } from '../budget';
+import type { LLMProvider } from '../llm-provider';
+import { MockProvider } from '../providers/mock-provider';
+import { SpendStore } from '../spend-store';
+
+const call = { prompt: 'x'.repeat(400), maxTokens: 1000, model: 'grok-4-fast-reasoning', useSearch: true };
+
+describe('DebateBudget', () => {
+  let dataDir: string;
+  let spendStore: SpendStore;
+  const provider = new MockProvider();
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-'));
+    spendStore = new SpendStore(path.join(dataDir, 'spend.json'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('estimates the worst case: full prompt, every output token and every search source', () => {
+    // 100 prompt tokens at $0.20/M, 1000 output tokens at $0.50/M, 20 sources at $0.025
+    expect(estimateCallCost(provider, call)).toBeCloseTo(0.00002 + 0.0005 + 0.5);
+    expect(estimateCallCost(provider, { ...call, useSearch: false })).toBeCloseTo(0.00052);
+  });
+
+  it('sends the call unchanged when it fits', () => {
+    const budget = new DebateBudget({ perDebate: 1 }, spendStore);
+
+    expect(budget.plan(provider, call).options).toBe(call);
+    expect(budget.getReport().fallbacks).toEqual([]);
+  });
+
+  it('drops search, then switches to the default model, before refusing', () => {
+    const budget = new DebateBudget({ perDebate: 0.01 }, spendStore);
+
+    expect(budget.plan(provider, call).options).toMatchObject({ useSearch: false, model: 'grok-4-fast-reasoning' });
+
+    // Grok prices both its models the same, so use a provider whose premium model costs more
+    const tiered: LLMProvider = {
+      name: 'tiered',
+      defaultModel: 'budget-model',
+      generate: options => provider.generate(options),
+      stream: (options, onDelta) => provider.stream(options, onDelta),
+      selectModel: () => 'premium-model',
+      estimateCost: (_usage, sources = 0, model) => (model === 'premium-model' ? 1 : 0.001) + sources * 0.025
+    };
+    expect(budget.plan(tiered, { ...call, model: 'premium-model' }).options).toMatchObject({
+      useSearch: false,
+      model: 'budget-model'
+    });
+    expect(budget.getReport().fallbacks).toEqual([
+      'Dropped live search for a grok-4-fast-reasoning call to stay within budget',
+      'Switched a call from premium-model to budget-model to stay within budget'
+    ]);
+  });
+
+  it('refuses with a 402 error when nothing fits', () => {
+    const budget = new DebateBudget({ perDebate: 0.0001 }, spendStore);
+
+    expect(() => budget.plan(provider, call)).toThrow(BudgetExceededError);
+    try {
+      budget.plan(provider, call);
+    } catch (error) {
+      expect(error).toMatchObject({ code: 'BUDGET_EXCEEDED', statusCode: 402, remaining: 0.0001 });
+    }
+  });
+
+  it('holds back the estimate of calls in flight', async () => {
+    const budget = new DebateBudget({ perDebate: 0.001 }, spendStore);
+    const wrapped = budget.wrap(provider);
+    const small = { prompt: 'Hello', maxTokens: 1200 };
+
+    // Each call could cost up to $0.0006, so only one fits at a time
+    const results = await Promise.allSettled([wrapped.generate(small), wrapped.generate(small)]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(budget.getReport().spent).toBeGreaterThan(0);
+  });
+
+  it('holds back calls in flight from other debates against the daily limit', async () => {
+    const first = new DebateBudget({ perDay: 0.001 }, spendStore);
+    const second = new DebateBudget({ perDay: 0.001 }, new SpendStore(path.join(dataDir, 'spend.json')));
+    const small = { prompt: 'Hello', maxTokens: 1200 };
+
+    const results = await Promise.allSettled([first.wrap(provider).generate(small), second.wrap(provider).generate(small)]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(spendStore.getReserved()).toBe(0);
+  });
+
+  it('charges a failed call for what it streamed, or its whole estimate', async () => {
+    const failing: LLMProvider = {
+      name: 'failing',
+      defaultModel: provider.defaultModel,
+      generate: async () => { throw new Error('Connection reset'); },
+      stream: async (_options, onDelta) => {
+        onDelta('x'.repeat(400));
+        throw new Error('Connection reset');
+      },
+      selectModel: () => provider.defaultModel,
+      estimateCost: (usage, sources, model) => provider.estimateCost(usage, sources, model)
+    };
+    const budget = new DebateBudget({ perDebate: 1 }, spendStore);
+    const small = { prompt: 'x'.repeat(400), maxTokens: 1000 };
+
+    await expect(budget.wrap(failing).stream(small, () => {})).rejects.toThrow('Connection reset');
+    // The 100 tokens streamed before the failure, not the 1000 allowed
+    const streamedCost = estimateCallCost(provider, small, 100);
+    expect(budget.getReport().spent).toBeCloseTo(streamedCost);
+
+    await expect(budget.wrap(failing).generate(small)).rejects.toThrow('Connection reset');
+    expect(budget.getReport().spent).toBeCloseTo(streamedCost + estimateCallCost(provider, small));
+    expect(spendStore.getDailySpend()).toBeCloseTo(budget.getReport().spent);
+    expect(spendStore.getReserved()).toBe(0);
+  });
+
+  it('counts spend from earlier debates against the daily limit', () => {
+    spendStore.addSpend(0.75);
+    const budget = new DebateBudget({ perDay: 1 }, spendStore);
+
+    expect(budget.remaining()).toBeCloseTo(0.25);
+    expect(new DebateBudget({ perDay: 0.5 }, spendStore).isExhausted()).toBe(true);
+  });
+
+  it('names the limit that left nothing to spend', () => {
+    spendStore.addSpend(0.75);
+
+    expect(new DebateBudget({ perDay: 0.5 }, spendStore).exhaustedLimit()).toBe(
+      'The daily spending limit of $0.5 has been reached'
+    );
+    expect(new DebateBudget({ perDebate: 0, perDay: 1 }, spendStore).exhaustedLimit()).toBe(
+      'The per-debate spending limit of $0 has been reached'
+    );
+    expect(new DebateBudget({ perDebate: 1, perDay: 1 }, spendStore).exhaustedLimit()).toBeUndefined();
+  });
+
+  it('lets a request tighten the server limits but not loosen them', () => {
+    vi.stubEnv('DEBATE_BUDGET_USD', '0.5');
+    vi.stubEnv('DAILY_BUDGET_USD', '');
+
+    expect(createDebateBudget({ perDebate: 2 }, spendStore).limits).toEqual({ perDebate: 0.5, perDay: undefined });
+    expect(createDebateBudget({ perDebate: 0.1, perDay: 3 }, spendStore).limits).toEqual({ perDebate: 0.1, perDay: 3 });
+  });
+});
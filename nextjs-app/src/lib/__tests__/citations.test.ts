@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { linkCitations, markCitedClaims } from '../citations';
+
+const searchSources = [
+  { url: 'https://x.com/a/status/1', title: 'Post A', snippet: 'Rents are up' },
+  { url: 'https://x.com/b/status/2', title: 'Post B', snippet: 'Wages are flat' }
+];
+
+describe('linkCitations', () => {
+  it('numbers sources in order of first citation', () => {
+    const { content, sources } = linkCitations(
+      'Wages are flat [https://x.com/b/status/2]. Rents are up [https://x.com/a/status/1].',
+      searchSources
+    );
+
+    expect(content).toBe('Wages are flat [1]. Rents are up [2].');
+    expect(sources).toEqual([
+      { index: 1, url: 'https://x.com/b/status/2', title: 'Post B', snippet: 'Wages are flat' },
+      { index: 2, url: 'https://x.com/a/status/1', title: 'Post A', snippet: 'Rents are up' }
+    ]);
+  });
+
+  it('reuses the number of a source cited twice', () => {
+    const { content } = linkCitations(
+      'One [https://x.com/a/status/1]. Two [https://x.com/a/status/1/].',
+      searchSources
+    );
+
+    expect(content).toBe('One [1]. Two [1].');
+  });
+
+  it('converts markdown links, keeping meaningful labels', () => {
+    const { content } = linkCitations(
+      'As [this post](https://x.com/a/status/1) shows, and [[2]](https://x.com/b/status/2) agrees.',
+      searchSources
+    );
+
+    expect(content).toBe('As this post [1] shows, and [2] agrees.');
+  });
+
+  it('splits a bracket of several URLs into adjacent markers', () => {
+    const { content } = linkCitations('Both agree [https://x.com/a/status/1, https://x.com/b/status/2].', searchSources);
+
+    expect(content).toBe('Both agree [1][2].');
+  });
+
+  it('appends uncited search results and titles unknown URLs by hostname', () => {
+    const { sources } = linkCitations('See [https://www.example.com/report].', searchSources);
+
+    expect(sources.map(s => s.title)).toEqual(['example.com', 'Post A', 'Post B']);
+  });
+
+  it('continues the numbering of earlier turns', () => {
+    const first = linkCitations('A [https://x.com/a/status/1].', [searchSources[0]]);
+    const second = linkCitations('B [https://x.com/b/status/2]. A again [https://x.com/a/status/1].', [], first.sources);
+
+    expect(second.content).toBe('B [2]. A again [1].');
+    expect(second.sources).toHaveLength(2);
+  });
+});
+
+describe('markCitedClaims', () => {
+  it('wraps the cited part of the sentence', () => {
+    expect(markCitedClaims('Intro. Rents rose 12% [1] last year.', 1))
+      .toBe('Intro. <cite data-sources="1">Rents rose 12%</cite> last year.');
+  });
+
+  it('attaches a marker after the full stop to the sentence before it', () => {
+    expect(markCitedClaims('Wages are flat. [1]', 1)).toBe('<cite data-sources="1">Wages are flat.</cite>');
+  });
+
+  it('groups adjacent markers and skips list prefixes', () => {
+    expect(markCitedClaims('- Both sides agree [1][2]', 2)).toBe('- <cite data-sources="1,2">Both sides agree</cite>');
+  });
+
+  it('does not treat decimals as sentence ends', () => {
+    expect(markCitedClaims('Growth hit 3.5% [1].', 1)).toBe('<cite data-sources="1">Growth hit 3.5%</cite>.');
+  });
+
+  it('leaves markers without a matching source alone', () => {
+    expect(markCitedClaims('In [2024] things changed [3].', 1)).toBe('In [2024] things changed [3].');
+  });
+});
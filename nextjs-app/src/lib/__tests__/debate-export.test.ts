@@ -0,0 +1,82 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { DebateGenerator } from '../debate-generator';
+import { buildExportDocument, exportDebate, parseInline, parseMarkdownBlocks } from '../debate-export';
+import { escapeHtml } from '../exporters/html-exporter';
+import { PersonaRegistry } from '../persona-registry';
+import { MockProvider } from '../providers/mock-provider';
+import { DebateResult, PersonaType } from '../../types/personas';
+
+const registry = new PersonaRegistry();
+
+describe('debate export', () => {
+  let debate: DebateResult;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    debate = await new DebateGenerator(new MockProvider(), registry).generateDebate({
+      topic: 'Remote work vs office mandates <today>',
+      persona1Id: PersonaType.LIBERAL_GRASSROOTS,
+      persona2Id: PersonaType.CONSERVATIVE_EXPERT,
+      useTwitterSearch: false,
+      voiceMode: 'none'
+    });
+    vi.restoreAllMocks();
+  });
+
+  it('splits bold and italic spans into runs', () => {
+    expect(parseInline('Rents are **up** and *wages* [flat](https://example.com)')).toEqual([
+      { text: 'Rents are ' },
+      { text: 'up', bold: true },
+      { text: ' and ' },
+      { text: 'wages', italic: true },
+      { text: ' flat' },
+    ]);
+  });
+
+  it('reads headings, paragraphs and lists from markdown', () => {
+    expect(parseMarkdownBlocks('## Why\nit matters\n\n- one\n- two\n\n1. first\n2. second')).toEqual([
+      { type: 'heading', level: 2, runs: [{ text: 'Why' }] },
+      { type: 'paragraph', runs: [{ text: 'it matters' }] },
+      { type: 'list', ordered: false, items: [[{ text: 'one' }], [{ text: 'two' }]] },
+      { type: 'list', ordered: true, items: [[{ text: 'first' }], [{ text: 'second' }]] },
+    ]);
+  });
+
+  it('takes each side\'s bio from its profile and lists the generation details', () => {
+    const document = buildExportDocument(debate);
+    const profile = registry.getPersona(PersonaType.CONSERVATIVE_EXPERT)!;
+
+    expect(document.personas[1].bio).toContain(profile.background);
+    expect(document.personas[1].name).toBe(profile.characterName);
+    expect(document.metadata.map(row => row.label)).toContain('Models');
+    expect(document.metadata.find(row => row.label === 'Voice pass')?.value).toBe('none');
+  });
+
+  it('escapes the topic in html and lays the essays out as asked', async () => {
+    const sideBySide = await exportDebate(debate, 'html');
+    const sequential = await exportDebate(debate, 'html', 'sequential');
+
+    expect(escapeHtml('<a href="x">')).toBe('&lt;a href=&quot;x&quot;&gt;');
+    expect(sideBySide.body).toContain('Remote work vs office mandates &lt;today&gt;');
+    expect(sideBySide.body).toContain('class="essays side-by-side"');
+    expect(sequential.body).toContain('class="essays sequential"');
+  });
+
+  it('renders a pdf and a docx in both layouts', async () => {
+    for (const layout of ['side-by-side', 'sequential'] as const) {
+      const pdf = await exportDebate(debate, 'pdf', layout);
+      const docx = await exportDebate(debate, 'docx', layout);
+
+      expect(Buffer.from(pdf.body).subarray(0, 4).toString()).toBe('%PDF');
+      expect(Buffer.from(docx.body).subarray(0, 2).toString()).toBe('PK');
+    }
+  });
+
+  it('names the file after the topic', async () => {
+    const file = await exportDebate(debate, 'md');
+
+    expect(file.filename).toBe('Remote_work_vs_office_mandates_today_debate.md');
+    expect(file.contentType).toBe('text/markdown; charset=utf-8');
+    expect(file.body).toContain(`## ${debate.personas.persona1.info.displayName}`);
+  });
+});
@@ -0,0 +1,414 @@
+import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
+import { DebateGenerator } from '../debate-generator';
+import { PersonaRegistry } from '../persona-registry';
+import { MockProvider } from '../providers/mock-provider';
+import { DEFAULT_SEARCH_PROFILE } from '../search-profile';
+import { PersonaType } from '../../types/personas';
+
+const registry = new PersonaRegistry();
+const grassroots = registry.getPersona(PersonaType.LIBERAL_GRASSROOTS)!;
+const expert = registry.getPersona(PersonaType.CONSERVATIVE_EXPERT)!;
+
+const baseConfig = {
+  topic: 'Remote work vs office mandates',
+  persona1Id: PersonaType.LIBERAL_GRASSROOTS,
+  persona2Id: PersonaType.CONSERVATIVE_EXPERT
+};
+
+function createGenerator(provider = new MockProvider()) {
+  return new DebateGenerator(provider, registry);
+}
+
+describe('DebateGenerator', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('constructPrompt', () => {
+    const generator = createGenerator();
+
+    it('uses the expert template for experts and the grassroots template otherwise', () => {
+      expect(generator['constructPrompt'](expert, 'Taxes')).toContain('REQUIREMENTS FOR EXPERT COMMENTARY');
+      expect(generator['constructPrompt'](grassroots, 'Taxes')).toContain('REQUIREMENTS FOR GRASSROOTS ADVOCACY');
+    });
+
+    it('adds context and the moderator question when given', () => {
+      const prompt = generator['constructPrompt'](grassroots, 'Taxes', 'Focus on renters', 'Who pays?');
+
+      expect(prompt).toContain('ADDITIONAL CONTEXT: Focus on renters');
+      expect(prompt).toContain('THE MODERATOR ASKS: Who pays?');
+    });
+
+    it('leaves search guidance to the provider, which adds it only if the call still searches', () => {
+      const prompt = generator['constructPrompt'](grassroots, 'Taxes');
+
+      expect(prompt).not.toContain('X/TWITTER');
+      expect(prompt).not.toContain('ADDITIONAL CONTEXT');
+    });
+  });
+
+  describe('getTwitterIntegrationPrompt', () => {
+    const generator = createGenerator();
+
+    it('tailors the search strategy to the search profile', () => {
+      const prompt = generator['getTwitterIntegrationPrompt'](grassroots, {
+        ...DEFAULT_SEARCH_PROFILE,
+        sources: ['x', 'news'],
+        timeRange: 'month',
+        allowedHandles: ['AOC']
+      });
+
+      expect(prompt).toContain(`X/TWITTER LIVE DATA INTEGRATION FOR ${grassroots.characterName.toUpperCase()}`);
+      expect(prompt).toContain('within the last month');
+      expect(prompt).toContain('Draw on posts from these accounts: @AOC');
+      expect(prompt).toContain('with news results');
+    });
+  });
+
+  describe('getPersonaTemperature', () => {
+    const generator = createGenerator();
+
+    it('starts experts cooler than grassroots voices', () => {
+      expect(generator['getPersonaTemperature'](expert, 0)).toBeCloseTo(0.65);
+      expect(generator['getPersonaTemperature'](grassroots, 0)).toBeCloseTo(0.7);
+    });
+
+    it('rises with bias', () => {
+      expect(generator['getPersonaTemperature'](expert, 1)).toBeCloseTo(0.9);
+      expect(generator['getPersonaTemperature'](grassroots, 1)).toBeCloseTo(0.95);
+    });
+  });
+
+  describe('extractTitle', () => {
+    const generator = createGenerator();
+
+    it('uses the first non-empty line without its heading marker', () => {
+      expect(generator['extractTitle']('\n\n# The Case for Change\nBody')).toBe('The Case for Change');
+    });
+
+    it('falls back to Untitled', () => {
+      expect(generator['extractTitle']('   \n')).toBe('Untitled');
+    });
+  });
+
+  describe('generateDebate', () => {
+    it('rejects pairs the pairing policy does not allow', async () => {
+      await expect(createGenerator().generateDebate({
+        ...baseConfig,
+        persona2Id: PersonaType.LIBERAL_EXPERT
+      })).rejects.toThrow('Invalid persona selection');
+    });
+
+    it('rolls up the cost of both essays', async () => {
+      const provider = new MockProvider();
+      const result = await createGenerator(provider).generateDebate({ ...baseConfig, useTwitterSearch: false });
+
+      const { persona1, persona2 } = result.personas;
+      const expected = [persona1, persona2].reduce(
+        (total, persona) =>
+          total + provider.estimateCost(persona.content.tokenUsage) + provider.estimateCost(persona.content.voiceTokenUsage),
+        0
+      );
+      expect(result.costAnalysis?.totalEstimatedCost).toBeCloseTo(expected, 8);
+      expect(result.generationMetadata.providersUsed).toEqual({ persona1: 'mock', persona2: 'mock' });
+    });
+
+    it('adds the voice enhancement pass to the persona cost', async () => {
+      const provider = new MockProvider();
+      const result = await createGenerator(provider).generateDebate({ ...baseConfig, useTwitterSearch: false });
+
+      const { content } = result.personas.persona1;
+      expect(content.voiceEnhanced).toBe(true);
+      expect(content.voiceTokenUsage?.totalTokens).toBeGreaterThan(0);
+      expect(content.estimatedCost).toBeCloseTo(
+        provider.estimateCost(content.tokenUsage) + provider.estimateCost(content.voiceTokenUsage),
+        8
+      );
+    });
+
+    it('adds quick voice touches without a second call in quick mode', async () => {
+      const provider = new MockProvider();
+      const generate = vi.spyOn(provider, 'generate');
+      const result = await createGenerator(provider).generateDebate({
+        ...baseConfig,
+        useTwitterSearch: false,
+        voiceMode: 'quick'
+      });
+
+      const { content } = result.personas.persona1;
+      expect(generate.mock.calls.some(([options]) => options.usageLabel?.purpose === 'voice')).toBe(false);
+      expect(content.voiceEnhanced).toBe(true);
+      expect(content.voiceTokenUsage).toBeUndefined();
+      expect(content.content).toContain('*— Alex Rivera (@AlexRiveraWrites)*');
+      expect(result.generationMetadata.voiceMode).toBe('quick');
+    });
+
+    it('leaves the essays as written when voice mode is none', async () => {
+      const provider = new MockProvider();
+      const generate = vi.spyOn(provider, 'generate');
+      const result = await createGenerator(provider).generateDebate({
+        ...baseConfig,
+        useTwitterSearch: false,
+        voiceMode: 'none'
+      });
+
+      expect(generate.mock.calls.some(([options]) => options.usageLabel?.purpose === 'voice')).toBe(false);
+      expect(result.personas.persona1.content.voiceEnhanced).toBe(false);
+    });
+
+    it('uses the debate id it was given', async () => {
+      const result = await createGenerator().generateDebate({ ...baseConfig, useTwitterSearch: false, debateId: 'given_id' });
+
+      expect(result.debateId).toBe('given_id');
+    });
+
+    it('counts search sources in the cost', async () => {
+      const provider = new MockProvider();
+      const result = await createGenerator(provider).generateDebate({ ...baseConfig, useTwitterSearch: true });
+
+      const { persona1 } = result.personas;
+      expect(persona1.content.sourcesUsed).toHaveLength(2);
+      expect(persona1.content.estimatedCost).toBeCloseTo(
+        provider.estimateCost(persona1.content.tokenUsage, 2) + provider.estimateCost(persona1.content.voiceTokenUsage),
+        8
+      );
+    });
+
+    it('adds the moderator to the cost breakdown', async () => {
+      const result = await createGenerator().generateDebate({ ...baseConfig, includeModerator: true });
+
+      expect(result.moderator?.summary.content).toContain('## Where They Agree');
+      expect(result.costAnalysis?.costBreakdown.moderator?.totalTokens).toBeGreaterThan(0);
+      expect(result.costAnalysis!.totalEstimatedCost).toBeGreaterThan(
+        result.personas.persona1.content.estimatedCost! + result.personas.persona2.content.estimatedCost!
+      );
+    });
+
+    it('runs openings, rebuttals and closings in rounds format', async () => {
+      const result = await createGenerator().generateDebate({ ...baseConfig, format: 'rounds', rebuttalRounds: 2 });
+
+      expect(result.turns?.map(t => `${t.speaker}:${t.phase}`)).toEqual([
+        'persona1:opening', 'persona2:opening',
+        'persona1:rebuttal', 'persona2:rebuttal',
+        'persona1:rebuttal', 'persona2:rebuttal',
+        'persona1:closing', 'persona2:closing'
+      ]);
+      expect(result.personas.persona1.content.content).toContain('## Closing Statement');
+    });
+
+    it('applies the voice mode to each turn in rounds format', async () => {
+      const provider = new MockProvider();
+      const result = await createGenerator(provider).generateDebate({
+        ...baseConfig,
+        useTwitterSearch: false,
+        format: 'rounds',
+        rebuttalRounds: 1,
+        voiceMode: 'quick'
+      });
+
+      const turns = result.turns!.filter(turn => turn.speaker === 'persona1');
+      expect(turns.every(turn => turn.voiceEnhanced)).toBe(true);
+      expect(turns[0].content).toContain('*— Alex Rivera (@AlexRiveraWrites)*');
+      expect(result.personas.persona1.content.voiceEnhanced).toBe(true);
+    });
+
+    it('prices the voice pass of each turn in rounds format, and keeps its diff', async () => {
+      const provider = new MockProvider();
+      const result = await createGenerator(provider).generateDebate({
+        ...baseConfig,
+        useTwitterSearch: false,
+        format: 'rounds',
+        rebuttalRounds: 1,
+        voiceMode: 'llm'
+      });
+
+      const { content } = result.personas.persona1;
+      const turns = result.turns!.filter(turn => turn.speaker === 'persona1');
+      expect(content.voiceTokenUsage?.totalTokens).toBeGreaterThan(0);
+      expect(content.estimatedCost).toBeCloseTo(
+        turns.reduce((total, turn) => total + provider.estimateCost(turn.tokenUsage), 0) +
+          provider.estimateCost(content.voiceTokenUsage),
+        8
+      );
+      expect(turns.every(turn => turn.voiceDiff && turn.voiceDiff.length > 0)).toBe(true);
+      expect(content.voiceDiff).toEqual(turns.flatMap(turn => turn.voiceDiff));
+    });
+
+    it('streams deltas tagged with the persona slot', async () => {
+      const deltas = { persona1: '', persona2: '' };
+
+      // Low bias skips voice enhancement, which rewrites the opening after streaming
+      const result = await createGenerator().generateDebate(
+        { ...baseConfig, biasLevels: { persona1: 0.2, persona2: 0.2 } },
+        (slot, delta) => { deltas[slot] += delta; }
+      );
+
+      // Deltas are the raw model text; inline URL citations are linked afterwards
+      expect(deltas.persona2).toContain('[https://x.com/regwatch/status/1000000000000000005]');
+      expect(result.personas.persona2.content.content).toBe(
+        deltas.persona2.replace('[https://x.com/regwatch/status/1000000000000000005]', '[1]')
+      );
+    });
+
+    it('records each persona\'s search profile, seeded from its preferred sources', async () => {
+      const result = await createGenerator().generateDebate({
+        ...baseConfig,
+        searchProfile: { seedFromPreferredSources: true, timeRange: 'day' }
+      });
+      const { searchProfiles } = result.generationMetadata;
+
+      expect(searchProfiles?.persona1).toMatchObject({ timeRange: 'day', allowedHandles: ['AOC', 'BernieSanders'] });
+      expect(searchProfiles?.persona2.allowedHandles).toEqual(['BenShapiro', 'Heritage']);
+    });
+
+    it('fact-checks both essays when asked and counts the cost', async () => {
+      const provider = new MockProvider();
+      const result = await createGenerator(provider).generateDebate({
+        ...baseConfig,
+        includeFactCheck: true,
+        biasLevels: { persona1: 0.2, persona2: 0.2 }
+      });
+      const { factCheck, costAnalysis } = result;
+
+      expect(factCheck?.persona1.map(c => c.verdict)).toEqual(['supported', 'unverifiable']);
+      expect(factCheck?.persona2).toEqual([
+        expect.objectContaining({ claim: 'compliance burdens fall hardest on smaller firms', sourceIndexes: [1] })
+      ]);
+      expect(costAnalysis?.costBreakdown.factCheck?.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('leaves out the fact check unless asked', async () => {
+      const result = await createGenerator().generateDebate({ ...baseConfig, useTwitterSearch: false });
+
+      expect(result.factCheck).toBeUndefined();
+    });
+
+    it('links inline citations to numbered sources', async () => {
+      const result = await createGenerator().generateDebate({
+        ...baseConfig,
+        useTwitterSearch: true,
+        biasLevels: { persona1: 0.2, persona2: 0.2 }
+      });
+      const { content, sources } = result.personas.persona2.content;
+
+      expect(content).toContain('raises prices for consumers [1]');
+      expect(sources?.[0]).toMatchObject({
+        index: 1,
+        url: 'https://x.com/regwatch/status/1000000000000000005',
+        title: 'Regulatory Watch on X'
+      });
+    });
+
+    it('uses the provider chosen for each persona', async () => {
+      const factory = vi.fn(() => new MockProvider());
+      const generator = new DebateGenerator(new MockProvider(), registry, factory);
+
+      const result = await generator.generateDebate({
+        ...baseConfig,
+        personaModels: { persona2: { provider: 'local', model: 'llama3.1' } }
+      });
+
+      expect(factory).toHaveBeenCalledWith('local');
+      expect(result.personas.persona2.content.modelUsed).toBe('llama3.1');
+      expect(result.personas.persona1.content.modelUsed).toBe('grok-4-fast');
+    });
+
+    it('passes the abort signal to every call', async () => {
+      const provider = new MockProvider();
+      const generate = vi.spyOn(provider, 'generate');
+      const stream = vi.spyOn(provider, 'stream');
+      const { signal } = new AbortController();
+
+      await createGenerator(provider).generateDebate(
+        { ...baseConfig, format: 'rounds', rebuttalRounds: 1, includeModerator: true, includeFactCheck: true },
+        () => {},
+        signal
+      );
+
+      const calls = [...generate.mock.calls, ...stream.mock.calls].map(([options]) => options);
+      expect(calls.map(options => options.usageLabel?.purpose)).toEqual(
+        expect.arrayContaining(['moderator', 'turn', 'fact_check'])
+      );
+      expect(calls.every(options => options.signal === signal)).toBe(true);
+    });
+
+    it('stops when cancelled rather than skipping the remaining steps', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const controller = new AbortController();
+      const provider = new MockProvider();
+      const generate = provider.generate.bind(provider);
+      const spy = vi.spyOn(provider, 'generate').mockImplementation(options => {
+        if (options.usageLabel?.purpose === 'voice') controller.abort();
+        return generate(options);
+      });
+
+      await expect(createGenerator(provider).generateDebate(
+        { ...baseConfig, useTwitterSearch: false, includeFactCheck: true },
+        undefined,
+        controller.signal
+      )).rejects.toEqual({ error: 'Request cancelled', code: 'CANCELLED' });
+      expect(spy.mock.calls.some(([options]) => options.usageLabel?.purpose === 'fact_check')).toBe(false);
+    });
+  });
+
+  describe('regeneratePersona', () => {
+    it('rewrites one side and keeps the old essay as an alternate', async () => {
+      const generator = createGenerator();
+      const debate = await generator.generateDebate({ ...baseConfig, useTwitterSearch: false });
+
+      const updated = await generator.regeneratePersona(debate, 'persona1');
+
+      expect(updated.personas.persona1.alternates).toEqual([debate.personas.persona1.content]);
+      expect(updated.personas.persona1.content).not.toBe(debate.personas.persona1.content);
+      expect(updated.personas.persona2).toBe(debate.personas.persona2);
+      expect(updated.debateId).toBe(debate.debateId);
+    });
+
+    it('adds what the rewrite cost to the debate', async () => {
+      const generator = createGenerator();
+      const debate = await generator.generateDebate({ ...baseConfig, useTwitterSearch: false });
+
+      const updated = await generator.regeneratePersona(debate, 'persona2');
+
+      expect(updated.costAnalysis!.totalEstimatedCost).toBeCloseTo(
+        debate.costAnalysis!.totalEstimatedCost + updated.personas.persona2.content.estimatedCost!,
+        8
+      );
+      expect(updated.costAnalysis!.costBreakdown.persona2!.totalTokens).toBe(
+        debate.costAnalysis!.costBreakdown.persona2!.totalTokens + updated.personas.persona2.content.tokenUsage!.totalTokens
+      );
+    });
+
+    it('redoes the fact check and moderator summary for the new essay', async () => {
+      const provider = new MockProvider();
+      const generator = createGenerator(provider);
+      const debate = await generator.generateDebate({
+        ...baseConfig,
+        includeModerator: true,
+        includeFactCheck: true,
+        biasLevels: { persona1: 0.2, persona2: 0.2 }
+      });
+      const generate = vi.spyOn(provider, 'generate');
+
+      const updated = await generator.regeneratePersona(debate, 'persona1');
+
+      const purposes = generate.mock.calls.map(([options]) => options.usageLabel?.purpose);
+      expect(purposes).toEqual(expect.arrayContaining(['essay', 'fact_check', 'moderator']));
+      expect(updated.factCheck?.persona1).toHaveLength(2);
+      expect(updated.factCheck?.persona2).toBe(debate.factCheck?.persona2);
+      expect(updated.moderator?.summary).not.toBe(debate.moderator?.summary);
+      expect(updated.moderator?.framingQuestion).toBe(debate.moderator?.framingQuestion);
+    });
+
+    it('refuses rounds debates', async () => {
+      const generator = createGenerator();
+      const debate = await generator.generateDebate({ ...baseConfig, format: 'rounds', rebuttalRounds: 1 });
+
+      await expect(generator.regeneratePersona(debate, 'persona1')).rejects.toThrow('Only essay debates');
+    });
+  });
+});
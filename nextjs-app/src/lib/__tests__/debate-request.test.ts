@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { parseDebateRequest, parseRegenerateRequest } from '../debate-request';
+import { PairingPolicy } from '../../types/personas';
+
+const valid = {
+  topic: '  Remote work vs office mandates ',
+  persona1Id: 'liberal_grassroots',
+  persona2Id: 'conservative_expert'
+};
+
+describe('parseDebateRequest', () => {
+  it('fills in the defaults', () => {
+    const { request, errors } = parseDebateRequest(valid);
+
+    expect(errors).toEqual([]);
+    expect(request!.config).toMatchObject({
+      topic: 'Remote work vs office mandates',
+      useTwitterSearch: true,
+      pairingPolicy: PairingPolicy.OPPOSING_LEANING
+    });
+    expect(request!.budget).toBeUndefined();
+  });
+
+  it('fills in the side of biasLevels that was left out', () => {
+    expect(parseDebateRequest({ ...valid, biasLevels: { persona2: 0.9 } }).request!.config.biasLevels).toEqual({
+      persona1: 0.5,
+      persona2: 0.9
+    });
+  });
+
+  it('lists every problem, naming each field', () => {
+    const { request, errors } = parseDebateRequest({
+      topic: '',
+      persona1Id: 'liberal_grassroots',
+      context: 'x'.repeat(2001),
+      rebuttalRounds: 9,
+      biasLevels: { persona1: -1 },
+      budget: { perDay: 'lots' }
+    });
+
+    expect(request).toBeUndefined();
+    expect(errors).toEqual([
+      'topic is required',
+      'persona2Id is required',
+      'context must be at most 2000 characters',
+      'biasLevels.persona1 must be a number from 0 to 1',
+      'rebuttalRounds must be a whole number from 1 to 5',
+      'budget.perDay must be a positive number of dollars'
+    ]);
+  });
+
+  it('checks the nested objects field by field', () => {
+    const { errors } = parseDebateRequest({
+      ...valid,
+      personaModels: { persona1: { provider: 'skynet', model: ' ' }, persona3: {} },
+      searchProfile: { sources: ['x', 'tiktok', 'myspace'], allowedHandles: 'AOC' },
+      budget: []
+    });
+
+    expect(errors).toEqual([
+      'personaModels.persona1.provider must be one of: grok, openai, local, mock',
+      'personaModels.persona1.model must be a non-empty string',
+      'Unknown personaModels field "persona3"',
+      'searchProfile.sources must be a non-empty list of: x, news, web',
+      'searchProfile.allowedHandles must be an array of strings',
+      'budget must be an object with perDebate and/or perDay'
+    ]);
+  });
+});
+
+describe('parseRegenerateRequest', () => {
+  it('accepts a slot and an optional budget', () => {
+    expect(parseRegenerateRequest({ slot: 'persona2', budget: { perDebate: 0.1 } })).toEqual({
+      request: { slot: 'persona2', budget: { perDebate: 0.1 } },
+      errors: []
+    });
+  });
+
+  it('rejects anything but an object with a known slot', () => {
+    expect(parseRegenerateRequest(null).errors).toEqual(['Request body must be a JSON object']);
+    expect(parseRegenerateRequest({ slot: 'persona3' }).errors).toEqual(['slot must be persona1 or persona2']);
+  });
+});
@@ -0,0 +1,71 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { DebateGenerator } from '../debate-generator';
+import { DEBATE_SCHEMA_VERSION, getDebateJsonSchema, migrateDebateResult, parseDebateResult } from '../debate-schema';
+import { PersonaRegistry } from '../persona-registry';
+import { MockProvider } from '../providers/mock-provider';
+import { DebateResult, PersonaType } from '../../types/personas';
+
+describe('debate schema', () => {
+  let debate: DebateResult;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    debate = await new DebateGenerator(new MockProvider(), new PersonaRegistry()).generateDebate({
+      topic: 'Remote work vs office mandates',
+      persona1Id: PersonaType.LIBERAL_GRASSROOTS,
+      persona2Id: PersonaType.CONSERVATIVE_EXPERT,
+      includeModerator: true,
+      includeFactCheck: true
+    });
+    vi.restoreAllMocks();
+  });
+
+  it('accepts a freshly generated debate as it round-trips through JSON', () => {
+    const { debate: parsed, errors } = parseDebateResult(JSON.parse(JSON.stringify(debate)));
+
+    expect(errors).toEqual([]);
+    expect(parsed).toEqual(JSON.parse(JSON.stringify(debate)));
+    expect(parsed!.schemaVersion).toBe(DEBATE_SCHEMA_VERSION);
+  });
+
+  it('migrates a debate saved before versioning', () => {
+    const legacy = JSON.parse(JSON.stringify(debate));
+    delete legacy.schemaVersion;
+    delete legacy.format;
+    delete legacy.generationMetadata.biasLevels;
+
+    const { debate: parsed, errors } = parseDebateResult(legacy);
+
+    expect(errors).toEqual([]);
+    expect(parsed!.schemaVersion).toBe(DEBATE_SCHEMA_VERSION);
+    expect(parsed!.format).toBe('essays');
+    expect(parsed!.generationMetadata.biasLevels).toEqual({ persona1: 0.5, persona2: 0.5 });
+  });
+
+  it('refuses debates from a newer version of the app', () => {
+    expect(migrateDebateResult({ ...debate, schemaVersion: DEBATE_SCHEMA_VERSION + 1 }).errors).toEqual([
+      `schemaVersion ${DEBATE_SCHEMA_VERSION + 1} is newer than this app supports (${DEBATE_SCHEMA_VERSION})`
+    ]);
+    expect(parseDebateResult('not a debate').errors).toEqual(['Debate must be a JSON object']);
+  });
+
+  it('names the path of every problem', () => {
+    const broken = JSON.parse(JSON.stringify(debate));
+    broken.personas.persona1.content.biasLevel = 2;
+    delete broken.topic;
+
+    const { debate: parsed, errors } = parseDebateResult(broken);
+
+    expect(parsed).toBeUndefined();
+    expect(errors).toHaveLength(2);
+    expect(errors.some(error => error.startsWith('topic:'))).toBe(true);
+    expect(errors.some(error => error.startsWith('personas.persona1.content.biasLevel:'))).toBe(true);
+  });
+
+  it('publishes the schema as JSON Schema', () => {
+    const schema = getDebateJsonSchema();
+
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(expect.arrayContaining(['schemaVersion', 'debateId', 'personas']));
+  });
+});
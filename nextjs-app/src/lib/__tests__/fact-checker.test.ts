@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { FactChecker, markFactCheckedClaims } from '../fact-checker';
+import { MockProvider } from '../providers/mock-provider';
+import type { FactCheckClaim } from '../../types/personas';
+
+const essay = 'Rents rose 12% last year [1]. Wages stayed flat. We can fix this.';
+
+const sources = [
+  { index: 1, url: 'https://x.com/a/status/1', title: 'Post A', snippet: 'Rents up 12%' }
+];
+
+function createChecker(content: string) {
+  return new FactChecker(new MockProvider({ fixtures: [{ content }] }));
+}
+
+describe('FactChecker', () => {
+  it('reads the graded claims, even inside a code fence', async () => {
+    const checker = createChecker('```json\n' + JSON.stringify([
+      { claim: 'Rents rose 12% last year', verdict: 'supported', explanation: 'Matches the post.', sources: [1] }
+    ]) + '\n```');
+
+    const { claims, tokenUsage } = await checker.checkClaims('Housing', essay, sources);
+
+    expect(claims).toEqual([
+      { claim: 'Rents rose 12% last year', verdict: 'supported', explanation: 'Matches the post.', sourceIndexes: [1] }
+    ]);
+    expect(tokenUsage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('drops claims that are malformed or not in the essay, and unknown source numbers', async () => {
+    const checker = createChecker(JSON.stringify([
+      { claim: 'wages stayed flat', verdict: 'unverifiable', explanation: 'No source.', sources: [7] },
+      { claim: 'Rents fell', verdict: 'contradicted', explanation: 'Paraphrased.', sources: [] },
+      { claim: 'We can fix this', verdict: 'probably', explanation: 'Bad verdict.', sources: [] },
+      'not a claim'
+    ]));
+
+    const { claims } = await checker.checkClaims('Housing', essay, sources);
+
+    expect(claims).toEqual([
+      { claim: 'wages stayed flat', verdict: 'unverifiable', explanation: 'No source.', sourceIndexes: [] }
+    ]);
+  });
+
+  it('fails when the response has no JSON array', async () => {
+    await expect(createChecker('I could not check this.').checkClaims('Housing', essay)).rejects.toThrow(
+      'did not contain a JSON array'
+    );
+  });
+});
+
+describe('markFactCheckedClaims', () => {
+  const claim = (text: string): FactCheckClaim => ({
+    claim: text,
+    verdict: 'supported',
+    explanation: '',
+    sourceIndexes: []
+  });
+
+  it('places each badge after the claim and its citation markers', () => {
+    expect(markFactCheckedClaims(essay, [claim('Rents rose 12% last year'), claim('Wages stayed flat.')])).toBe(
+      'Rents rose 12% last year [1]<sup data-fact-check="0"></sup>. ' +
+      'Wages stayed flat<sup data-fact-check="1"></sup>. We can fix this.'
+    );
+  });
+
+  it('leaves the text alone when a claim is not found', () => {
+    expect(markFactCheckedClaims(essay, [claim('Rents fell')])).toBe(essay);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { GenerationQueue, QueueFullError } from '../generation-queue';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe('GenerationQueue', () => {
+  it('runs up to the limit at once and starts the rest in order', async () => {
+    const queue = new GenerationQueue(1, 5);
+    const first = deferred();
+    const started: string[] = [];
+    const positions: number[] = [];
+
+    const a = queue.run(async () => { started.push('a'); await first.promise; });
+    const b = queue.run(async () => { started.push('b'); }, undefined, ahead => positions.push(ahead));
+    const c = queue.run(async () => { started.push('c'); });
+    await Promise.resolve();
+
+    expect(started).toEqual(['a']);
+    expect(queue.waiting).toBe(2);
+
+    first.resolve();
+    await Promise.all([a, b, c]);
+
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(positions[0]).toBe(1);
+    expect(queue.running).toBe(0);
+  });
+
+  it('refuses once the waiting line is full', async () => {
+    const queue = new GenerationQueue(1, 1);
+    const first = deferred();
+
+    const running = queue.run(() => first.promise);
+    const waiting = queue.run(async () => {});
+
+    await expect(queue.run(async () => {})).rejects.toBeInstanceOf(QueueFullError);
+
+    first.resolve();
+    await Promise.all([running, waiting]);
+  });
+
+  it('drops a waiting task whose request is aborted', async () => {
+    const queue = new GenerationQueue(1, 5);
+    const first = deferred();
+    const controller = new AbortController();
+    let ran = false;
+
+    const running = queue.run(() => first.promise);
+    const aborted = queue.run(async () => { ran = true; }, controller.signal);
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow();
+    expect(queue.waiting).toBe(0);
+
+    first.resolve();
+    await running;
+    expect(ran).toBe(false);
+    expect(queue.running).toBe(0);
+  });
+});
@@ -0,0 +1,311 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import GrokClient from '../grok-client';
+import { createMockFetch } from '../providers/mock-provider';
+import { DEFAULT_SEARCH_PROFILE } from '../search-profile';
+
+function createClient(fetchImpl?: typeof fetch) {
+  return new GrokClient({ apiKey: 'test', retryBaseDelayMs: 1, fetch: fetchImpl });
+}
+
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('GrokClient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('requires an API key', () => {
+    expect(() => new GrokClient({ apiKey: '' })).toThrow('XAI_API_KEY is required');
+  });
+
+  describe('parseResponse', () => {
+    const client = createClient();
+    const apiResponse = {
+      choices: [{ message: { content: 'Hello' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+      search_results: [
+        { url: 'https://x.com/a', title: 'A', snippet: 'first' },
+        { link: 'https://x.com/b', name: 'B', description: 'second' }
+      ]
+    };
+
+    it('maps usage to camelCase', () => {
+      const result = client['parseResponse'](apiResponse, 'grok-4-fast', false);
+
+      expect(result).toEqual({
+        content: 'Hello',
+        model: 'grok-4-fast',
+        usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 }
+      });
+    });
+
+    it('folds reasoning tokens into completion tokens and keeps the cached count', () => {
+      const result = client['parseResponse']({
+        ...apiResponse,
+        usage: {
+          prompt_tokens: 10,
+          completion_tokens: 20,
+          total_tokens: 60,
+          prompt_tokens_details: { cached_tokens: 4 },
+          completion_tokens_details: { reasoning_tokens: 30 }
+        }
+      }, 'grok-4-fast', false);
+
+      expect(result.usage).toEqual({
+        promptTokens: 10,
+        completionTokens: 50,
+        totalTokens: 60,
+        cachedPromptTokens: 4,
+        reasoningTokens: 30
+      });
+    });
+
+    it('normalizes search results and prices them when search was used', () => {
+      const result = client['parseResponse'](apiResponse, 'grok-4-fast', true);
+
+      expect(result.sources).toEqual([
+        { url: 'https://x.com/a', title: 'A', snippet: 'first' },
+        { url: 'https://x.com/b', title: 'B', snippet: 'second' }
+      ]);
+      expect(result.searchCost).toBeCloseTo(0.05);
+    });
+
+    it('rejects a response without choices', () => {
+      expect(() => client['parseResponse']({ choices: [] }, 'grok-4-fast', false))
+        .toThrow(expect.objectContaining({ error: 'Invalid response: no choices returned' }));
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const client = new GrokClient({ apiKey: 'test' });
+
+    it('backs off exponentially from one second', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+
+      expect([0, 1, 2, 3].map(attempt => client['getRetryDelay'](attempt))).toEqual([1000, 2000, 4000, 8000]);
+    });
+
+    it('caps the delay at 30 seconds plus jitter', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.999);
+
+      const delay = client['getRetryDelay'](10);
+      expect(delay).toBeGreaterThanOrEqual(30000);
+      expect(delay).toBeLessThan(39000);
+    });
+  });
+
+  describe('estimateCost', () => {
+    const client = createClient();
+
+    it('is zero without usage', () => {
+      expect(client.estimateCost(undefined, 5)).toBe(0);
+    });
+
+    it('prices tokens and search sources', () => {
+      const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+      expect(client.estimateCost(usage)).toBeCloseTo(0.70);
+      expect(client.estimateCost(usage, 4)).toBeCloseTo(0.80);
+    });
+
+    it('prices each model from the pricing table', () => {
+      const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+      expect(client.estimateCost(usage, 0, 'grok-4')).toBeCloseTo(18);
+      expect(client.estimateCost({ ...usage, cachedPromptTokens: 1_000_000 }, 0, 'grok-4')).toBeCloseTo(15.75);
+    });
+
+    it('falls back to the default model for models the table does not list', () => {
+      const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+      expect(client.estimateCost(usage, 0, 'grok-99')).toBeCloseTo(0.70);
+    });
+
+    it('uses a custom pricing table', () => {
+      const custom = new GrokClient({ apiKey: 'test', pricing: { 'grok-4-fast': { inputPerMillion: 1, outputPerMillion: 1 } } });
+      const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+      expect(custom.estimateCost(usage, 4)).toBeCloseTo(2);
+    });
+  });
+
+  describe('selectModel', () => {
+    const client = createClient();
+
+    it('uses the fast model for short, simple topics', () => {
+      expect(client.selectModel('Remote work')).toBe('grok-4-fast');
+    });
+
+    it('uses the reasoning model for complex or long topics', () => {
+      expect(client.selectModel('Analyze the constitutional questions')).toBe('grok-4-fast-reasoning');
+      expect(client.selectModel('Remote work', 'x'.repeat(120))).toBe('grok-4-fast-reasoning');
+    });
+  });
+
+  describe('generate', () => {
+    it('retries after a rate limit and then succeeds', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const fetchImpl = vi.fn(createMockFetch({ failureMode: 'rate_limit', failureCount: 2 }));
+      const client = createClient(fetchImpl);
+
+      const result = await client.generate({ prompt: 'Hello' });
+
+      expect(fetchImpl).toHaveBeenCalledTimes(3);
+      expect(result.content).toContain('canned response');
+    });
+
+    it('gives up after maxRetries rate limits', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const fetchImpl = vi.fn(createMockFetch({ failureMode: 'rate_limit' }));
+      const client = createClient(fetchImpl);
+
+      await expect(client.generate({ prompt: 'Hello' })).rejects.toMatchObject({ statusCode: 429 });
+      expect(fetchImpl).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry other errors', async () => {
+      const fetchImpl = vi.fn(createMockFetch({ failureMode: 'server_error' }));
+      const client = createClient(fetchImpl);
+
+      await expect(client.generate({ prompt: 'Hello' })).rejects.toMatchObject({ statusCode: 500 });
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a timeout when the upstream stalls', async () => {
+      const client = new GrokClient({
+        apiKey: 'test',
+        timeout: 20,
+        fetch: createMockFetch({ failureMode: 'timeout' })
+      });
+
+      await expect(client.generate({ prompt: 'Hello' })).rejects.toEqual({ error: 'Request timeout', code: 'TIMEOUT' });
+    });
+
+    it('aborts the upstream request when the caller cancels', async () => {
+      const fetchImpl = vi.fn(createMockFetch({ failureMode: 'timeout' }));
+      const client = createClient(fetchImpl);
+      const controller = new AbortController();
+
+      const pending = client.generate({ prompt: 'Hello', signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toEqual({ error: 'Request cancelled', code: 'CANCELLED' });
+      expect(fetchImpl.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    });
+
+    it('stops retrying rate limits once cancelled', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const fetchImpl = vi.fn(createMockFetch({ failureMode: 'rate_limit' }));
+      const client = new GrokClient({ apiKey: 'test', retryBaseDelayMs: 60_000, fetch: fetchImpl });
+      const controller = new AbortController();
+
+      const pending = client.generate({ prompt: 'Hello', signal: controller.signal });
+      await vi.waitFor(() => expect(fetchImpl).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ code: 'CANCELLED' });
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+
+    it('only sends search parameters when search is enabled', async () => {
+      const fetchImpl = vi.fn(createMockFetch());
+      const client = createClient(fetchImpl);
+
+      await client.generate({ prompt: 'Hello', searchPrompt: ' Cite posts.' });
+      await client.generate({ prompt: 'Hello', useSearch: true, searchPrompt: ' Cite posts.' });
+
+      const bodies = fetchImpl.mock.calls.map(([, init]) => JSON.parse(String(init?.body)));
+      expect(bodies[0].search_parameters).toBeUndefined();
+      expect(bodies[0].messages.at(-1).content).toBe('Hello');
+      expect(bodies[1].search_parameters).toBeDefined();
+      expect(bodies[1].messages.at(-1).content).toBe('Hello Cite posts.');
+    });
+
+    it('sends the search profile in the search API format', async () => {
+      const fetchImpl = vi.fn(createMockFetch());
+      const client = createClient(fetchImpl);
+
+      await client.generate({
+        prompt: 'Hello',
+        useSearch: true,
+        searchProfile: { ...DEFAULT_SEARCH_PROFILE, sources: ['x', 'web'], allowedHandles: ['AOC'], maxSources: 5 }
+      });
+
+      const body = JSON.parse(String(fetchImpl.mock.calls[0][1]?.body));
+      expect(body.search_parameters).toMatchObject({
+        max_search_results: 5,
+        sources: [
+          { type: 'x', included_x_handles: ['AOC'], post_favorite_count: 10, post_view_count: 100 },
+          { type: 'web' }
+        ]
+      });
+    });
+  });
+
+  describe('stream', () => {
+    it('reassembles events split across network chunks', async () => {
+      const client = createClient(async () => streamResponse([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+        'ces":[{"delta":{"content":"lo"}}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":1,"completion_tokens":2,"total_tokens":3}}\n\n',
+        'data: [DONE]\n\n'
+      ]));
+      const deltas: string[] = [];
+
+      const result = await client.stream({ prompt: 'Hi' }, delta => deltas.push(delta));
+
+      expect(deltas).toEqual(['Hel', 'lo']);
+      expect(result.content).toBe('Hello');
+      expect(result.usage).toEqual({ promptTokens: 1, completionTokens: 2, totalTokens: 3 });
+    });
+
+    it('skips malformed events and reads an event left without a newline', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const client = createClient(async () => streamResponse([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+        'data: {"choices":[{"delta":\n\n',
+        ': keep-alive\n\n',
+        'data: {"choices":[{"delta":{"content":"lo"}}]}'
+      ]));
+
+      const result = await client.stream({ prompt: 'Hi' }, () => {});
+
+      expect(result.content).toBe('Hello');
+      expect(console.warn).toHaveBeenCalledWith('Skipping malformed stream event: {"choices":[{"delta":');
+    });
+
+    it('returns the same content as generate', async () => {
+      const client = createClient(createMockFetch());
+      const options = { prompt: 'Hi', systemPrompt: 'You are Jordan Hale', useSearch: true };
+
+      const streamed = await client.stream(options, () => {});
+      const generated = await client.generate(options);
+
+      expect(streamed.content).toBe(generated.content);
+      expect(streamed.sources).toEqual(generated.sources);
+    });
+
+    it('stops reading the stream when the caller cancels', async () => {
+      const controller = new AbortController();
+      const client = createClient(createMockFetch({ chunkDelayMs: 5 }));
+      const deltas: string[] = [];
+
+      const pending = client.stream({ prompt: 'Hi', signal: controller.signal }, delta => {
+        deltas.push(delta);
+        controller.abort();
+      });
+
+      await expect(pending).rejects.toEqual({ error: 'Request cancelled', code: 'CANCELLED' });
+      expect(deltas).toHaveLength(1);
+    });
+  });
+});
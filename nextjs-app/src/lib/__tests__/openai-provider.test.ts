@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIProvider } from '../providers/openai-provider';
+
+function chunk(data: object): string {
+  return `data: ${JSON.stringify({ id: 'chatcmpl-1', object: 'chat.completion.chunk', created: 0, model: 'gpt-4o-mini', ...data })}\n\n`;
+}
+
+describe('OpenAIProvider.stream', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards each delta and reports the usage', async () => {
+    const body = [
+      chunk({ choices: [{ index: 0, delta: { role: 'assistant', content: 'Rent ' }, finish_reason: null }] }),
+      chunk({ choices: [{ index: 0, delta: { content: 'is due.' }, finish_reason: 'stop' }] }),
+      chunk({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } }),
+      'data: [DONE]\n\n'
+    ].join('');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })));
+    const deltas: string[] = [];
+
+    const response = await new OpenAIProvider({ apiKey: 'test-key' }).stream({ prompt: 'Housing' }, delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['Rent ', 'is due.']);
+    expect(response.content).toBe('Rent is due.');
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+  });
+
+  it('throws the upstream failure with its status code instead of ending quietly', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(
+      JSON.stringify({ error: { message: 'Rate limit reached', type: 'rate_limit_exceeded' } }),
+      { status: 429, headers: { 'Content-Type': 'application/json' } }
+    )));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const provider = new OpenAIProvider({ apiKey: 'test-key', maxRetries: 0 });
+
+    await expect(provider.stream({ prompt: 'Housing' }, () => {})).rejects.toMatchObject({
+      statusCode: 429,
+      message: 'Rate limit reached'
+    });
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PersonaRegistry, describePairingPolicy, getDefaultPairingPolicy } from '../persona-registry';
+import { ExpertiseLevel, PairingPolicy, PersonaType, PoliticalLeaning } from '../../types/personas';
+import type { PersonaStore } from '../persona-store';
+
+const customPersona = {
+  personaId: 'sam_green',
+  displayName: 'Sam Green',
+  description: 'a climate organizer',
+  politicalLeaning: PoliticalLeaning.GREEN,
+  expertiseLevel: ExpertiseLevel.GRASSROOTS,
+  characterName: 'Sam Green',
+  background: 'Organizer from Portland',
+  writingStyle: 'Urgent and hopeful',
+  keyInfluences: ['Bill McKibben'],
+  signaturePhrases: ['There is no planet B'],
+  preferredSources: ['Grist'],
+  socialMediaHandle: '@samgreen'
+};
+
+function storeWith(personas: object[]): PersonaStore {
+  return { list: () => personas } as unknown as PersonaStore;
+}
+
+describe('PersonaRegistry', () => {
+  afterEach(() => {
+    delete process.env.DEBATE_PAIRING_POLICY;
+    vi.restoreAllMocks();
+  });
+
+  it('loads the four built-in personas', () => {
+    const registry = new PersonaRegistry();
+    const ids = registry.getAllPersonas().map(p => p.personaId);
+
+    expect(ids).toEqual(Object.values(PersonaType));
+  });
+
+  describe('validatePersonaPair', () => {
+    const registry = new PersonaRegistry();
+
+    it('accepts opposing leanings and rejects shared ones by default', () => {
+      expect(registry.validatePersonaPair(PersonaType.LIBERAL_GRASSROOTS, PersonaType.CONSERVATIVE_EXPERT)).toBe(true);
+      expect(registry.validatePersonaPair(PersonaType.LIBERAL_GRASSROOTS, PersonaType.LIBERAL_EXPERT)).toBe(false);
+    });
+
+    it('never pairs a persona with itself', () => {
+      for (const policy of Object.values(PairingPolicy)) {
+        expect(registry.validatePersonaPair(PersonaType.LIBERAL_EXPERT, PersonaType.LIBERAL_EXPERT, policy)).toBe(false);
+      }
+    });
+
+    it('rejects unknown persona ids', () => {
+      expect(registry.validatePersonaPair('nobody', PersonaType.LIBERAL_EXPERT, PairingPolicy.ANY)).toBe(false);
+    });
+
+    it('requires a shared leaning and different expertise for intra-party debates', () => {
+      const policy = PairingPolicy.SAME_LEANING_DIFFERENT_EXPERTISE;
+      expect(registry.validatePersonaPair(PersonaType.LIBERAL_GRASSROOTS, PersonaType.LIBERAL_EXPERT, policy)).toBe(true);
+      expect(registry.validatePersonaPair(PersonaType.LIBERAL_GRASSROOTS, PersonaType.CONSERVATIVE_PATRIOT, policy)).toBe(false);
+    });
+  });
+
+  describe('getValidCombinations', () => {
+    const registry = new PersonaRegistry();
+
+    it.each([
+      [PairingPolicy.OPPOSING_LEANING, 4],
+      [PairingPolicy.SAME_LEANING_DIFFERENT_EXPERTISE, 2],
+      [PairingPolicy.ANY, 6]
+    ])('lists each allowed pair once under %s', (policy, count) => {
+      const combinations = registry.getValidCombinations(policy);
+
+      expect(combinations).toHaveLength(count);
+      expect(new Set(combinations.map(c => c.id)).size).toBe(count);
+    });
+
+    it('describes the matchup', () => {
+      const [first] = registry.getValidCombinations(PairingPolicy.OPPOSING_LEANING);
+
+      expect(first.politicalMatchup).toBe(`${first.persona1.politicalLeaning} vs ${first.persona2.politicalLeaning}`);
+    });
+  });
+
+  it('falls back to opposing leanings when DEBATE_PAIRING_POLICY is invalid', () => {
+    process.env.DEBATE_PAIRING_POLICY = 'not_a_policy';
+    expect(getDefaultPairingPolicy()).toBe(PairingPolicy.OPPOSING_LEANING);
+
+    process.env.DEBATE_PAIRING_POLICY = PairingPolicy.ANY;
+    expect(getDefaultPairingPolicy()).toBe(PairingPolicy.ANY);
+    expect(describePairingPolicy(PairingPolicy.ANY)).toContain('two different personas');
+  });
+
+  describe('custom personas', () => {
+    it('registers custom personas with a generated system prompt', () => {
+      const registry = new PersonaRegistry(storeWith([customPersona]));
+      const persona = registry.getPersona('sam_green');
+
+      expect(persona?.systemPrompt).toContain('You are Sam Green');
+      expect(registry.getPersonaDisplayInfo().find(p => p.id === 'sam_green')?.isCustom).toBe(true);
+      expect(registry.validatePersonaPair('sam_green', PersonaType.CONSERVATIVE_PATRIOT)).toBe(true);
+    });
+
+    it('never lets a custom persona replace a built-in one', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const registry = new PersonaRegistry(storeWith([{ ...customPersona, personaId: PersonaType.LIBERAL_EXPERT }]));
+
+      expect(registry.getPersona(PersonaType.LIBERAL_EXPERT)?.characterName).toBe('Dr. Maya Chen');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_MODEL_PRICING, getModelPricing, loadModelPricing, priceUsage } from '../pricing';
+
+describe('getModelPricing', () => {
+  it('matches an exact model id before its family', () => {
+    expect(getModelPricing(DEFAULT_MODEL_PRICING, 'gpt-4o-mini')).toBe(DEFAULT_MODEL_PRICING['gpt-4o-mini']);
+  });
+
+  it('falls back to the longest id a dated snapshot starts with', () => {
+    expect(getModelPricing(DEFAULT_MODEL_PRICING, 'gpt-4o-mini-2024-07-18')).toBe(DEFAULT_MODEL_PRICING['gpt-4o-mini']);
+    expect(getModelPricing(DEFAULT_MODEL_PRICING, 'grok-4-0709')).toBe(DEFAULT_MODEL_PRICING['grok-4']);
+  });
+
+  it('returns undefined for models it does not know', () => {
+    expect(getModelPricing(DEFAULT_MODEL_PRICING, 'llama3.1')).toBeUndefined();
+  });
+});
+
+describe('priceUsage', () => {
+  const pricing = { inputPerMillion: 2, cachedInputPerMillion: 0.5, outputPerMillion: 8, reasoningPerMillion: 4, searchPerSource: 0.01 };
+
+  it('is zero without usage', () => {
+    expect(priceUsage(pricing, undefined, 5)).toBe(0);
+  });
+
+  it('bills cached prompt tokens and reasoning tokens at their own rates', () => {
+    const usage = {
+      promptTokens: 1_000_000,
+      cachedPromptTokens: 400_000,
+      completionTokens: 1_000_000,
+      reasoningTokens: 250_000,
+      totalTokens: 2_000_000
+    };
+
+    // 0.6M x $2 + 0.4M x $0.5 + 0.75M x $8 + 0.25M x $4 + 3 x $0.01
+    expect(priceUsage(pricing, usage, 3)).toBeCloseTo(1.2 + 0.2 + 6 + 1 + 0.03);
+  });
+
+  it('bills cached and reasoning tokens as plain input and output when no rate is set', () => {
+    const usage = { promptTokens: 1_000_000, cachedPromptTokens: 1_000_000, completionTokens: 1_000_000, reasoningTokens: 1_000_000, totalTokens: 2_000_000 };
+
+    expect(priceUsage({ inputPerMillion: 1, outputPerMillion: 3 }, usage)).toBeCloseTo(4);
+  });
+});
+
+describe('loadModelPricing', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  function writePricing(contents: string): string {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pricing-'));
+    const filePath = path.join(dir, 'pricing.json');
+    fs.writeFileSync(filePath, contents);
+    return filePath;
+  }
+
+  it('uses the built-in table without a file', () => {
+    expect(loadModelPricing('')).toEqual(DEFAULT_MODEL_PRICING);
+  });
+
+  it('merges valid overrides over the built-in table and skips invalid ones', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const filePath = writePricing(JSON.stringify({
+      'grok-4-fast': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+      'my-finetune': { inputPerMillion: 1, outputPerMillion: 2, reasoningPerMillion: 5 },
+      'gpt-4o': { inputPerMillion: 'free' }
+    }));
+
+    const table = loadModelPricing(filePath);
+
+    expect(table['grok-4-fast']).toEqual({ inputPerMillion: 0.1, outputPerMillion: 0.4 });
+    expect(table['my-finetune'].reasoningPerMillion).toBe(5);
+    expect(table['gpt-4o']).toEqual(DEFAULT_MODEL_PRICING['gpt-4o']);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"gpt-4o"'));
+  });
+
+  it('falls back to the built-in table when the file does not parse', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(loadModelPricing(writePricing('not json'))).toEqual(DEFAULT_MODEL_PRICING);
+  });
+});
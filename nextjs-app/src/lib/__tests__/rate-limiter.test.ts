@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryRateLimitStore, RateLimiter, getRateLimitClients } from '../rate-limiter';
+
+const at = (time: string) => new Date(`2026-03-01T${time}Z`);
+
+describe('RateLimiter', () => {
+  it('refuses a burst over the limit until the window turns over', async () => {
+    const limiter = new RateLimiter({ burst: 2, windowSeconds: 60 }, new InMemoryRateLimitStore());
+
+    expect(await limiter.check(['ip:a'], at('10:00:05'))).toEqual({ allowed: true });
+    expect(await limiter.check(['ip:a'], at('10:00:10'))).toEqual({ allowed: true });
+    expect(await limiter.check(['ip:a'], at('10:00:20'))).toEqual({
+      allowed: false,
+      reason: 'burst',
+      client: 'ip:a',
+      limit: 2,
+      retryAfterSeconds: 40
+    });
+    expect(await limiter.check(['ip:b'], at('10:00:20'))).toEqual({ allowed: true });
+    expect(await limiter.check(['ip:a'], at('10:01:00'))).toEqual({ allowed: true });
+  });
+
+  it('refuses past the daily quota until midnight UTC', async () => {
+    const limiter = new RateLimiter({ windowSeconds: 60, daily: 1 }, new InMemoryRateLimitStore());
+
+    await limiter.check(['ip:a'], at('23:00:00'));
+
+    expect(await limiter.check(['ip:a'], at('23:00:00'))).toMatchObject({ reason: 'daily', retryAfterSeconds: 3600 });
+  });
+
+  it('does not charge the day for requests refused as a burst', async () => {
+    const limiter = new RateLimiter({ burst: 1, windowSeconds: 60, daily: 2 }, new InMemoryRateLimitStore());
+
+    await limiter.check(['ip:a'], at('10:00:00'));
+    await limiter.check(['ip:a'], at('10:00:01'));
+    await limiter.check(['ip:a'], at('10:00:02'));
+
+    expect(await limiter.check(['ip:a'], at('10:01:00'))).toEqual({ allowed: true });
+  });
+
+  describe('getRateLimitClients', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    const forwardedFor = (value: string) =>
+      new Request('http://localhost/api/generate-debate', { headers: { 'X-Forwarded-For': value } });
+
+    it('counts a request against its IP behind a trusted proxy, and its API key', () => {
+      vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '1');
+
+      expect(getRateLimitClients(forwardedFor('203.0.113.7'), 'key_0123456789ab')).toEqual([
+        'ip:203.0.113.7',
+        'key:key_0123456789ab'
+      ]);
+    });
+
+    it('takes the address the outermost trusted proxy saw, not what the client claimed', () => {
+      vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '2');
+
+      expect(getRateLimitClients(forwardedFor('1.2.3.4, 203.0.113.7, 10.0.0.1'))).toEqual(['ip:203.0.113.7']);
+      expect(getRateLimitClients(forwardedFor('10.0.0.1'))).toEqual([]);
+    });
+
+    it('ignores X-Forwarded-For without a trusted proxy rather than lumping everyone together', () => {
+      vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '');
+
+      expect(getRateLimitClients(forwardedFor('203.0.113.7'))).toEqual([]);
+      expect(getRateLimitClients(forwardedFor('203.0.113.7'), 'key_0123456789ab')).toEqual(['key:key_0123456789ab']);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SEARCH_PROFILE,
+  buildSearchParameters,
+  resolveSearchProfile,
+  validateSearchProfile,
+} from '../search-profile';
+import { PersonaRegistry } from '../persona-registry';
+import { PersonaType } from '../../types/personas';
+
+const grassroots = new PersonaRegistry().getPersona(PersonaType.LIBERAL_GRASSROOTS)!;
+
+describe('resolveSearchProfile', () => {
+  it('fills in the defaults', () => {
+    expect(resolveSearchProfile(undefined, grassroots)).toEqual(DEFAULT_SEARCH_PROFILE);
+  });
+
+  it('seeds the allow list with the persona\'s handles, skipping duplicates', () => {
+    const profile = resolveSearchProfile({ seedFromPreferredSources: true, allowedHandles: ['@aoc', 'nytimes'] }, grassroots);
+
+    expect(profile.allowedHandles).toEqual(['aoc', 'nytimes', 'BernieSanders']);
+  });
+
+  it('does not seed when handles are excluded', () => {
+    const profile = resolveSearchProfile({ seedFromPreferredSources: true, excludedHandles: ['@spam'] }, grassroots);
+
+    expect(profile.allowedHandles).toEqual([]);
+    expect(profile.excludedHandles).toEqual(['spam']);
+  });
+});
+
+describe('buildSearchParameters', () => {
+  it('translates the profile into one entry per source type', () => {
+    const params = buildSearchParameters(
+      {
+        ...DEFAULT_SEARCH_PROFILE,
+        sources: ['x', 'news', 'web'],
+        excludedHandles: ['spam'],
+        excludedWebsites: ['example.com']
+      },
+      new Date('2025-03-15T12:00:00Z')
+    );
+
+    expect(params).toEqual({
+      mode: 'auto',
+      from_date: '2025-03-08',
+      max_search_results: 20,
+      sources: [
+        { type: 'x', excluded_x_handles: ['spam'], post_favorite_count: 10, post_view_count: 100 },
+        { type: 'news', excluded_websites: ['example.com'] },
+        { type: 'web', excluded_websites: ['example.com'] }
+      ]
+    });
+  });
+});
+
+describe('validateSearchProfile', () => {
+  it('accepts a partial profile and keeps only the fields sent', () => {
+    expect(validateSearchProfile({ sources: ['news', 'news'], allowedHandles: ['@AOC'] })).toEqual({
+      searchProfile: { sources: ['news'], allowedHandles: ['AOC'] },
+      errors: []
+    });
+  });
+
+  it('treats a missing profile as no overrides', () => {
+    expect(validateSearchProfile(undefined)).toEqual({ errors: [] });
+  });
+
+  it('reports every invalid field', () => {
+    const { searchProfile, errors } = validateSearchProfile({
+      sources: ['tiktok'],
+      timeRange: 'decade',
+      maxSources: 0,
+      allowedWebsites: ['a.com'],
+      excludedWebsites: ['b.com'],
+      favorites: 10
+    });
+
+    expect(searchProfile).toBeUndefined();
+    expect(errors).toEqual([
+      'searchProfile.sources must be a non-empty list of: x, news, web',
+      'searchProfile.timeRange must be one of: day, week, month, year',
+      'searchProfile.maxSources must be a whole number from 1 to 50',
+      'Unknown searchProfile field "favorites"',
+      'searchProfile can set allowedWebsites or excludedWebsites, not both'
+    ]);
+  });
+
+  it('enforces the search API list limits', () => {
+    const handles = Array.from({ length: 11 }, (_, i) => `user${i}`);
+
+    expect(validateSearchProfile({ allowedHandles: handles }).errors).toEqual([
+      'searchProfile.allowedHandles can list at most 10 entries'
+    ]);
+  });
+});
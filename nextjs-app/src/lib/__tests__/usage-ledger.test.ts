@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UsageEntry, UsageLedger } from '../usage-ledger';
+import type { LLMProvider } from '../llm-provider';
+
+function entry(overrides: Partial<UsageEntry>): UsageEntry {
+  return {
+    timestamp: '2026-03-01T12:00:00.000Z',
+    topic: 'Taxes',
+    provider: 'grok',
+    model: 'grok-4-fast',
+    usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+    searchSources: 0,
+    cost: 0.01,
+    ...overrides
+  };
+}
+
+describe('UsageLedger', () => {
+  let dir: string;
+  let ledger: UsageLedger;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-ledger-'));
+    ledger = new UsageLedger(path.join(dir, 'usage.jsonl'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is empty before anything is recorded', () => {
+    expect(ledger.list()).toEqual([]);
+    expect(ledger.summarize().totals.calls).toBe(0);
+  });
+
+  it('records each call a wrapped provider makes, with its label and cost', async () => {
+    const provider: LLMProvider = {
+      name: 'grok',
+      defaultModel: 'grok-4-fast',
+      generate: async options => ({
+        content: 'ok',
+        model: options.model ?? 'grok-4-fast',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        sources: [{ url: 'https://x.com/a', title: 'A', snippet: '' }]
+      }),
+      stream: vi.fn(),
+      estimateCost: (usage, sources = 0) => (usage?.totalTokens ?? 0) / 1000 + sources,
+      selectModel: () => 'grok-4-fast'
+    };
+
+    const metered = ledger.wrap(provider, { debateId: 'debate_1', topic: 'Taxes' });
+    await metered.generate({
+      prompt: 'Write',
+      model: 'grok-4',
+      usageLabel: { purpose: 'essay', personaId: 'liberal_grassroots' }
+    });
+
+    expect(ledger.list()).toEqual([
+      expect.objectContaining({
+        debateId: 'debate_1',
+        topic: 'Taxes',
+        purpose: 'essay',
+        personaId: 'liberal_grassroots',
+        provider: 'grok',
+        model: 'grok-4',
+        searchSources: 1,
+        cost: 1.015
+      })
+    ]);
+  });
+
+  it('groups spend by day, persona, model and topic', () => {
+    ledger.record(entry({ personaId: 'liberal_grassroots', purpose: 'essay', cost: 0.02 }));
+    ledger.record(entry({ personaId: 'liberal_grassroots', purpose: 'voice', cost: 0.01 }));
+    ledger.record(entry({ purpose: 'moderator', provider: 'openai', model: 'gpt-4o-mini' }));
+    ledger.record(entry({ timestamp: '2026-03-02T08:00:00.000Z', personaId: 'conservative_expert', topic: 'Housing' }));
+
+    const summary = ledger.summarize();
+
+    expect(summary.totals).toEqual({ calls: 4, promptTokens: 400, completionTokens: 200, totalTokens: 600, cost: 0.05 });
+    expect(Object.keys(summary.byDay)).toEqual(['2026-03-01', '2026-03-02']);
+    expect(summary.byDay['2026-03-01'].cost).toBeCloseTo(0.04);
+    expect(summary.byPersona.liberal_grassroots).toMatchObject({ calls: 2, cost: 0.03 });
+    expect(summary.byPersona.moderator.calls).toBe(1);
+    expect(summary.byModel['openai/gpt-4o-mini'].calls).toBe(1);
+    expect(summary.byModel['grok/grok-4-fast'].calls).toBe(3);
+    expect(summary.byTopic.Housing.calls).toBe(1);
+  });
+
+  it('limits the summary to an inclusive range of days', () => {
+    ledger.record(entry({ timestamp: '2026-02-28T23:59:59.000Z' }));
+    ledger.record(entry({ timestamp: '2026-03-01T00:00:00.000Z' }));
+    ledger.record(entry({ timestamp: '2026-03-02T10:00:00.000Z' }));
+
+    const summary = ledger.summarize({ from: '2026-03-01', to: '2026-03-01' });
+
+    expect(summary.totals.calls).toBe(1);
+    expect(summary).toMatchObject({ from: '2026-03-01', to: '2026-03-01' });
+  });
+
+  it('skips lines that do not parse', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    ledger.record(entry({}));
+    fs.appendFileSync(path.join(dir, 'usage.jsonl'), '{"timestamp": \n');
+    ledger.record(entry({}));
+
+    expect(ledger.list()).toHaveLength(2);
+  });
+});
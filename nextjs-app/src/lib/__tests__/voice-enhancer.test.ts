@@ -0,0 +1,210 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MAX_PARALLEL_SECTIONS, VoiceEnhancer, findMissingFacts, splitSections } from '../voice-enhancer';
+import { PersonaRegistry } from '../persona-registry';
+import { PersonaType } from '../../types/personas';
+import type { LLMProvider } from '../llm-provider';
+
+function providerReturning(generate: LLMProvider['generate']): LLMProvider {
+  return {
+    name: 'stub',
+    defaultModel: 'stub-fast',
+    generate: vi.fn(generate),
+    stream: vi.fn(),
+    estimateCost: () => 0,
+    selectModel: () => 'stub-fast'
+  };
+}
+
+const paragraph = (text: string) => `${text} ${'More of the same argument, in plain words. '.repeat(3)}`.trim();
+
+const essay = [
+  '# Why This Matters',
+  paragraph('Costs rose 12% last year, as Senator Warren noted [1].'),
+  paragraph('Families feel it at the kitchen table every single month.'),
+  '## What Comes Next',
+  paragraph('The plan from the Brookings Institution would cut that by half.'),
+].join('\n\n');
+
+describe('splitSections', () => {
+  it('starts a section at each heading and gives back the essay when joined', () => {
+    const sections = splitSections(essay);
+
+    expect(sections).toHaveLength(2);
+    expect(sections[1].startsWith('## What Comes Next')).toBe(true);
+    expect(sections.join('')).toBe(essay);
+  });
+
+  it('splits long sections at paragraph breaks', () => {
+    const sections = splitSections(essay, 200);
+
+    expect(sections.length).toBeGreaterThan(2);
+    expect(sections.every(section => !section.trim().includes('\n\n') || section.startsWith('#'))).toBe(true);
+    expect(sections.join('')).toBe(essay);
+  });
+});
+
+describe('findMissingFacts', () => {
+  it('reports numbers, names and citations the rewrite dropped', () => {
+    const original = 'Costs rose 12% last year, as Senator Warren noted [1] and https://example.com/report shows.';
+
+    expect(findMissingFacts(original, 'Prices went up a lot, as Senator Warren noted.')).toEqual([
+      'https://example.com/report',
+      '[1]',
+      '12'
+    ]);
+    expect(findMissingFacts(original, `Listen: ${original}`)).toEqual([]);
+  });
+});
+
+describe('VoiceEnhancer', () => {
+  const persona = new PersonaRegistry().getPersona(PersonaType.LIBERAL_GRASSROOTS)!;
+  const longEssay = Array.from(
+    { length: 6 },
+    (_, index) => `## Part ${index + 1}\n\nRents in the county rose ${index + 3}% last year, and families are paying for it every month.\n\n`
+  ).join('');
+  // Echo each section back in the persona's voice, keeping its facts
+  const echo: LLMProvider['generate'] = async ({ prompt }) => ({
+    content: `Friends, ${prompt.split('Original section:\n')[1].split('\n\nEnhanced version')[0]}`,
+    model: 'stub-fast',
+    usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 }
+  });
+
+  it('rewrites every section of the essay and keeps the headings as written', async () => {
+    const provider = providerReturning(echo);
+
+    const result = await new VoiceEnhancer(provider).enhanceContent(essay, persona, 0.5);
+
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+    expect(result.content).toContain('# Why This Matters\n\nFriends, Costs rose 12%');
+    expect(result.content).toContain('## What Comes Next\n\nFriends, The plan from the Brookings Institution');
+    expect(result.content).toContain('Families feel it at the kitchen table');
+  });
+
+  it('keeps a diff of each section before and after', async () => {
+    const result = await new VoiceEnhancer(providerReturning(echo)).enhanceContent(essay, persona, 0.5);
+
+    expect(result.diff.map(section => section.original).join('')).toBe(essay);
+    expect(result.diff.map(section => section.enhanced).join('')).toBe(result.content);
+  });
+
+  it('reports the tokens of every call, labelled for the usage ledger', async () => {
+    const provider = providerReturning(echo);
+
+    const result = await new VoiceEnhancer(provider).enhanceContent(essay, persona, 0.5);
+
+    expect(result.usage).toMatchObject({ promptTokens: 200, completionTokens: 100, totalTokens: 300 });
+    expect(vi.mocked(provider.generate).mock.calls[0][0].usageLabel).toEqual({
+      purpose: 'voice',
+      personaId: persona.personaId
+    });
+  });
+
+  it('only sends the section being rewritten, using the fast model', async () => {
+    const provider = providerReturning(echo);
+
+    await new VoiceEnhancer(provider).enhanceContent(essay, persona, 0.5);
+
+    const [options] = vi.mocked(provider.generate).mock.calls[1];
+    expect(options.prompt).toContain('The plan from the Brookings Institution');
+    expect(options.prompt).not.toContain('Costs rose 12%');
+    expect(options.model).toBe('stub-fast');
+    expect(options.systemPrompt).toContain(persona.characterName);
+  });
+
+  it('keeps the original section when the rewrite drops a fact', async () => {
+    const provider = providerReturning(async options => {
+      const response = await echo(options);
+      return { ...response, content: response.content.replace('12%', 'sharply').replace('Senator Warren', 'one senator') };
+    });
+
+    const result = await new VoiceEnhancer(provider).enhanceContent(essay, persona, 0.5);
+
+    expect(result.content).toContain(essay.split('## What Comes Next')[0]);
+    expect(result.diff[0]).toMatchObject({ keptOriginal: 'missing_facts', missing: ['12', 'Senator Warren'] });
+    expect(result.diff[1].enhanced).toContain('Friends,');
+  });
+
+  it('keeps the original when the enhancement is too short', async () => {
+    const provider = providerReturning(async () => ({ content: 'Too short', model: 'stub-fast' }));
+
+    const result = await new VoiceEnhancer(provider).enhanceContent(essay, persona, 0.5);
+
+    expect(result.content).toBe(essay);
+    expect(result.diff.every(section => section.keptOriginal === 'too_short')).toBe(true);
+  });
+
+  it('rewrites a few sections at a time', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const provider = providerReturning(async options => {
+      inFlight += 1;
+      mostInFlight = Math.max(mostInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return echo(options);
+    });
+
+    const result = await new VoiceEnhancer(provider).enhanceContent(longEssay, persona, 0.5);
+
+    expect(provider.generate).toHaveBeenCalledTimes(6);
+    expect(mostInFlight).toBe(MAX_PARALLEL_SECTIONS);
+    expect(result.diff.map(section => section.original).join('')).toBe(longEssay);
+    expect(result.diff.every(section => section.enhanced?.includes('Friends,'))).toBe(true);
+  });
+
+  it('keeps the rest of the original once the provider fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = providerReturning(async () => {
+      throw { error: 'Request timeout', code: 'TIMEOUT' };
+    });
+
+    const result = await new VoiceEnhancer(provider).enhanceContent(longEssay, persona, 0.5);
+
+    expect(result.content).toBe(longEssay);
+    // Only the sections already under way when the first call failed were sent
+    expect(provider.generate).toHaveBeenCalledTimes(MAX_PARALLEL_SECTIONS);
+    expect(result.diff.every(section => section.keptOriginal === 'failed')).toBe(true);
+  });
+
+  it('uses the provider passed per call over the default one', async () => {
+    const fallback = providerReturning(echo);
+    const perCall = providerReturning(echo);
+
+    await new VoiceEnhancer(fallback).enhanceContent(essay, persona, 0.5, perCall);
+
+    expect(perCall.generate).toHaveBeenCalled();
+    expect(fallback.generate).not.toHaveBeenCalled();
+  });
+
+  describe('addQuickVoiceTouches', () => {
+    const enhancer = new VoiceEnhancer(providerReturning(echo));
+    const expert = new PersonaRegistry().getPersona(PersonaType.LIBERAL_EXPERT)!;
+
+    it('opens under the title with a signature phrase and signs off, without calling the model', () => {
+      const result = enhancer.addQuickVoiceTouches(essay, persona);
+
+      expect(result.startsWith("# Why This Matters\n\nWe can't let this stand. I'm Alex Rivera")).toBe(true);
+      expect(result.endsWith('*— Alex Rivera (@AlexRiveraWrites)*')).toBe(true);
+    });
+
+    it('opens an expert essay with their credentials', () => {
+      expect(enhancer.addQuickVoiceTouches('Body text.', expert)).toContain(
+        '*Dr. Maya Chen, 45-year-old policy professor at Georgetown, MSNBC contributor, former Obama admin.*'
+      );
+    });
+
+    it('works from the profile, so custom personas get touches too', () => {
+      const custom = { ...persona, personaId: 'custom_1', characterName: 'Sam Ortiz', signaturePhrases: ['Hear me out!'], socialMediaHandle: '' };
+
+      expect(enhancer.addQuickVoiceTouches('Body text.', custom)).toBe(
+        "Hear me out. I'm Sam Ortiz, and this one is personal.\n\nBody text.\n\n*— Sam Ortiz*"
+      );
+    });
+
+    it('does not add touches twice', () => {
+      const once = enhancer.addQuickVoiceTouches(essay, persona);
+
+      expect(enhancer.addQuickVoiceTouches(once, persona)).toBe(once);
+    });
+  });
+});
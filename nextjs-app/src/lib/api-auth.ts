@@ -0,0 +1,108 @@
+/**
+ * API Auth - The check every API route makes before it does anything else.
+ * A request authenticates with an API key, sent as a bearer token or held in
+ * the session cookie the app's own pages sign in with.
+ */
+
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { ApiErrorBody, apiError } from './api-errors';
+import { ApiKey, ApiKeyScope, ApiKeyStore, createApiKeyStore, hasScope } from './api-key-store';
+
+/**
+ * The cookie that holds a signed-in browser's API key. It is HttpOnly and
+ * SameSite=Strict, so page scripts can't read it and other sites can't send it.
+ */
+export const SESSION_COOKIE = 'debate_session';
+
+// What a request without a key may do while keys aren't required. Managing
+// keys always takes the admin scope.
+const ANONYMOUS_SCOPES: ApiKeyScope[] = ['read', 'generate'];
+
+/**
+ * Whether requests without a key are refused outright. Until REQUIRE_API_KEYS
+ * is "true" they can still read and generate.
+ */
+export function isApiKeyRequired(): boolean {
+  return process.env.REQUIRE_API_KEYS === 'true';
+}
+
+/**
+ * Whether a token is the operator's API_ADMIN_TOKEN. It has the admin scope
+ * without being a stored key, which is how the first key gets issued.
+ */
+function isAdminToken(token: string): boolean {
+  const adminToken = process.env.API_ADMIN_TOKEN;
+  if (!adminToken) {
+    return false;
+  }
+
+  // Compare hashes so the check takes the same time whatever the token's length
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(token), digest(adminToken));
+}
+
+/**
+ * The key a session cookie holds, if the request has one
+ */
+export function getSessionToken(request: Request): string | undefined {
+  const cookies = request.headers.get('cookie')?.split(';') ?? [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE && value.length > 0) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+function invalidKey(): { denied: NextResponse<ApiErrorBody> } {
+  return {
+    denied: apiError('UNAUTHORIZED', 'Invalid API key', 'The key is malformed, unknown or revoked', {
+      'WWW-Authenticate': 'Bearer error="invalid_token"'
+    })
+  };
+}
+
+/**
+ * Check a request's key against the scope the route needs. A bearer token
+ * takes precedence over the session cookie, and a key that is sent is always
+ * checked, even for a route anyone may read.
+ */
+export function authorize(
+  request: Request,
+  scope: ApiKeyScope,
+  store: ApiKeyStore = createApiKeyStore()
+): { apiKey?: ApiKey; denied?: NextResponse<ApiErrorBody> } {
+  const header = request.headers.get('authorization');
+  const token = header ? header.match(/^Bearer\s+(\S+)$/i)?.[1] : getSessionToken(request);
+
+  if (header && !token) {
+    return invalidKey();
+  }
+
+  if (!token) {
+    if (!isApiKeyRequired() && ANONYMOUS_SCOPES.includes(scope)) {
+      return {};
+    }
+    const details = isApiKeyRequired()
+      ? 'Send the key as "Authorization: Bearer <key>"'
+      : `Requests without a key can only read and generate; send a key with the ${scope} scope as "Authorization: Bearer <key>"`;
+    return { denied: apiError('UNAUTHORIZED', 'API key required', details, { 'WWW-Authenticate': 'Bearer' }) };
+  }
+
+  if (isAdminToken(token)) {
+    return {};
+  }
+
+  const apiKey = store.verify(token);
+  if (!apiKey) {
+    return invalidKey();
+  }
+
+  if (!hasScope(apiKey, scope)) {
+    return { denied: apiError('FORBIDDEN', `API key "${apiKey.name}" does not have the ${scope} scope`) };
+  }
+
+  return { apiKey };
+}
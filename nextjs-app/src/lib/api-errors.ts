@@ -0,0 +1,146 @@
+/**
+ * API Errors - The JSON error envelope every route answers with, and how
+ * failures from the LLM providers map onto HTTP statuses
+ */
+
+import { NextResponse } from 'next/server';
+import { APICallError } from 'ai';
+import { BudgetExceededError } from './budget';
+import { QueueFullError } from './generation-queue';
+import { describeLLMError } from './llm-provider';
+
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_PERSONA_PAIR'
+  | 'NOT_FOUND'
+  | 'ALREADY_EXISTS'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'BUDGET_EXCEEDED'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'SERVER_BUSY'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_ERROR'
+  | 'PROVIDER_NOT_CONFIGURED'
+  | 'INTERNAL_ERROR';
+
+const STATUS_CODES: Record<ApiErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_PERSONA_PAIR: 400,
+  NOT_FOUND: 404,
+  ALREADY_EXISTS: 409,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  BUDGET_EXCEEDED: 402,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  SERVER_BUSY: 503,
+  UPSTREAM_RATE_LIMITED: 429,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_ERROR: 502,
+  PROVIDER_NOT_CONFIGURED: 500,
+  INTERNAL_ERROR: 500
+};
+
+/**
+ * What every failed API call returns: a message for people, a code for
+ * programs, and optionally the specifics
+ */
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  details?: string | string[];
+}
+
+export function apiError(
+  code: ApiErrorCode,
+  error: string,
+  details?: string | string[],
+  headers?: HeadersInit
+): NextResponse<ApiErrorBody> {
+  return NextResponse.json(
+    { error, code, ...(details !== undefined && { details }) },
+    { status: STATUS_CODES[code], headers }
+  );
+}
+
+interface UpstreamFailure {
+  statusCode?: number;
+  code?: string;
+  retryAfterSeconds?: number;
+  responseHeaders?: Record<string, string>;
+  lastError?: unknown;
+}
+
+/**
+ * GrokClient throws plain objects carrying the upstream statusCode, or code
+ * TIMEOUT. The AI SDK throws errors with a statusCode and the response
+ * headers, wrapped in a RetryError once its retries run out.
+ */
+function getUpstreamFailure(error: unknown): UpstreamFailure | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const failure = error as UpstreamFailure;
+  if (failure.lastError !== undefined) return getUpstreamFailure(failure.lastError);
+
+  const retryAfter = Number(failure.responseHeaders?.['retry-after'] ?? NaN);
+  if (failure.retryAfterSeconds === undefined && Number.isFinite(retryAfter)) {
+    return { ...failure, retryAfterSeconds: retryAfter };
+  }
+  return failure;
+}
+
+/**
+ * Sort a generation failure into an error code, keeping the upstream's own
+ * message as the details
+ */
+export function classifyGenerationError(error: unknown, fallbackMessage = 'Failed to generate debate'): {
+  code: ApiErrorCode;
+  error: string;
+  details: string;
+  retryAfterSeconds?: number;
+} {
+  const details = describeLLMError(error);
+
+  if (error instanceof BudgetExceededError) {
+    return { code: 'BUDGET_EXCEEDED', error: 'Budget exceeded', details };
+  }
+  if (error instanceof QueueFullError) {
+    return { code: 'SERVER_BUSY', error: 'Too many debates are being generated', details };
+  }
+
+  const failure = getUpstreamFailure(error);
+  if (failure?.statusCode === 429) {
+    return {
+      code: 'UPSTREAM_RATE_LIMITED',
+      error: 'The LLM provider is rate limiting requests',
+      details,
+      retryAfterSeconds: failure.retryAfterSeconds
+    };
+  }
+  if (failure?.code === 'TIMEOUT') {
+    return { code: 'UPSTREAM_TIMEOUT', error: 'The LLM provider timed out', details };
+  }
+  if (typeof failure?.statusCode === 'number') {
+    return { code: 'UPSTREAM_ERROR', error: 'The LLM provider returned an error', details };
+  }
+  // The AI SDK's error for a call that never got a response, e.g. a local server that isn't running
+  if (APICallError.isInstance(failure)) {
+    return { code: 'UPSTREAM_ERROR', error: 'The LLM provider could not be reached', details };
+  }
+
+  return { code: 'INTERNAL_ERROR', error: fallbackMessage, details };
+}
+
+/**
+ * The response for a generation that failed, with Retry-After when the
+ * provider said how long to wait
+ */
+export function generationErrorResponse(error: unknown, fallbackMessage?: string): NextResponse<ApiErrorBody> {
+  const failure = classifyGenerationError(error, fallbackMessage);
+  const headers = failure.retryAfterSeconds !== undefined
+    ? { 'Retry-After': String(failure.retryAfterSeconds) }
+    : undefined;
+  return apiError(failure.code, failure.error, failure.details, headers);
+}
@@ -0,0 +1,170 @@
+/**
+ * API Key Store - Keys issued for programmatic access, kept in a local JSON
+ * file as SHA-256 hashes so the file never holds a usable key
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export const API_KEY_SCOPES = ['generate', 'read', 'admin'] as const;
+
+/**
+ * What a key may do: generate debates, read debates and personas, or
+ * administer the server. An admin key may do all three.
+ */
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+/**
+ * A key as listed and recorded against debates; everything but the secret
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  /** The start of the key, so its holder can tell which one it is */
+  prefix: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+interface StoredApiKey extends ApiKey {
+  keyHash: string;
+}
+
+const KEY_PREFIX = 'dgk_';
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function toApiKey(stored: StoredApiKey): ApiKey {
+  const { id, name, scopes, prefix, createdAt, revokedAt } = stored;
+  return { id, name, scopes, prefix, createdAt, ...(revokedAt && { revokedAt }) };
+}
+
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+}
+
+export class ApiKeyStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  list(): ApiKey[] {
+    return this.read().map(toApiKey);
+  }
+
+  /**
+   * Create a key. The key itself is returned only here; the store keeps its hash.
+   */
+  issue(name: string, scopes: ApiKeyScope[], date: Date = new Date()): { apiKey: ApiKey; key: string } {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const stored: StoredApiKey = {
+      id: `key_${crypto.randomBytes(6).toString('hex')}`,
+      name,
+      scopes,
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      createdAt: date.toISOString(),
+      keyHash: hashKey(key)
+    };
+
+    this.write([...this.read(), stored]);
+    return { apiKey: toApiKey(stored), key };
+  }
+
+  /**
+   * The key a bearer token belongs to, unless it is unknown or revoked
+   */
+  verify(key: string): ApiKey | undefined {
+    const hash = Buffer.from(hashKey(key), 'hex');
+    const match = this.read().find(stored =>
+      crypto.timingSafeEqual(Buffer.from(stored.keyHash, 'hex'), hash)
+    );
+    return match && !match.revokedAt ? toApiKey(match) : undefined;
+  }
+
+  /**
+   * Stop a key from working. It stays listed so debates recorded against it
+   * can still be traced to a name.
+   */
+  revoke(id: string, date: Date = new Date()): ApiKey | undefined {
+    const keys = this.read();
+    const stored = keys.find(key => key.id === id);
+    if (!stored) {
+      return undefined;
+    }
+
+    stored.revokedAt ??= date.toISOString();
+    this.write(keys);
+    return toApiKey(stored);
+  }
+
+  private read(): StoredApiKey[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      return Array.isArray(data.keys) ? data.keys : [];
+    } catch (error) {
+      console.error(`Failed to read API key store at ${this.filePath}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Write via a temp file so a crash never leaves a half-written store
+   */
+  private write(keys: StoredApiKey[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ keys }, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Check a request to issue a key: a name, and at least one known scope
+ */
+export function validateNewApiKey(input: unknown): { request?: { name: string; scopes: ApiKeyScope[] }; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Request body must be a JSON object'] };
+  }
+
+  const { name, scopes } = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof name !== 'string' || !name.trim()) {
+    errors.push('name is required');
+  } else if (name.trim().length > 100) {
+    errors.push('name must be at most 100 characters');
+  }
+
+  const isScope = (scope: unknown): scope is ApiKeyScope => API_KEY_SCOPES.includes(scope as ApiKeyScope);
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isScope)) {
+    errors.push(`scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    request: { name: (name as string).trim(), scopes: [...new Set(scopes as ApiKeyScope[])] },
+    errors
+  };
+}
+
+// Export factory function for easy initialization
+export function createApiKeyStore(filePath?: string): ApiKeyStore {
+  return new ApiKeyStore(
+    filePath || process.env.API_KEY_STORE_PATH || path.join(process.cwd(), 'data', 'api-keys.json')
+  );
+}
+
+export default ApiKeyStore;
@@ -0,0 +1,55 @@
+/**
+ * Bias - How strongly each persona argues, from measured (0) to fiery (1).
+ * Bias sets the sampling temperature and decides whether the voice pass runs,
+ * so the form can preview both before anything is generated.
+ */
+
+import { z } from 'zod';
+import { ExpertiseLevel, VoiceMode } from '../types/personas';
+
+export const DEFAULT_BIAS_LEVEL = 0.5;
+
+export const VOICE_MODES: VoiceMode[] = ['none', 'quick', 'llm'];
+export const DEFAULT_VOICE_MODE: VoiceMode = 'llm';
+
+// The voice pass only runs for personas above this bias, on essays longer than the minimum length
+export const VOICE_ENHANCEMENT_MIN_BIAS = 0.3;
+export const VOICE_ENHANCEMENT_MIN_LENGTH = 500;
+
+/**
+ * Sampling temperature for a persona: 0.65-0.9 for experts, 0.7-0.95 for grassroots voices
+ */
+export function getBiasTemperature(expertiseLevel: string, biasLevel: number): number {
+  const baseTemp = expertiseLevel === ExpertiseLevel.EXPERT ? 0.65 : 0.7;
+  return baseTemp + (biasLevel * 0.25);
+}
+
+/**
+ * Whether the voice pass will run on an essay. Without a length, only the bias is checked.
+ */
+export function willEnhanceVoice(biasLevel: number, contentLength?: number, voiceMode: VoiceMode = DEFAULT_VOICE_MODE): boolean {
+  return voiceMode !== 'none' &&
+    biasLevel > VOICE_ENHANCEMENT_MIN_BIAS &&
+    (contentLength === undefined || contentLength > VOICE_ENHANCEMENT_MIN_LENGTH);
+}
+
+export function describeBiasLevel(biasLevel: number): string {
+  if (biasLevel < 0.25) return 'Measured';
+  if (biasLevel < 0.5) return 'Firm';
+  if (biasLevel < 0.75) return 'Pointed';
+  return 'Fiery';
+}
+
+const biasLevel = z.number({ error: 'must be a number from 0 to 1' })
+  .min(0, { error: 'must be a number from 0 to 1' })
+  .max(1, { error: 'must be a number from 0 to 1' });
+
+/**
+ * A request's bias levels. A side left out gets the default.
+ */
+export const biasLevelsSchema = z.strictObject({
+  persona1: biasLevel.default(DEFAULT_BIAS_LEVEL),
+  persona2: biasLevel.default(DEFAULT_BIAS_LEVEL),
+}, { error: 'must be an object with persona1 and/or persona2' })
+  .nullish()
+  .transform(biasLevels => biasLevels ?? undefined);
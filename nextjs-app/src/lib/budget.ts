@@ -0,0 +1,294 @@
+/**
+ * Budget - Checks each LLM call's estimated cost against per-debate and
+ * per-day limits before it is made, falling back to cheaper calls or refusing
+ */
+
+import { z } from 'zod';
+import { BudgetLimits, BudgetReport } from '../types/personas';
+import type { LLMDeltaHandler, LLMGenerateOptions, LLMProvider, LLMResponse } from './llm-provider';
+import { DEFAULT_SEARCH_PROFILE } from './search-profile';
+import { SpendStore, createSpendStore } from './spend-store';
+
+export class BudgetExceededError extends Error {
+  readonly code = 'BUDGET_EXCEEDED';
+  readonly statusCode = 402;
+  readonly estimatedCost: number;
+  readonly remaining: number;
+
+  constructor(message: string, estimatedCost: number, remaining: number) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    this.estimatedCost = estimatedCost;
+    this.remaining = remaining;
+  }
+}
+
+/**
+ * Rough token count for a prompt, before the provider reports real usage
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Worst-case cost of a call: the whole prompt, every allowed output token and
+ * every allowed search source. Pass completionTokens to cost a call that
+ * stopped partway.
+ */
+export function estimateCallCost(
+  provider: LLMProvider,
+  options: LLMGenerateOptions,
+  completionTokens: number = options.maxTokens ?? 2000
+): number {
+  const searchPrompt = options.useSearch ? options.searchPrompt ?? '' : '';
+  const promptTokens = estimateTokens(`${options.systemPrompt ?? ''}${options.prompt}${searchPrompt}`);
+  const searchSources = options.useSearch
+    ? (options.searchProfile ?? DEFAULT_SEARCH_PROFILE).maxSources
+    : 0;
+
+  return provider.estimateCost(
+    { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    searchSources,
+    options.model
+  );
+}
+
+export class DebateBudget {
+  readonly limits: BudgetLimits;
+  private spendStore: SpendStore;
+  private spent = 0;
+  // Estimates for this debate's calls in flight, so parallel calls can't both
+  // take the last of the budget. The spend store holds them for the daily limit.
+  private reserved = 0;
+  private fallbacks: string[] = [];
+
+  constructor(limits: BudgetLimits, spendStore: SpendStore) {
+    this.limits = limits;
+    this.spendStore = spendStore;
+  }
+
+  /**
+   * Dollars left before either limit is hit
+   */
+  remaining(): number {
+    return Math.min(this.remainingPerDebate(), this.remainingPerDay());
+  }
+
+  isExhausted(): boolean {
+    return this.remaining() <= 0;
+  }
+
+  /**
+   * Why nothing can be spent, naming the limit that was hit, or undefined
+   * while there is budget left
+   */
+  exhaustedLimit(): string | undefined {
+    if (this.remainingPerDay() <= 0) {
+      return `The daily spending limit of $${this.limits.perDay} has been reached`;
+    }
+    if (this.remainingPerDebate() <= 0) {
+      return `The per-debate spending limit of $${this.limits.perDebate} has been reached`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Pick the first version of the call that fits: as asked, then without live
+   * search, then on the provider's inexpensive default model
+   */
+  plan(provider: LLMProvider, options: LLMGenerateOptions): { options: LLMGenerateOptions; estimatedCost: number } {
+    const remaining = this.remaining();
+    const candidates: Array<{ options: LLMGenerateOptions; fallback?: string }> = [{ options }];
+    const model = options.model ?? provider.defaultModel;
+
+    if (options.useSearch) {
+      candidates.push({
+        options: { ...options, useSearch: false },
+        fallback: `Dropped live search for a ${model} call to stay within budget`
+      });
+    }
+    if (model !== provider.defaultModel) {
+      candidates.push({
+        options: { ...options, useSearch: false, model: provider.defaultModel },
+        fallback: `Switched a call from ${model} to ${provider.defaultModel} to stay within budget`
+      });
+    }
+
+    for (const candidate of candidates) {
+      const estimatedCost = estimateCallCost(provider, candidate.options);
+      if (estimatedCost <= remaining) {
+        if (candidate.fallback) {
+          console.warn(candidate.fallback);
+          this.fallbacks.push(candidate.fallback);
+        }
+        return { options: candidate.options, estimatedCost };
+      }
+    }
+
+    const cheapest = estimateCallCost(provider, candidates[candidates.length - 1].options);
+    throw new BudgetExceededError(
+      `Budget exceeded: the next call would cost up to $${cheapest.toFixed(4)} but only $${Math.max(remaining, 0).toFixed(4)} is left`,
+      cheapest,
+      Math.max(remaining, 0)
+    );
+  }
+
+  reserve(amount: number): void {
+    this.reserved += amount;
+    this.spendStore.reserve(amount);
+  }
+
+  /**
+   * Swap a call's reservation for what it actually cost
+   */
+  settle(reservation: number, actualCost: number): void {
+    this.reserved -= reservation;
+    this.spendStore.release(reservation);
+    this.spent += actualCost;
+    this.spendStore.addSpend(actualCost);
+  }
+
+  getReport(): BudgetReport {
+    return { ...this.limits, spent: this.spent, fallbacks: [...this.fallbacks] };
+  }
+
+  private remainingPerDebate(): number {
+    return this.limits.perDebate !== undefined
+      ? this.limits.perDebate - this.spent - this.reserved
+      : Infinity;
+  }
+
+  private remainingPerDay(): number {
+    return this.limits.perDay !== undefined
+      ? this.limits.perDay - this.spendStore.getDailySpend() - this.spendStore.getReserved()
+      : Infinity;
+  }
+
+  /**
+   * Wrap a provider so every call it makes is checked against this budget
+   */
+  wrap(provider: LLMProvider): LLMProvider {
+    return new BudgetedProvider(provider, this);
+  }
+}
+
+/**
+ * Provider decorator that plans each call against the budget and records its cost
+ */
+export class BudgetedProvider implements LLMProvider {
+  private provider: LLMProvider;
+  private budget: DebateBudget;
+
+  constructor(provider: LLMProvider, budget: DebateBudget) {
+    this.provider = provider;
+    this.budget = budget;
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get defaultModel(): string {
+    return this.provider.defaultModel;
+  }
+
+  generate(options: LLMGenerateOptions): Promise<LLMResponse> {
+    return this.call(options, planned => this.provider.generate(planned));
+  }
+
+  stream(options: LLMGenerateOptions, onDelta: LLMDeltaHandler): Promise<LLMResponse> {
+    let streamed = '';
+    return this.call(
+      options,
+      planned => this.provider.stream(planned, delta => {
+        streamed += delta;
+        onDelta(delta);
+      }),
+      () => streamed
+    );
+  }
+
+  estimateCost(usage?: LLMResponse['usage'], searchSources?: number, model?: string): number {
+    return this.provider.estimateCost(usage, searchSources, model);
+  }
+
+  selectModel(topic: string, context?: string): string {
+    return this.provider.selectModel(topic, context);
+  }
+
+  /**
+   * Make a call within its reservation. A call that fails may already have
+   * been billed, so it is charged for the text it streamed, or for its whole
+   * estimate when nothing tells how far it got.
+   */
+  private async call(
+    options: LLMGenerateOptions,
+    send: (options: LLMGenerateOptions) => Promise<LLMResponse>,
+    streamedSoFar?: () => string
+  ): Promise<LLMResponse> {
+    const { options: planned, estimatedCost } = this.budget.plan(this.provider, options);
+    this.budget.reserve(estimatedCost);
+
+    let actualCost = estimatedCost;
+    try {
+      const response = await send(planned);
+      actualCost = this.provider.estimateCost(response.usage, response.sources?.length ?? 0, response.model);
+      return response;
+    } catch (error) {
+      if (streamedSoFar) {
+        actualCost = estimateCallCost(this.provider, planned, estimateTokens(streamedSoFar()));
+      }
+      throw error;
+    } finally {
+      this.budget.settle(estimatedCost, actualCost);
+    }
+  }
+}
+
+/**
+ * Add a later run on a debate, such as regenerating one side, to its budget
+ * report. The limits are the ones the later run was held to.
+ */
+export function addToBudgetReport(previous: BudgetReport | undefined, report: BudgetReport): BudgetReport {
+  return previous
+    ? { ...report, spent: previous.spent + report.spent, fallbacks: [...previous.fallbacks, ...report.fallbacks] }
+    : report;
+}
+
+function parseLimit(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+}
+
+const dollars = z.number({ error: 'must be a positive number of dollars' })
+  .positive({ error: 'must be a positive number of dollars' });
+
+/**
+ * A request's spending limits. Amounts are in US dollars.
+ */
+export const budgetLimitsSchema = z.strictObject({
+  perDebate: dollars.optional(),
+  perDay: dollars.optional(),
+}, { error: 'must be an object with perDebate and/or perDay' })
+  .nullish()
+  .transform(budget => budget ?? undefined);
+
+// Export factory function for easy initialization
+export function createDebateBudget(requested: BudgetLimits = {}, spendStore: SpendStore = createSpendStore()): DebateBudget {
+  // A request can tighten the server's limits but never loosen them
+  const tighter = (serverLimit?: number, requestedLimit?: number) =>
+    serverLimit === undefined ? requestedLimit
+      : requestedLimit === undefined ? serverLimit
+      : Math.min(serverLimit, requestedLimit);
+
+  return new DebateBudget(
+    {
+      perDebate: tighter(parseLimit(process.env.DEBATE_BUDGET_USD), requested.perDebate),
+      perDay: tighter(parseLimit(process.env.DAILY_BUDGET_USD), requested.perDay)
+    },
+    spendStore
+  );
+}
+
+export default DebateBudget;
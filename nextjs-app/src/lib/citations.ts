@@ -0,0 +1,134 @@
+/**
+ * Citations - Turns the URLs a model cites inline into numbered [n] markers
+ * linked to structured source objects, and marks cited claims for rendering
+ */
+
+import { SourceCitation } from '../types/personas';
+
+export interface SearchSource {
+  url: string;
+  title?: string;
+  snippet?: string;
+}
+
+const URL_PATTERN = /^https?:\/\/\S+$/;
+
+// [text](https://...) - also catches Grok's own [[1]](https://...) style
+const MARKDOWN_LINK_PATTERN = /\[((?:[^\[\]]|\[[^\]]*\])*)\]\((https?:\/\/[^\s)]+)\)/g;
+
+// [https://...] or [https://..., https://...]
+const BRACKETED_URLS_PATTERN = /\[\s*(https?:\/\/[^\s\],]+(?:\s*,\s*https?:\/\/[^\s\],]+)*)\s*\]/g;
+
+// One or more adjacent markers: [1], [1][2], [1, 2]
+const MARKER_GROUP_PATTERN = /(?:[ \t]*\[\d+(?:\s*,\s*\d+)*\])+/g;
+
+function normalizeUrl(url: string): string {
+  return url.replace(/[.,;:]+$/, '').replace(/\/+$/, '');
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Replace inline URL citations with [n] markers and return the numbered sources.
+ * Sources are numbered in order of first citation; search results the text
+ * never cites are appended after them. Pass `known` to continue the numbering
+ * of an earlier turn by the same persona.
+ */
+export function linkCitations(
+  content: string,
+  searchSources: SearchSource[] = [],
+  known: SourceCitation[] = []
+): { content: string; sources: SourceCitation[] } {
+  const sources = known.map(source => ({ ...source }));
+  const byUrl = new Map(searchSources.map(source => [normalizeUrl(source.url), source]));
+
+  const indexFor = (rawUrl: string): number => {
+    const url = normalizeUrl(rawUrl);
+    const existing = sources.find(source => normalizeUrl(source.url) === url);
+    if (existing) return existing.index;
+
+    const match = byUrl.get(url);
+    const source: SourceCitation = {
+      index: sources.length + 1,
+      url: match?.url ?? url,
+      title: match?.title || hostnameOf(url),
+      snippet: match?.snippet || ''
+    };
+    sources.push(source);
+    return source.index;
+  };
+
+  const linked = content
+    .replace(MARKDOWN_LINK_PATTERN, (_, text: string, url: string) => {
+      const marker = `[${indexFor(url)}]`;
+      const label = text.trim();
+      // Bare numeric or URL labels carry no meaning of their own
+      return /^\[?\d+\]?$/.test(label) || URL_PATTERN.test(label) ? marker : `${label} ${marker}`;
+    })
+    .replace(BRACKETED_URLS_PATTERN, (_, urls: string) =>
+      urls.split(',').map(url => `[${indexFor(url.trim())}]`).join('')
+    );
+
+  for (const source of searchSources) {
+    if (URL_PATTERN.test(source.url)) {
+      indexFor(source.url);
+    }
+  }
+
+  return { content: linked, sources };
+}
+
+/**
+ * Wrap each cited claim and its markers in <cite data-sources="1,2"> so the
+ * markdown renderer can attach the sources to the claim. A claim runs from the
+ * start of its sentence to the marker; markers that don't match a known source
+ * are left alone.
+ */
+export function markCitedClaims(content: string, sourceCount: number): string {
+  let result = '';
+  let cursor = 0;
+
+  for (const match of content.matchAll(MARKER_GROUP_PATTERN)) {
+    const markerStart = match.index!;
+    const indexes = [...match[0].matchAll(/\d+/g)].map(m => Number(m[0]));
+    if (indexes.some(index => index < 1 || index > sourceCount)) continue;
+
+    const claimStart = findClaimStart(content, cursor, markerStart);
+    const claim = content.slice(claimStart, markerStart).trim();
+    if (!claim) continue;
+
+    const leading = content.slice(cursor, claimStart);
+    const padding = content.slice(claimStart, markerStart).match(/^\s*/)![0];
+    result += `${leading}${padding}<cite data-sources="${indexes.join(',')}">${claim}</cite>`;
+    cursor = markerStart + match[0].length;
+  }
+
+  return result + content.slice(cursor);
+}
+
+/**
+ * Walk back from a marker to the start of its sentence, staying on the same
+ * line and after any list, heading or quote prefix
+ */
+function findClaimStart(content: string, floor: number, markerStart: number): number {
+  // "A claim. [1]" cites the sentence that just ended, so skip its terminator
+  let end = markerStart;
+  while (end > floor && /[\s.!?]/.test(content[end - 1])) end--;
+
+  let start = end;
+  while (start > floor) {
+    const previous = content[start - 1];
+    if (previous === '\n') break;
+    if (/[.!?]/.test(previous) && /\s/.test(content[start] ?? '')) break;
+    start--;
+  }
+
+  const prefix = content.slice(start, end).match(/^\s*(?:[-*+>]|#{1,6}|\d+\.)\s+/);
+  return start + (prefix ? prefix[0].length : 0);
+}
@@ -0,0 +1,246 @@
+/**
+ * Debate Export - Turns a saved debate into a print-ready document. The debate
+ * is first reduced to one format-neutral outline, which each exporter in
+ * ./exporters renders, so every format carries the same content.
+ */
+
+import { DebateResult, DebateSpeaker, PersonaProfile, SourceCitation } from '../types/personas';
+import { DEFAULT_BIAS_LEVEL, DEFAULT_VOICE_MODE, describeBiasLevel } from './bias';
+import { renderDocx } from './exporters/docx-exporter';
+import { renderHtml } from './exporters/html-exporter';
+import { renderMarkdown } from './exporters/markdown-exporter';
+import { renderPdf } from './exporters/pdf-exporter';
+
+export type ExportFormat = 'pdf' | 'docx' | 'html' | 'md' | 'json';
+export type ExportLayout = 'side-by-side' | 'sequential';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'docx', 'html', 'md', 'json'];
+export const EXPORT_LAYOUTS: ExportLayout[] = ['side-by-side', 'sequential'];
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export type ExportBlock =
+  | { type: 'heading'; level: number; runs: TextRun[] }
+  | { type: 'paragraph'; runs: TextRun[] }
+  | { type: 'list'; ordered: boolean; items: TextRun[][] };
+
+export interface ExportPersona {
+  slot: DebateSpeaker;
+  name: string;
+  displayName: string;
+  leaning: string;
+  expertise: string;
+  /** Who the persona is, from their profile */
+  bio: string;
+  handle?: string;
+  title: string;
+  /** The essay as written, for formats that keep markdown */
+  markdown: string;
+  blocks: ExportBlock[];
+  sources: SourceCitation[];
+}
+
+export interface ExportDocument {
+  debateId: string;
+  topic: string;
+  context?: string;
+  date: string;
+  personas: [ExportPersona, ExportPersona];
+  moderator?: {
+    question: string;
+    summary: ExportBlock[];
+    summaryMarkdown: string;
+  };
+  metadata: Array<{ label: string; value: string }>;
+}
+
+export interface ExportedFile {
+  body: Uint8Array<ArrayBuffer> | string;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+/**
+ * Split **bold** and *italic* spans into runs; links keep only their text
+ */
+export function parseInline(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const plain = text.replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '$1');
+  const pattern = /(\*\*\*|\*\*|\*|___|__|_(?=\S))([\s\S]+?)\1/g;
+  let last = 0;
+
+  for (const match of plain.matchAll(pattern)) {
+    if (match.index > last) runs.push({ text: plain.slice(last, match.index) });
+    const marker = match[1];
+    runs.push({
+      text: match[2],
+      bold: marker.length >= 2 || undefined,
+      italic: marker.length !== 2 || undefined
+    });
+    last = match.index + match[0].length;
+  }
+  if (last < plain.length) runs.push({ text: plain.slice(last) });
+
+  return runs.filter(run => run.text);
+}
+
+/**
+ * Headings, paragraphs and lists from markdown. Anything fancier, like tables
+ * or code, is kept as plain paragraphs.
+ */
+export function parseMarkdownBlocks(markdown: string): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+
+  for (const chunk of markdown.split(/\n[ \t]*\n/)) {
+    const lines = chunk.split('\n').map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) continue;
+
+    const heading = lines[0].match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, runs: parseInline(heading[2]) });
+      if (lines.length > 1) blocks.push({ type: 'paragraph', runs: parseInline(lines.slice(1).join(' ')) });
+      continue;
+    }
+
+    const ordered = lines.every(line => /^\d+[.)]\s+/.test(line));
+    if (ordered || lines.every(line => /^[-*+]\s+/.test(line))) {
+      blocks.push({
+        type: 'list',
+        ordered,
+        items: lines.map(line => parseInline(line.replace(/^(?:\d+[.)]|[-*+])\s+/, '')))
+      });
+      continue;
+    }
+
+    blocks.push({ type: 'paragraph', runs: parseInline(lines.join(' ')) });
+  }
+
+  return blocks;
+}
+
+export function runsToText(runs: TextRun[]): string {
+  return runs.map(run => run.text).join('');
+}
+
+function buildPersona(
+  slot: DebateSpeaker,
+  info: PersonaProfile,
+  content: DebateResult['personas'][DebateSpeaker]['content']
+): ExportPersona {
+  const blocks = parseMarkdownBlocks(content.content);
+  // The essay's own title is printed above it, so don't repeat it as its first heading
+  if (blocks[0]?.type === 'heading' && runsToText(blocks[0].runs) === content.title) {
+    blocks.shift();
+  }
+
+  return {
+    slot,
+    name: info.characterName,
+    displayName: info.displayName,
+    leaning: info.politicalLeaning,
+    expertise: info.expertiseLevel,
+    bio: [info.background, info.description].filter(Boolean).join('. '),
+    handle: info.socialMediaHandle || undefined,
+    title: content.title,
+    markdown: content.content,
+    blocks,
+    sources: content.sources ?? (content.sourcesUsed ?? []).map((url, index) => ({
+      index: index + 1,
+      url,
+      title: url.replace(/^https?:\/\/(www\.)?/, ''),
+      snippet: ''
+    }))
+  };
+}
+
+/**
+ * The format-neutral outline every exporter renders
+ */
+export function buildExportDocument(debate: DebateResult): ExportDocument {
+  const { personas, generationMetadata: metadata } = debate;
+  const slots = ['persona1', 'persona2'] as const;
+  const [first, second] = slots.map(slot => buildPersona(slot, personas[slot].info, personas[slot].content));
+  const describeSide = (slot: DebateSpeaker, value: string) => `${personas[slot].info.characterName}: ${value}`;
+
+  const formatModel = (slot: DebateSpeaker) => {
+    const provider = metadata.providersUsed?.[slot] ?? personas[slot].content.providerUsed;
+    return provider ? `${provider}/${metadata.modelsUsed[slot]}` : metadata.modelsUsed[slot];
+  };
+  const formatBias = (slot: DebateSpeaker) => {
+    const level = metadata.biasLevels?.[slot] ?? DEFAULT_BIAS_LEVEL;
+    return `${describeBiasLevel(level)} (${level.toFixed(2)})`;
+  };
+
+  const metadataRows = [
+    { label: 'Format', value: debate.format === 'rounds' ? 'Rounds with rebuttals' : 'Side-by-side essays' },
+    { label: 'Models', value: slots.map(slot => describeSide(slot, formatModel(slot))).join('; ') },
+    { label: 'Tone', value: slots.map(slot => describeSide(slot, formatBias(slot))).join('; ') },
+    { label: 'Voice pass', value: metadata.voiceMode ?? DEFAULT_VOICE_MODE },
+    { label: 'Live search', value: metadata.twitterSearchEnabled ? 'On' : 'Off' },
+    { label: 'Generation time', value: `${metadata.generationTimeSeconds.toFixed(1)}s` },
+  ];
+  if (debate.costAnalysis) {
+    metadataRows.push({ label: 'Estimated cost', value: `$${debate.costAnalysis.totalEstimatedCost.toFixed(4)}` });
+  }
+  metadataRows.push({ label: 'Debate ID', value: debate.debateId });
+
+  return {
+    debateId: debate.debateId,
+    topic: debate.topic,
+    context: debate.context,
+    date: new Date(debate.timestamp).toISOString().slice(0, 10),
+    personas: [first, second],
+    moderator: debate.moderator && {
+      question: debate.moderator.framingQuestion.content,
+      summary: parseMarkdownBlocks(debate.moderator.summary.content),
+      summaryMarkdown: debate.moderator.summary.content
+    },
+    metadata: metadataRows
+  };
+}
+
+function exportFilename(debate: DebateResult, format: ExportFormat): string {
+  const slug = debate.topic.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 80) || 'debate';
+  return `${slug}_debate.${format}`;
+}
+
+/**
+ * Render a debate in the given format. Markdown and JSON always list the
+ * essays one after the other; the other formats follow the layout.
+ */
+export async function exportDebate(
+  debate: DebateResult,
+  format: ExportFormat,
+  layout: ExportLayout = 'side-by-side'
+): Promise<ExportedFile> {
+  const file = (body: Uint8Array<ArrayBuffer> | string) => ({
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: exportFilename(debate, format)
+  });
+
+  switch (format) {
+    case 'json':
+      return file(JSON.stringify(debate, null, 2));
+    case 'md':
+      return file(renderMarkdown(buildExportDocument(debate)));
+    case 'html':
+      return file(renderHtml(buildExportDocument(debate), layout));
+    case 'pdf':
+      return file(await renderPdf(buildExportDocument(debate), layout));
+    case 'docx':
+      return file(await renderDocx(buildExportDocument(debate), layout));
+  }
+}
@@ -4,36 +4,124 @@
 
 import {
   PersonaProfile,
-  PersonaType,
   PersonaResponse,
   DebateConfig,
   DebateResult,
+  DebateSpeaker,
+  DebateTurn,
+  DebateTurnPhase,
   ExpertiseLevel,
+  FactCheckClaim,
+  FactCheckReport,
+  ModeratorContribution,
+  ModeratorReport,
+  PairingPolicy,
+  SearchProfile,
+  SourceCitation,
+  TokenUsage,
+  VoiceDiffSection,
+  VoiceMode,
 } from '../types/personas';
-import { PersonaRegistry } from './persona-registry';
-import GrokClient, { GrokResponse } from './grok-client';
+import { PersonaRegistry, describePairingPolicy, getDefaultPairingPolicy } from './persona-registry';
+import { createPersonaStore } from './persona-store';
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMDeltaHandler,
+  createLLMProvider,
+  isLLMProviderName,
+} from './llm-provider';
 import { VoiceEnhancer } from './voice-enhancer';
+import { DebateModerator } from './debate-moderator';
+import { FactChecker } from './fact-checker';
+import { linkCitations } from './citations';
+import { resolveSearchProfile } from './search-profile';
+import { DEFAULT_BIAS_LEVEL, DEFAULT_VOICE_MODE, getBiasTemperature, willEnhanceVoice } from './bias';
+import { DEBATE_SCHEMA_VERSION } from './debate-schema';
+
+/**
+ * Receives incremental essay text as it streams in, tagged with the persona slot
+ */
+export type DebateDeltaHandler = (slot: DebateSpeaker, delta: string) => void;
+
+/**
+ * Id for a new debate, also used as its file name in the debate store
+ */
+export function createDebateId(persona1Id: string, persona2Id: string): string {
+  return `${Date.now()}_${persona1Id}_${persona2Id}`;
+}
+
+const DEFAULT_REBUTTAL_ROUNDS = 2;
+export const MAX_REBUTTAL_ROUNDS = 5;
+
+/**
+ * The provider and model resolved for one persona
+ */
+interface PersonaModel {
+  provider: LLMProvider;
+  model: string;
+}
+
+interface TurnRequest {
+  slot: DebateSpeaker;
+  persona: PersonaProfile;
+  opponent: PersonaProfile;
+  phase: DebateTurnPhase;
+  round: number;
+  turnIndex: number;
+  biasLevel: number;
+  personaModel: PersonaModel;
+  opponentTurn?: DebateTurn;
+  moderatorQuestion?: string;
+  knownSources?: SourceCitation[];
+  /** Omitted when live search is off */
+  searchProfile?: SearchProfile;
+}
 
 export class DebateGenerator {
   private personaRegistry: PersonaRegistry;
-  private grokClient: GrokClient;
+  private provider: LLMProvider;
+  private providerFactory: (name: LLMProviderName) => LLMProvider;
+  private providerCache = new Map<string, LLMProvider>();
   private voiceEnhancer: VoiceEnhancer;
+  private moderator: DebateModerator;
+  private factChecker: FactChecker;
 
-  constructor(grokClient: GrokClient) {
-    this.personaRegistry = new PersonaRegistry();
-    this.grokClient = grokClient;
-    this.voiceEnhancer = new VoiceEnhancer(grokClient);
+  /**
+   * The default provider writes both sides unless config.personaModels picks
+   * another one; providerFactory builds those on demand.
+   */
+  constructor(
+    provider: LLMProvider,
+    personaRegistry?: PersonaRegistry,
+    providerFactory: (name: LLMProviderName) => LLMProvider = createLLMProvider
+  ) {
+    this.personaRegistry = personaRegistry || new PersonaRegistry(createPersonaStore());
+    this.provider = provider;
+    this.providerFactory = providerFactory;
+    this.providerCache.set(provider.name, provider);
+    this.voiceEnhancer = new VoiceEnhancer(provider);
+    this.moderator = new DebateModerator(provider);
+    this.factChecker = new FactChecker(provider);
   }
 
   /**
-   * Generate a debate between two personas
+   * Generate a debate between two personas.
+   * When onDelta is provided, both essays are streamed token by token.
+   * Aborting the signal cancels the LLM calls in flight and fails the debate.
    */
-  async generateDebate(config: DebateConfig): Promise<DebateResult> {
+  async generateDebate(
+    config: DebateConfig,
+    onDelta?: DebateDeltaHandler,
+    signal?: AbortSignal
+  ): Promise<DebateResult> {
     const startTime = Date.now();
+    const debateId = config.debateId ?? createDebateId(config.persona1Id, config.persona2Id);
 
     // Validate persona selection
-    if (!this.personaRegistry.validatePersonaPair(config.persona1Id, config.persona2Id)) {
-      throw new Error('Invalid persona selection: personas must be from opposing political sides');
+    const pairingPolicy = config.pairingPolicy ?? getDefaultPairingPolicy();
+    if (!this.personaRegistry.validatePersonaPair(config.persona1Id, config.persona2Id, pairingPolicy)) {
+      throw new Error(`Invalid persona selection: ${describePairingPolicy(pairingPolicy)}`);
     }
 
     // Get persona profiles
@@ -46,42 +134,115 @@ export class DebateGenerator {
 
     // Set default bias levels
     const biasLevels = config.biasLevels || {
-      persona1: 0.5,
-      persona2: 0.5
+      persona1: DEFAULT_BIAS_LEVEL,
+      persona2: DEFAULT_BIAS_LEVEL
     };
+    const voiceMode = config.voiceMode ?? DEFAULT_VOICE_MODE;
 
     console.log(`Starting debate generation:`);
     console.log(`  Topic: ${config.topic}`);
     console.log(`  Persona 1: ${persona1.displayName}`);
     console.log(`  Persona 2: ${persona2.displayName}`);
 
+    const format = config.format ?? 'essays';
+
+    // Resolve providers up front so a misconfigured one fails before any spend
+    const personaModels = {
+      persona1: this.resolvePersonaModel('persona1', config),
+      persona2: this.resolvePersonaModel('persona2', config)
+    };
+    console.log(`  Models: ${personaModels.persona1.provider.name}/${personaModels.persona1.model} vs ${personaModels.persona2.provider.name}/${personaModels.persona2.model}`);
+
+    // Each persona may seed its own handles, so the profiles can differ
+    const searchProfiles = (config.useTwitterSearch ?? true)
+      ? {
+          persona1: resolveSearchProfile(config.searchProfile, persona1),
+          persona2: resolveSearchProfile(config.searchProfile, persona2)
+        }
+      : undefined;
+
     try {
-      // Generate both perspectives in parallel
-      const [response1, response2] = await Promise.all([
-        this.generatePersonaResponse(
+      let response1: PersonaResponse;
+      let response2: PersonaResponse;
+      let turns: DebateTurn[] | undefined;
+      let followUps: ModeratorContribution[] = [];
+
+      // The moderator's framing question is set before anyone speaks
+      const framing = config.includeModerator
+        ? await this.moderator.frameQuestion(config.topic, config.context, persona1, persona2, signal)
+        : undefined;
+
+      if (format === 'rounds') {
+        ({ response1, response2, turns, followUps } = await this.generateRoundsDebate(
           persona1,
-          config.topic,
-          config.context,
-          config.useTwitterSearch ?? true,
-          biasLevels.persona1
-        ),
-        this.generatePersonaResponse(
           persona2,
+          config,
+          biasLevels,
+          personaModels,
+          searchProfiles,
+          framing?.content,
+          onDelta,
+          signal
+        ));
+      } else {
+        // Generate both perspectives in parallel
+        [response1, response2] = await Promise.all([
+          this.generatePersonaResponse(
+            persona1,
+            personaModels.persona1,
+            config.topic,
+            config.context,
+            searchProfiles?.persona1,
+            biasLevels.persona1,
+            onDelta && (delta => onDelta('persona1', delta)),
+            framing?.content,
+            voiceMode,
+            signal
+          ),
+          this.generatePersonaResponse(
+            persona2,
+            personaModels.persona2,
+            config.topic,
+            config.context,
+            searchProfiles?.persona2,
+            biasLevels.persona2,
+            onDelta && (delta => onDelta('persona2', delta)),
+            framing?.content,
+            voiceMode,
+            signal
+          )
+        ]);
+      }
+
+      let moderator: ModeratorReport | undefined;
+      if (framing) {
+        const summary = await this.moderator.summarize(
           config.topic,
-          config.context,
-          config.useTwitterSearch ?? true,
-          biasLevels.persona2
-        )
-      ]);
+          persona1,
+          response1.content,
+          persona2,
+          response2.content,
+          signal
+        );
+        moderator = { framingQuestion: framing, followUps, summary };
+      }
+
+      const factCheck = config.includeFactCheck
+        ? await this.factCheckDebate(config.topic, response1, response2, signal)
+        : undefined;
 
       const generationTime = (Date.now() - startTime) / 1000;
 
       // Calculate costs
-      const totalCost = this.calculateTotalCost(response1, response2);
+      const moderatorUsage = moderator && this.sumModeratorUsage(moderator);
+      const totalCost = this.calculateTotalCost(response1, response2) +
+        this.provider.estimateCost(moderatorUsage) +
+        this.provider.estimateCost(factCheck?.tokenUsage);
 
       // Compile results
       const debateResult: DebateResult = {
-        debateId: `${Date.now()}_${config.persona1Id}_${config.persona2Id}`,
+        schemaVersion: DEBATE_SCHEMA_VERSION,
+        debateId,
         topic: config.topic,
         context: config.context,
         personas: {
@@ -96,20 +257,32 @@ export class DebateGenerator {
             content: response2
           }
         },
+        format,
+        turns,
+        moderator,
+        factCheck,
         generationMetadata: {
           generationTimeSeconds: generationTime,
           twitterSearchEnabled: config.useTwitterSearch ?? true,
           biasLevels,
+          voiceMode,
           modelsUsed: {
             persona1: response1.modelUsed,
             persona2: response2.modelUsed
-          }
+          },
+          providersUsed: {
+            persona1: personaModels.persona1.provider.name,
+            persona2: personaModels.persona2.provider.name
+          },
+          searchProfiles
         },
         costAnalysis: {
           totalEstimatedCost: totalCost,
           costBreakdown: {
             persona1: response1.tokenUsage,
-            persona2: response2.tokenUsage
+            persona2: response2.tokenUsage,
+            ...(moderatorUsage && { moderator: moderatorUsage }),
+            ...(factCheck?.tokenUsage && { factCheck: factCheck.tokenUsage })
           }
         },
         timestamp: new Date().toISOString()
@@ -126,53 +299,155 @@ export class DebateGenerator {
     }
   }
 
+  /**
+   * Rewrite one side of an essay debate with the same persona, model and
+   * settings, keeping the replaced essay as an alternate. The fact check and
+   * moderator summary are redone so they describe the new essay, and the
+   * debate's cost grows by what the rewrite spent.
+   */
+  async regeneratePersona(
+    debate: DebateResult,
+    slot: DebateSpeaker,
+    signal?: AbortSignal
+  ): Promise<DebateResult> {
+    if (debate.format === 'rounds') {
+      throw new Error('Only essay debates can regenerate one side; rounds turns answer each other');
+    }
+
+    const side = debate.personas[slot];
+    const metadata = debate.generationMetadata;
+    const providerName = metadata.providersUsed?.[slot] ?? side.content.providerUsed;
+    const personaModel = {
+      provider: this.getProvider(providerName === this.provider.name ? undefined : providerName),
+      model: metadata.modelsUsed[slot]
+    };
+    const searchProfile = metadata.twitterSearchEnabled
+      ? metadata.searchProfiles?.[slot] ?? resolveSearchProfile(undefined, side.info)
+      : undefined;
+
+    console.log(`Regenerating ${side.info.characterName} for debate ${debate.debateId}`);
+
+    const response = await this.generatePersonaResponse(
+      side.info,
+      personaModel,
+      debate.topic,
+      debate.context,
+      searchProfile,
+      metadata.biasLevels[slot],
+      undefined,
+      debate.moderator?.framingQuestion.content,
+      metadata.voiceMode,
+      signal
+    );
+
+    const personas = {
+      ...debate.personas,
+      [slot]: { ...side, content: response, alternates: [...(side.alternates ?? []), side.content] }
+    };
+
+    let factCheck = debate.factCheck;
+    let factCheckUsage: TokenUsage | undefined;
+    if (factCheck) {
+      let claims: FactCheckClaim[] = [];
+      try {
+        const check = await this.factChecker.checkClaims(
+          debate.topic, response.content, response.sources, side.info.personaId, signal
+        );
+        claims = check.claims;
+        factCheckUsage = check.tokenUsage;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        // The old claims quote the old essay, so drop them rather than show them
+        console.warn('Fact check failed, continuing without it:', error);
+      }
+      factCheck = {
+        ...factCheck,
+        [slot]: claims,
+        tokenUsage: this.sumUsage([factCheck.tokenUsage, factCheckUsage])
+      };
+    }
+
+    let moderator = debate.moderator;
+    if (moderator) {
+      const summary = await this.moderator.summarize(
+        debate.topic,
+        personas.persona1.info,
+        personas.persona1.content.content,
+        personas.persona2.info,
+        personas.persona2.content.content,
+        signal
+      );
+      moderator = { ...moderator, summary };
+    }
+
+    const costAnalysis = debate.costAnalysis && {
+      totalEstimatedCost: debate.costAnalysis.totalEstimatedCost +
+        (response.estimatedCost || 0) +
+        this.provider.estimateCost(factCheckUsage) +
+        this.provider.estimateCost(moderator?.summary.tokenUsage),
+      costBreakdown: {
+        ...debate.costAnalysis.costBreakdown,
+        [slot]: this.sumUsage([debate.costAnalysis.costBreakdown[slot], response.tokenUsage]),
+        ...(moderator && {
+          moderator: this.sumUsage([debate.costAnalysis.costBreakdown.moderator, moderator.summary.tokenUsage])
+        }),
+        ...(factCheck && { factCheck: factCheck.tokenUsage })
+      }
+    };
+
+    return { ...debate, personas, factCheck, moderator, costAnalysis };
+  }
+
   /**
    * Generate response for a single persona
    */
   private async generatePersonaResponse(
     persona: PersonaProfile,
+    personaModel: PersonaModel,
     topic: string,
     context?: string,
-    useTwitterSearch: boolean = true,
-    biasLevel: number = 0.5
+    searchProfile?: SearchProfile,
+    biasLevel: number = DEFAULT_BIAS_LEVEL,
+    onDelta?: LLMDeltaHandler,
+    moderatorQuestion?: string,
+    voiceMode: VoiceMode = DEFAULT_VOICE_MODE,
+    signal?: AbortSignal
   ): Promise<PersonaResponse> {
     console.log(`${persona.characterName} generating blog post on: ${topic}`);
 
     // Construct the prompt
-    const prompt = this.constructPrompt(persona, topic, context, useTwitterSearch);
+    const prompt = this.constructPrompt(persona, topic, context, moderatorQuestion);
 
-    // Select appropriate model
-    const model = this.grokClient.selectModel(topic, context);
+    const { provider, model } = personaModel;
 
     // Get temperature based on persona and bias
     const temperature = this.getPersonaTemperature(persona, biasLevel);
 
     // Generate content with X/Twitter search integration
-    const grokResponse = await this.grokClient.generate({
+    const generateOptions = {
       prompt,
       systemPrompt: persona.systemPrompt,
       model,
       temperature,
       maxTokens: 2000,
-      useSearch: useTwitterSearch
-    });
+      useSearch: !!searchProfile,
+      searchProfile,
+      searchPrompt: searchProfile && this.getTwitterIntegrationPrompt(persona, searchProfile),
+      usageLabel: { purpose: 'essay' as const, personaId: persona.personaId },
+      signal
+    };
+    const llmResponse = onDelta
+      ? await provider.stream(generateOptions, onDelta)
+      : await provider.generate(generateOptions);
 
     // Enhance voice if content is substantial
-    let content = grokResponse.content;
-    let voiceEnhanced = false;
+    const voice = await this.applyVoiceMode(llmResponse.content, persona, biasLevel, voiceMode, provider, signal);
+    let content = voice.content;
+    const { voiceEnhanced, usage: voiceTokenUsage, diff: voiceDiff } = voice;
 
-    if (content.length > 500 && biasLevel > 0.3) {
-      try {
-        content = await this.voiceEnhancer.enhanceContent(
-          content,
-          persona,
-          biasLevel
-        );
-        voiceEnhanced = true;
-      } catch (error) {
-        console.warn('Voice enhancement failed, using original:', error);
-      }
-    }
+    // Number the cited sources once the wording is final
+    const citations = linkCitations(content, llmResponse.sources);
+    content = citations.content;
 
     // Extract title
     const title = this.extractTitle(content);
@@ -191,9 +466,15 @@ export class DebateGenerator {
       context,
       content,
       title,
-      modelUsed: model,
-      tokenUsage: grokResponse.usage,
-      sourcesUsed: grokResponse.sources?.map(s => s.url),
+      modelUsed: llmResponse.model,
+      providerUsed: provider.name,
+      estimatedCost: provider.estimateCost(llmResponse.usage, llmResponse.sources?.length || 0, llmResponse.model) +
+        provider.estimateCost(voiceTokenUsage, 0, provider.defaultModel),
+      tokenUsage: llmResponse.usage,
+      voiceTokenUsage,
+      voiceDiff,
+      sourcesUsed: llmResponse.sources?.map(s => s.url),
+      sources: citations.sources,
       timestamp: new Date().toISOString(),
       twitterIntegrated: false,
       biasLevel,
@@ -201,6 +482,342 @@ export class DebateGenerator {
     };
   }
 
+  /**
+   * Rewrite content in the persona's voice as the voice mode asks, keeping
+   * the original if an LLM rewrite fails
+   */
+  private async applyVoiceMode(
+    content: string,
+    persona: PersonaProfile,
+    biasLevel: number,
+    voiceMode: VoiceMode,
+    provider: LLMProvider,
+    signal?: AbortSignal
+  ): Promise<{ content: string; voiceEnhanced: boolean; usage?: TokenUsage; diff?: VoiceDiffSection[] }> {
+    if (!willEnhanceVoice(biasLevel, content.length, voiceMode)) {
+      return { content, voiceEnhanced: false };
+    }
+
+    if (voiceMode === 'quick') {
+      // Templated touches from the profile, with no second call
+      return { content: this.voiceEnhancer.addQuickVoiceTouches(content, persona), voiceEnhanced: true };
+    }
+
+    try {
+      const enhanced = await this.voiceEnhancer.enhanceContent(content, persona, biasLevel, provider, signal);
+      return { ...enhanced, voiceEnhanced: true };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('Voice enhancement failed, using original:', error);
+      return { content, voiceEnhanced: false };
+    }
+  }
+
+  /**
+   * Run a rounds debate: opening statements, rebuttal rounds in which each
+   * persona answers the opponent's previous turn, then closing statements.
+   * Each persona's turns are also folded into a single PersonaResponse so the
+   * essay views and cost roll-up keep working.
+   */
+  private async generateRoundsDebate(
+    persona1: PersonaProfile,
+    persona2: PersonaProfile,
+    config: DebateConfig,
+    biasLevels: { persona1: number; persona2: number },
+    personaModels: Record<DebateSpeaker, PersonaModel>,
+    searchProfiles: Record<DebateSpeaker, SearchProfile> | undefined,
+    framingQuestion?: string,
+    onDelta?: DebateDeltaHandler,
+    signal?: AbortSignal
+  ): Promise<{
+    response1: PersonaResponse;
+    response2: PersonaResponse;
+    turns: DebateTurn[];
+    followUps: ModeratorContribution[];
+  }> {
+    const rebuttalRounds = Math.min(
+      Math.max(config.rebuttalRounds ?? DEFAULT_REBUTTAL_ROUNDS, 1),
+      MAX_REBUTTAL_ROUNDS
+    );
+    const turns: DebateTurn[] = [];
+    const followUps: ModeratorContribution[] = [];
+
+    // With a moderator, each round ends with a follow-up question for the next one
+    const askFollowUp = async (round: number): Promise<string | undefined> => {
+      if (!framingQuestion) return undefined;
+      const followUp = await this.moderator.askFollowUp(
+        config.topic,
+        round,
+        turns.filter(t => t.round === round),
+        signal
+      );
+      followUps.push(followUp);
+      return followUp.content;
+    };
+
+    // Each persona numbers its sources once across all of its turns
+    const citations: Record<DebateSpeaker, SourceCitation[]> = { persona1: [], persona2: [] };
+
+    const runTurn = async (
+      slot: DebateSpeaker,
+      phase: DebateTurnPhase,
+      round: number,
+      turnIndex: number,
+      opponentTurn?: DebateTurn,
+      moderatorQuestion?: string
+    ) => {
+      const turn = await this.generateTurn(
+        {
+          slot,
+          persona: slot === 'persona1' ? persona1 : persona2,
+          opponent: slot === 'persona1' ? persona2 : persona1,
+          phase,
+          round,
+          turnIndex,
+          biasLevel: biasLevels[slot],
+          personaModel: personaModels[slot],
+          opponentTurn,
+          moderatorQuestion,
+          knownSources: citations[slot],
+          searchProfile: searchProfiles?.[slot]
+        },
+        config,
+        onDelta,
+        signal
+      );
+      citations[slot] = turn.sources ?? citations[slot];
+      return turn;
+    };
+
+    // Opening statements don't depend on each other, so run them in parallel
+    const openings = await Promise.all([
+      runTurn('persona1', 'opening', 0, 0, undefined, framingQuestion),
+      runTurn('persona2', 'opening', 0, 1, undefined, framingQuestion)
+    ]);
+    turns.push(...openings);
+    let question = await askFollowUp(0);
+
+    // Rebuttals are sequential: each turn answers the opponent's latest turn
+    for (let round = 1; round <= rebuttalRounds; round++) {
+      const rebuttal1 = await runTurn('persona1', 'rebuttal', round, turns.length, turns[turns.length - 1], question);
+      turns.push(rebuttal1);
+      const rebuttal2 = await runTurn('persona2', 'rebuttal', round, turns.length, rebuttal1, question);
+      turns.push(rebuttal2);
+      question = await askFollowUp(round);
+    }
+
+    // Closings respond to the opponent's final rebuttal
+    const lastTurn1 = turns[turns.length - 2];
+    const lastTurn2 = turns[turns.length - 1];
+    const closingRound = rebuttalRounds + 1;
+    const closings = await Promise.all([
+      runTurn('persona1', 'closing', closingRound, turns.length, lastTurn2, question),
+      runTurn('persona2', 'closing', closingRound, turns.length + 1, lastTurn1, question)
+    ]);
+    turns.push(...closings);
+
+    return {
+      response1: this.combineTurns(persona1, turns.filter(t => t.speaker === 'persona1'), config, biasLevels.persona1, personaModels.persona1, citations.persona1),
+      response2: this.combineTurns(persona2, turns.filter(t => t.speaker === 'persona2'), config, biasLevels.persona2, personaModels.persona2, citations.persona2),
+      turns,
+      followUps
+    };
+  }
+
+  /**
+   * Generate a single turn of a rounds debate
+   */
+  private async generateTurn(
+    request: TurnRequest,
+    config: DebateConfig,
+    onDelta?: DebateDeltaHandler,
+    signal?: AbortSignal
+  ): Promise<DebateTurn> {
+    const { slot, persona, phase, round, turnIndex, biasLevel, personaModel, opponentTurn, knownSources, searchProfile } = request;
+    const { provider, model } = personaModel;
+    console.log(`${persona.characterName} generating ${phase} (round ${round})`);
+
+    // Live search is only used for openings; later turns argue from the transcript
+    const useSearch = phase === 'opening' && !!searchProfile;
+    const prompt = this.constructTurnPrompt(request, config.topic, config.context);
+
+    if (onDelta) {
+      const separator = phase === 'opening' ? '' : '\n\n';
+      onDelta(slot, `${separator}## ${this.getTurnHeading(phase, round)}\n\n`);
+    }
+
+    const generateOptions = {
+      prompt,
+      systemPrompt: persona.systemPrompt,
+      model,
+      temperature: this.getPersonaTemperature(persona, biasLevel),
+      maxTokens: phase === 'opening' ? 1200 : 900,
+      useSearch,
+      searchProfile,
+      searchPrompt: useSearch ? this.getTwitterIntegrationPrompt(persona, searchProfile) : undefined,
+      usageLabel: { purpose: 'turn' as const, personaId: persona.personaId },
+      signal
+    };
+    const llmResponse = onDelta
+      ? await provider.stream(generateOptions, delta => onDelta(slot, delta))
+      : await provider.generate(generateOptions);
+    const voice = await this.applyVoiceMode(
+      llmResponse.content, persona, biasLevel, config.voiceMode ?? DEFAULT_VOICE_MODE, provider, signal
+    );
+    const citations = linkCitations(voice.content, llmResponse.sources, knownSources);
+
+    return {
+      turnIndex,
+      phase,
+      round,
+      speaker: slot,
+      personaId: persona.personaId,
+      characterName: persona.characterName,
+      content: citations.content,
+      modelUsed: llmResponse.model,
+      providerUsed: provider.name,
+      tokenUsage: llmResponse.usage,
+      voiceTokenUsage: voice.usage,
+      voiceDiff: voice.diff,
+      voiceEnhanced: voice.voiceEnhanced,
+      sourcesUsed: llmResponse.sources?.map(s => s.url),
+      sources: citations.sources,
+      respondingTo: opponentTurn?.turnIndex,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Fold one persona's turns into a single response, in speaking order
+   */
+  private combineTurns(
+    persona: PersonaProfile,
+    turns: DebateTurn[],
+    config: DebateConfig,
+    biasLevel: number,
+    personaModel: PersonaModel,
+    sources: SourceCitation[]
+  ): PersonaResponse {
+    const content = turns
+      .map(turn => `## ${this.getTurnHeading(turn.phase, turn.round)}\n\n${turn.content}`)
+      .join('\n\n');
+
+    const tokenUsage = this.sumUsage(turns.map(turn => turn.tokenUsage));
+    const sourcesUsed = turns.flatMap(turn => turn.sourcesUsed ?? []);
+    const { provider, model } = personaModel;
+    // Turns the budget moved to a cheaper model are priced at that model
+    const modelsUsed = [...new Set(turns.map(turn => turn.modelUsed))];
+    const voiceUsages = turns.map(turn => turn.voiceTokenUsage).filter(usage => usage !== undefined);
+    const voiceTokenUsage = voiceUsages.length > 0 ? this.sumUsage(voiceUsages) : undefined;
+    const voiceDiffs = turns.flatMap(turn => turn.voiceDiff ?? []);
+    const estimatedCost = turns.reduce(
+      (total, turn) => total + provider.estimateCost(turn.tokenUsage, turn.sourcesUsed?.length ?? 0, turn.modelUsed),
+      provider.estimateCost(voiceTokenUsage, 0, provider.defaultModel)
+    );
+
+    return {
+      perspective: persona.politicalLeaning,
+      persona: {
+        id: persona.personaId,
+        characterName: persona.characterName,
+        displayName: persona.displayName,
+        expertiseLevel: persona.expertiseLevel,
+        socialMediaHandle: persona.socialMediaHandle
+      },
+      topic: config.topic,
+      context: config.context,
+      content,
+      title: this.extractTitle(turns[0]?.content ?? ''),
+      modelUsed: modelsUsed.length > 0 ? modelsUsed.join(', ') : model,
+      providerUsed: provider.name,
+      estimatedCost,
+      tokenUsage,
+      voiceTokenUsage,
+      voiceDiff: voiceDiffs.length > 0 ? voiceDiffs : undefined,
+      sourcesUsed,
+      sources,
+      timestamp: new Date().toISOString(),
+      twitterIntegrated: false,
+      biasLevel,
+      voiceEnhanced: turns.some(turn => turn.voiceEnhanced)
+    };
+  }
+
+  private getTurnHeading(phase: DebateTurnPhase, round: number): string {
+    switch (phase) {
+      case 'opening':
+        return 'Opening Statement';
+      case 'rebuttal':
+        return `Rebuttal ${round}`;
+      case 'closing':
+        return 'Closing Statement';
+    }
+  }
+
+  /**
+   * Construct prompt for a single debate turn
+   */
+  private constructTurnPrompt(request: TurnRequest, topic: string, context: string | undefined): string {
+    const { opponent, phase, round, opponentTurn, moderatorQuestion } = request;
+    const opponentLabel = `${opponent.characterName} (${opponent.politicalLeaning} ${opponent.expertiseLevel})`;
+
+    let prompt: string;
+
+    switch (phase) {
+      case 'opening':
+        prompt = `You are opening a live debate against ${opponentLabel} on: ${topic}
+
+REQUIREMENTS FOR YOUR OPENING STATEMENT:
+1. Write 400-600 words in your own voice
+2. Start with a short markdown title on the first line
+3. State your position clearly and lay out your 2-3 strongest arguments
+4. Anticipate the line of attack your opponent is most likely to take
+5. Do not write your opponent's lines or a full essay - this is one turn in a debate`;
+        break;
+
+      case 'rebuttal':
+        prompt = `You are in rebuttal round ${round} of a live debate against ${opponentLabel} on: ${topic}
+
+YOUR OPPONENT JUST SAID:
+"""
+${opponentTurn?.content ?? ''}
+"""
+
+REQUIREMENTS FOR YOUR REBUTTAL:
+1. Write 300-500 words in your own voice
+2. Respond directly to your opponent's strongest points, quoting or paraphrasing them
+3. Expose weaknesses in their evidence or reasoning
+4. Reinforce your own position with one new argument or example
+5. Do not repeat your earlier turns word for word`;
+        break;
+
+      case 'closing':
+        prompt = `You are giving your closing statement in a live debate against ${opponentLabel} on: ${topic}
+
+YOUR OPPONENT'S LAST TURN:
+"""
+${opponentTurn?.content ?? ''}
+"""
+
+REQUIREMENTS FOR YOUR CLOSING STATEMENT:
+1. Write 250-400 words in your own voice
+2. Summarize why your position won the exchange
+3. Acknowledge the one point of your opponent's that deserves an answer, and answer it
+4. End with a memorable line aimed at the audience, not at your opponent`;
+        break;
+    }
+
+    if (moderatorQuestion) {
+      prompt += this.getModeratorQuestionPrompt(moderatorQuestion);
+    }
+
+    if (context) {
+      prompt += `\n\nADDITIONAL CONTEXT: ${context}`;
+    }
+
+    return prompt;
+  }
+
   /**
    * Construct prompt for persona
    */
@@ -208,7 +825,7 @@ export class DebateGenerator {
     persona: PersonaProfile,
     topic: string,
     context?: string,
-    useTwitterSearch: boolean = true
+    moderatorQuestion?: string
   ): string {
     const isExpert = persona.expertiseLevel === ExpertiseLevel.EXPERT;
 
@@ -218,12 +835,12 @@ export class DebateGenerator {
 
     let prompt = basePrompt;
 
-    if (context) {
-      prompt += `\n\nADDITIONAL CONTEXT: ${context}`;
+    if (moderatorQuestion) {
+      prompt += this.getModeratorQuestionPrompt(moderatorQuestion);
     }
 
-    if (useTwitterSearch) {
-      prompt += this.getTwitterIntegrationPrompt(persona);
+    if (context) {
+      prompt += `\n\nADDITIONAL CONTEXT: ${context}`;
     }
 
     return prompt;
@@ -277,9 +894,29 @@ STRUCTURE FOR ${persona.characterName.toUpperCase()}:
 - Rally Cry (inspire collective action and hope)`;
   }
 
-  private getTwitterIntegrationPrompt(persona: PersonaProfile): string {
+  private getModeratorQuestionPrompt(question: string): string {
+    return `
+
+THE MODERATOR ASKS: ${question}
+Answer the moderator's question directly before moving on to your own arguments.`;
+  }
+
+  private getTwitterIntegrationPrompt(persona: PersonaProfile, searchProfile: SearchProfile): string {
     const influences = persona.keyInfluences.slice(0, 3).join(', ');
     const sources = persona.preferredSources.slice(0, 3).join(', ');
+    const otherSources = searchProfile.sources.filter(source => source !== 'x');
+
+    const strategy = [
+      `- Focus on posts with high engagement (${searchProfile.minFavorites}+ favorites, ${searchProfile.minViews}+ views)`,
+      `- Look for recent posts (within the last ${searchProfile.timeRange}) for currency`,
+      searchProfile.allowedHandles.length > 0
+        ? `- Draw on posts from these accounts: ${searchProfile.allowedHandles.map(handle => `@${handle}`).join(', ')}`
+        : '- Find both grassroots voices and verified expert accounts',
+      ...(otherSources.length > 0
+        ? [`- Back up social media claims with ${otherSources.join(' and ')} results, cited the same way`]
+        : []),
+      '- Capture the authentic tone and language of current X discourse'
+    ];
 
     return `
 
@@ -295,19 +932,19 @@ X/TWITTER LIVE DATA INTEGRATION FOR ${persona.characterName.toUpperCase()}:
 - Reference specific accounts, threads, or viral moments when relevant
 - Make it clear when information comes from live social media discourse
 
+CITATIONS:
+- When a claim rests on a post or article you found, put its full URL in square brackets right after the claim, e.g. "Rents rose 12% last year [https://x.com/user/status/123]"
+- Only cite URLs that came back from your search; never invent one
+
 SEARCH STRATEGY:
-- Focus on posts with high engagement (10+ favorites, 100+ views)
-- Look for recent posts (within the last week) for currency
-- Find both grassroots voices and verified expert accounts
-- Capture the authentic tone and language of current X discourse`;
+${strategy.join('\n')}`;
   }
 
   /**
    * Get temperature setting based on persona and bias
    */
   private getPersonaTemperature(persona: PersonaProfile, biasLevel: number): number {
-    const baseTemp = persona.expertiseLevel === ExpertiseLevel.EXPERT ? 0.65 : 0.7;
-    return baseTemp + (biasLevel * 0.25); // Range: 0.65-0.9 for experts, 0.7-0.95 for grassroots
+    return getBiasTemperature(persona.expertiseLevel, biasLevel);
   }
 
   /**
@@ -325,18 +962,96 @@ SEARCH STRATEGY:
   }
 
   /**
-   * Calculate total cost
+   * Calculate total cost. Each response was priced by the provider that wrote it.
    */
   private calculateTotalCost(response1: PersonaResponse, response2: PersonaResponse): number {
-    const cost1 = this.grokClient.estimateCost(
-      response1.tokenUsage,
-      response1.sourcesUsed?.length || 0
-    );
-    const cost2 = this.grokClient.estimateCost(
-      response2.tokenUsage,
-      response2.sourcesUsed?.length || 0
+    return (response1.estimatedCost || 0) + (response2.estimatedCost || 0);
+  }
+
+  /**
+   * Pick the provider and model for one side of the debate
+   */
+  private resolvePersonaModel(slot: DebateSpeaker, config: DebateConfig): PersonaModel {
+    const selection = config.personaModels?.[slot];
+    const provider = this.getProvider(selection?.provider);
+    return {
+      provider,
+      model: selection?.model || provider.selectModel(config.topic, config.context)
+    };
+  }
+
+  private getProvider(name?: string): LLMProvider {
+    if (!name) return this.provider;
+
+    const cached = this.providerCache.get(name);
+    if (cached) return cached;
+
+    if (!isLLMProviderName(name)) {
+      throw new Error(`Unknown LLM provider "${name}"`);
+    }
+
+    const provider = this.providerFactory(name);
+    this.providerCache.set(name, provider);
+    return provider;
+  }
+
+  /**
+   * Grade the factual claims in both essays. A failed check leaves the debate
+   * without a fact-check section rather than failing it.
+   */
+  private async factCheckDebate(
+    topic: string,
+    response1: PersonaResponse,
+    response2: PersonaResponse,
+    signal?: AbortSignal
+  ): Promise<FactCheckReport | undefined> {
+    try {
+      const [check1, check2] = await Promise.all([
+        this.factChecker.checkClaims(topic, response1.content, response1.sources, response1.persona.id, signal),
+        this.factChecker.checkClaims(topic, response2.content, response2.sources, response2.persona.id, signal)
+      ]);
+
+      return {
+        persona1: check1.claims,
+        persona2: check2.claims,
+        modelUsed: check1.modelUsed,
+        tokenUsage: this.sumUsage([check1.tokenUsage, check2.tokenUsage]),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('Fact check failed, continuing without it:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Add up token usage across every moderator contribution
+   */
+  private sumModeratorUsage(moderator: ModeratorReport): TokenUsage {
+    const contributions = [moderator.framingQuestion, ...moderator.followUps, moderator.summary];
+    return this.sumUsage(contributions.map(contribution => contribution.tokenUsage));
+  }
+
+  private sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage {
+    const total = usages.reduce<Required<TokenUsage>>(
+      (total, usage) => ({
+        promptTokens: total.promptTokens + (usage?.promptTokens || 0),
+        completionTokens: total.completionTokens + (usage?.completionTokens || 0),
+        totalTokens: total.totalTokens + (usage?.totalTokens || 0),
+        cachedPromptTokens: total.cachedPromptTokens + (usage?.cachedPromptTokens || 0),
+        reasoningTokens: total.reasoningTokens + (usage?.reasoningTokens || 0)
+      }),
+      { promptTokens: 0, completionTokens: 0, totalTokens: 0, cachedPromptTokens: 0, reasoningTokens: 0 }
     );
-    return cost1 + cost2;
+
+    // Only report the optional counts when a call did
+    const { cachedPromptTokens, reasoningTokens, ...counts } = total;
+    return {
+      ...counts,
+      ...(cachedPromptTokens > 0 && { cachedPromptTokens }),
+      ...(reasoningTokens > 0 && { reasoningTokens })
+    };
   }
 
   /**
@@ -349,21 +1064,15 @@ SEARCH STRATEGY:
   /**
    * Get valid persona combinations
    */
-  getValidCombinations() {
-    return this.personaRegistry.getValidCombinations();
+  getValidCombinations(policy?: PairingPolicy) {
+    return this.personaRegistry.getValidCombinations(policy);
   }
 
   /**
    * Validate persona selection
    */
-  validatePersonaSelection(persona1Id: string, persona2Id: string): boolean {
-    try {
-      const persona1 = PersonaType[persona1Id.toUpperCase() as keyof typeof PersonaType];
-      const persona2 = PersonaType[persona2Id.toUpperCase() as keyof typeof PersonaType];
-      return this.personaRegistry.validatePersonaPair(persona1, persona2);
-    } catch {
-      return false;
-    }
+  validatePersonaSelection(persona1Id: string, persona2Id: string, policy?: PairingPolicy): boolean {
+    return this.personaRegistry.validatePersonaPair(persona1Id, persona2Id, policy);
   }
 }
 
@@ -0,0 +1,150 @@
+/**
+ * Debate Moderator - Neutral voice that frames, questions and summarizes a debate
+ */
+
+import {
+  PersonaProfile,
+  DebateTurn,
+  ModeratorContribution,
+  ModeratorContributionKind,
+} from '../types/personas';
+import { LLMProvider } from './llm-provider';
+
+export class DebateModerator {
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Write the framing question both personas will answer
+   */
+  async frameQuestion(
+    topic: string,
+    context: string | undefined,
+    persona1: PersonaProfile,
+    persona2: PersonaProfile,
+    signal?: AbortSignal
+  ): Promise<ModeratorContribution> {
+    const prompt = `You are moderating a debate on: ${topic}
+${context ? `\nADDITIONAL CONTEXT: ${context}\n` : ''}
+The participants are ${this.describe(persona1)} and ${this.describe(persona2)}.
+
+Write the single framing question that opens the debate:
+- One or two sentences, phrased as a question
+- Focused on the real tradeoff at the heart of the topic
+- Fair to both sides: neither participant should be able to call it loaded
+- No preamble, no answer, just the question`;
+
+    return this.contribute('framing', prompt, 200, undefined, signal);
+  }
+
+  /**
+   * Ask a follow-up question based on the turns of the round that just ended
+   */
+  async askFollowUp(
+    topic: string,
+    round: number,
+    roundTurns: DebateTurn[],
+    signal?: AbortSignal
+  ): Promise<ModeratorContribution> {
+    const transcript = roundTurns
+      .map(turn => `${turn.characterName}:\n"""\n${turn.content}\n"""`)
+      .join('\n\n');
+
+    const prompt = `You are moderating a debate on: ${topic}
+
+Here is what each participant said in the round that just ended:
+
+${transcript}
+
+Write one follow-up question for both participants to answer next:
+- Press on the sharpest point of disagreement, or on a claim neither side has backed up
+- Address both participants, not just one
+- One or two sentences, phrased as a question
+- Stay neutral: do not signal which argument you found stronger`;
+
+    return this.contribute('follow_up', prompt, 200, round, signal);
+  }
+
+  /**
+   * Write a non-partisan summary of where the two sides agree and disagree
+   */
+  async summarize(
+    topic: string,
+    persona1: PersonaProfile,
+    content1: string,
+    persona2: PersonaProfile,
+    content2: string,
+    signal?: AbortSignal
+  ): Promise<ModeratorContribution> {
+    const prompt = `You are moderating a debate on: ${topic}
+
+${persona1.characterName} argued:
+"""
+${content1}
+"""
+
+${persona2.characterName} argued:
+"""
+${content2}
+"""
+
+Write a balanced wrap-up for a classroom audience, 250-400 words, in markdown with these sections:
+## Where They Agree
+## Where They Disagree
+## Questions Left Open
+
+RULES:
+- Describe each side's position in terms its own advocate would accept
+- Give both participants equal space
+- Do not declare a winner or add your own opinion
+- Note factual claims that were disputed rather than ruling on them`;
+
+    return this.contribute('summary', prompt, 700, undefined, signal);
+  }
+
+  private async contribute(
+    kind: ModeratorContributionKind,
+    prompt: string,
+    maxTokens: number,
+    afterRound?: number,
+    signal?: AbortSignal
+  ): Promise<ModeratorContribution> {
+    const model = this.provider.defaultModel;
+    const response = await this.provider.generate({
+      prompt,
+      systemPrompt: this.getModeratorSystemPrompt(),
+      model,
+      temperature: 0.3, // Keep the moderator measured and consistent
+      maxTokens,
+      usageLabel: { purpose: 'moderator' },
+      signal
+    });
+
+    return {
+      kind,
+      afterRound,
+      content: response.content.trim(),
+      modelUsed: model,
+      tokenUsage: response.usage,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private describe(persona: PersonaProfile): string {
+    return `${persona.characterName} (${persona.politicalLeaning}, ${persona.expertiseLevel})`;
+  }
+
+  /**
+   * Get system prompt for the moderator
+   */
+  private getModeratorSystemPrompt(): string {
+    return `You are a neutral, experienced debate moderator in the tradition of public broadcasting and classroom civics.
+
+You never take sides, never editorialize, and never reveal a political leaning. You ask precise questions, hold both participants to the same standard, and describe each side's view accurately and charitably.`;
+  }
+}
+
+export default DebateModerator;
@@ -0,0 +1,90 @@
+/**
+ * Debate Request - zod schemas for the bodies of the routes that generate, so
+ * generate-debate and stream-debate accept exactly the same requests
+ */
+
+import { z } from 'zod';
+import { BudgetLimits, DebateConfig, DebateSpeaker, PairingPolicy } from '../types/personas';
+import { VOICE_MODES, biasLevelsSchema } from './bias';
+import { budgetLimitsSchema } from './budget';
+import { MAX_REBUTTAL_ROUNDS } from './debate-generator';
+import { personaModelsSchema } from './llm-provider';
+import { getDefaultPairingPolicy } from './persona-registry';
+import { searchProfileSchema } from './search-profile';
+import { formatValidationIssues } from './validation-issues';
+
+export const MAX_TOPIC_LENGTH = 300;
+export const MAX_CONTEXT_LENGTH = 2000;
+
+const personaId = z.string({ error: 'is required' }).trim().min(1, { error: 'is required' });
+
+const debateRequestSchema = z.object({
+  topic: z.string({ error: 'is required' })
+    .trim()
+    .min(1, { error: 'is required' })
+    .max(MAX_TOPIC_LENGTH, { error: `must be at most ${MAX_TOPIC_LENGTH} characters` }),
+  persona1Id: personaId,
+  persona2Id: personaId,
+  context: z.string({ error: 'must be a string' })
+    .trim()
+    .max(MAX_CONTEXT_LENGTH, { error: `must be at most ${MAX_CONTEXT_LENGTH} characters` })
+    .optional()
+    .transform(context => context || undefined),
+  useTwitterSearch: z.boolean({ error: 'must be true or false' }).default(true),
+  biasLevels: biasLevelsSchema,
+  format: z.enum(['essays', 'rounds'], { error: 'must be one of: essays, rounds' }).optional(),
+  rebuttalRounds: z.number({ error: `must be a whole number from 1 to ${MAX_REBUTTAL_ROUNDS}` })
+    .int({ error: `must be a whole number from 1 to ${MAX_REBUTTAL_ROUNDS}` })
+    .min(1, { error: `must be a whole number from 1 to ${MAX_REBUTTAL_ROUNDS}` })
+    .max(MAX_REBUTTAL_ROUNDS, { error: `must be a whole number from 1 to ${MAX_REBUTTAL_ROUNDS}` })
+    .optional(),
+  includeModerator: z.boolean({ error: 'must be true or false' }).optional(),
+  includeFactCheck: z.boolean({ error: 'must be true or false' }).optional(),
+  voiceMode: z.enum(VOICE_MODES, { error: `must be one of: ${VOICE_MODES.join(', ')}` }).optional(),
+  pairingPolicy: z.enum(PairingPolicy, { error: `must be one of: ${Object.values(PairingPolicy).join(', ')}` })
+    .default(() => getDefaultPairingPolicy()),
+  personaModels: personaModelsSchema,
+  searchProfile: searchProfileSchema,
+  budget: budgetLimitsSchema,
+}, { error: 'Request body must be a JSON object' });
+
+const regenerateRequestSchema = z.object({
+  slot: z.enum(['persona1', 'persona2'], { error: 'must be persona1 or persona2' }),
+  budget: budgetLimitsSchema,
+}, { error: 'Request body must be a JSON object' });
+
+/**
+ * A validated request: the debate to generate, and the spending limits for it
+ */
+export interface DebateRequest {
+  config: Omit<DebateConfig, 'debateId'> & Required<Pick<DebateConfig, 'pairingPolicy'>>;
+  budget?: BudgetLimits;
+}
+
+/**
+ * Validate a debate request body, listing every problem found
+ */
+export function parseDebateRequest(input: unknown): { request?: DebateRequest; errors: string[] } {
+  const result = debateRequestSchema.safeParse(input);
+  if (!result.success) {
+    return { errors: formatValidationIssues(result.error.issues) };
+  }
+
+  const { budget, ...config } = result.data;
+  return { request: { config, budget }, errors: [] };
+}
+
+/**
+ * Validate a request to regenerate one side of a debate
+ */
+export function parseRegenerateRequest(input: unknown): {
+  request?: { slot: DebateSpeaker; budget?: BudgetLimits };
+  errors: string[];
+} {
+  const result = regenerateRequestSchema.safeParse(input);
+  if (!result.success) {
+    return { errors: formatValidationIssues(result.error.issues) };
+  }
+
+  return { request: result.data, errors: [] };
+}
@@ -0,0 +1,271 @@
+/**
+ * Debate Schema - The zod schema for a saved debate, shared by the API routes,
+ * the client and anything importing a debate. Debates carry a schemaVersion,
+ * and older ones are migrated forward before they are validated.
+ */
+
+import { z } from 'zod';
+import {
+  DebateResult,
+  ExpertiseLevel,
+  PoliticalLeaning,
+} from '../types/personas';
+import { DEFAULT_BIAS_LEVEL } from './bias';
+import { SEARCH_SOURCE_TYPES, SEARCH_TIME_RANGES } from './search-profile';
+
+/** Bump when the shape changes, and add a migration from the previous version */
+export const DEBATE_SCHEMA_VERSION = 1;
+
+const speakers = ['persona1', 'persona2'] as const;
+const timestamp = z.iso.datetime();
+const biasLevel = z.number().min(0).max(1);
+
+const bySpeaker = <T extends z.ZodType>(schema: T) => z.object({ persona1: schema, persona2: schema });
+
+export const tokenUsageSchema = z.object({
+  promptTokens: z.number().nonnegative(),
+  completionTokens: z.number().nonnegative(),
+  totalTokens: z.number().nonnegative(),
+  cachedPromptTokens: z.number().nonnegative().optional(),
+  reasoningTokens: z.number().nonnegative().optional(),
+});
+
+export const sourceCitationSchema = z.object({
+  index: z.number().int().positive(),
+  url: z.string(),
+  title: z.string(),
+  snippet: z.string(),
+});
+
+export const personaProfileSchema = z.object({
+  personaId: z.string(),
+  displayName: z.string(),
+  description: z.string(),
+  politicalLeaning: z.enum(PoliticalLeaning),
+  expertiseLevel: z.enum(ExpertiseLevel),
+  characterName: z.string(),
+  background: z.string(),
+  writingStyle: z.string(),
+  keyInfluences: z.array(z.string()),
+  signaturePhrases: z.array(z.string()),
+  preferredSources: z.array(z.string()),
+  socialMediaHandle: z.string(),
+  systemPrompt: z.string().optional(),
+});
+
+const voiceDiffSectionSchema = z.object({
+  original: z.string(),
+  enhanced: z.string().optional(),
+  keptOriginal: z.enum(['missing_facts', 'too_short', 'failed', 'skipped']).optional(),
+  missing: z.array(z.string()).optional(),
+});
+
+export const personaResponseSchema = z.object({
+  perspective: z.enum(PoliticalLeaning),
+  persona: z.object({
+    id: z.string(),
+    characterName: z.string(),
+    displayName: z.string(),
+    expertiseLevel: z.string(),
+    socialMediaHandle: z.string(),
+  }),
+  topic: z.string(),
+  context: z.string().optional(),
+  content: z.string(),
+  title: z.string(),
+  modelUsed: z.string(),
+  providerUsed: z.string().optional(),
+  estimatedCost: z.number().nonnegative().optional(),
+  tokenUsage: tokenUsageSchema.optional(),
+  voiceTokenUsage: tokenUsageSchema.optional(),
+  voiceDiff: z.array(voiceDiffSectionSchema).optional(),
+  sourcesUsed: z.array(z.string()).optional(),
+  sources: z.array(sourceCitationSchema).optional(),
+  timestamp,
+  twitterIntegrated: z.boolean(),
+  biasLevel,
+  voiceEnhanced: z.boolean(),
+});
+
+const debateTurnSchema = z.object({
+  turnIndex: z.number().int().nonnegative(),
+  phase: z.enum(['opening', 'rebuttal', 'closing']),
+  round: z.number().int().nonnegative(),
+  speaker: z.enum(speakers),
+  personaId: z.string(),
+  characterName: z.string(),
+  content: z.string(),
+  modelUsed: z.string(),
+  providerUsed: z.string().optional(),
+  tokenUsage: tokenUsageSchema.optional(),
+  voiceTokenUsage: tokenUsageSchema.optional(),
+  voiceDiff: z.array(voiceDiffSectionSchema).optional(),
+  voiceEnhanced: z.boolean().optional(),
+  sourcesUsed: z.array(z.string()).optional(),
+  sources: z.array(sourceCitationSchema).optional(),
+  respondingTo: z.number().int().nonnegative().optional(),
+  timestamp,
+});
+
+const moderatorContributionSchema = z.object({
+  kind: z.enum(['framing', 'follow_up', 'summary']),
+  afterRound: z.number().int().nonnegative().optional(),
+  content: z.string(),
+  modelUsed: z.string(),
+  tokenUsage: tokenUsageSchema.optional(),
+  timestamp,
+});
+
+const factCheckClaimSchema = z.object({
+  claim: z.string(),
+  verdict: z.enum(['supported', 'contradicted', 'unverifiable']),
+  explanation: z.string(),
+  sourceIndexes: z.array(z.number().int().positive()),
+});
+
+const searchProfileSchema = z.object({
+  sources: z.array(z.enum(SEARCH_SOURCE_TYPES)),
+  timeRange: z.enum(SEARCH_TIME_RANGES),
+  minFavorites: z.number().nonnegative(),
+  minViews: z.number().nonnegative(),
+  maxSources: z.number().int().positive(),
+  allowedHandles: z.array(z.string()),
+  excludedHandles: z.array(z.string()),
+  allowedWebsites: z.array(z.string()),
+  excludedWebsites: z.array(z.string()),
+  seedFromPreferredSources: z.boolean(),
+});
+
+const debateSideSchema = z.object({
+  id: z.string(),
+  info: personaProfileSchema,
+  content: personaResponseSchema,
+  alternates: z.array(personaResponseSchema).optional(),
+});
+
+export const debateResultSchema: z.ZodType<DebateResult> = z.object({
+  schemaVersion: z.literal(DEBATE_SCHEMA_VERSION),
+  debateId: z.string().regex(/^[A-Za-z0-9_-]+$/),
+  topic: z.string(),
+  context: z.string().optional(),
+  personas: bySpeaker(debateSideSchema),
+  format: z.enum(['essays', 'rounds']),
+  turns: z.array(debateTurnSchema).optional(),
+  moderator: z.object({
+    framingQuestion: moderatorContributionSchema,
+    followUps: z.array(moderatorContributionSchema),
+    summary: moderatorContributionSchema,
+  }).optional(),
+  factCheck: z.object({
+    persona1: z.array(factCheckClaimSchema),
+    persona2: z.array(factCheckClaimSchema),
+    modelUsed: z.string(),
+    tokenUsage: tokenUsageSchema.optional(),
+    timestamp,
+  }).optional(),
+  generationMetadata: z.object({
+    generationTimeSeconds: z.number().nonnegative(),
+    twitterSearchEnabled: z.boolean(),
+    biasLevels: bySpeaker(biasLevel),
+    voiceMode: z.enum(['none', 'quick', 'llm']).optional(),
+    modelsUsed: bySpeaker(z.string()),
+    providersUsed: bySpeaker(z.string()).optional(),
+    searchProfiles: bySpeaker(searchProfileSchema).optional(),
+    budget: z.object({
+      perDebate: z.number().nonnegative().optional(),
+      perDay: z.number().nonnegative().optional(),
+      spent: z.number().nonnegative(),
+      fallbacks: z.array(z.string()),
+    }).optional(),
+    apiKeyId: z.string().optional(),
+  }),
+  costAnalysis: z.object({
+    totalEstimatedCost: z.number().nonnegative(),
+    costBreakdown: z.object({
+      persona1: tokenUsageSchema.optional(),
+      persona2: tokenUsageSchema.optional(),
+      moderator: tokenUsageSchema.optional(),
+      factCheck: tokenUsageSchema.optional(),
+    }),
+  }).optional(),
+  timestamp,
+});
+
+type DebateJson = Record<string, unknown>;
+
+/**
+ * Upgrades keyed by the version they start from; each returns the next version
+ */
+const MIGRATIONS: Record<number, (debate: DebateJson) => DebateJson> = {
+  // Debates saved before versioning. The oldest predate the rounds format and bias levels.
+  0: debate => {
+    const metadata = (debate.generationMetadata ?? {}) as DebateJson;
+    return {
+      ...debate,
+      schemaVersion: 1,
+      format: debate.format ?? 'essays',
+      generationMetadata: {
+        ...metadata,
+        biasLevels: metadata.biasLevels ?? { persona1: DEFAULT_BIAS_LEVEL, persona2: DEFAULT_BIAS_LEVEL }
+      }
+    };
+  },
+};
+
+function isObject(value: unknown): value is DebateJson {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Bring a debate from any earlier schema version up to the current one. The
+ * result still needs validating.
+ */
+export function migrateDebateResult(input: unknown): { debate?: DebateJson; errors: string[] } {
+  if (!isObject(input)) {
+    return { errors: ['Debate must be a JSON object'] };
+  }
+
+  let version = input.schemaVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return { errors: ['schemaVersion must be a whole number'] };
+  }
+  if (version > DEBATE_SCHEMA_VERSION) {
+    return { errors: [`schemaVersion ${version} is newer than this app supports (${DEBATE_SCHEMA_VERSION})`] };
+  }
+
+  let debate = input;
+  while (version < DEBATE_SCHEMA_VERSION) {
+    debate = MIGRATIONS[version](debate);
+    version++;
+  }
+
+  return { debate, errors: [] };
+}
+
+/**
+ * Migrate and validate a debate from JSON, listing every problem found
+ */
+export function parseDebateResult(input: unknown): { debate?: DebateResult; errors: string[] } {
+  const migrated = migrateDebateResult(input);
+  if (!migrated.debate) {
+    return { errors: migrated.errors };
+  }
+
+  const result = debateResultSchema.safeParse(migrated.debate);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map(issue =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      )
+    };
+  }
+
+  return { debate: result.data, errors: [] };
+}
+
+/**
+ * The schema as JSON Schema, for tools outside this app
+ */
+export function getDebateJsonSchema(): Record<string, unknown> {
+  return z.toJSONSchema(debateResultSchema, { target: 'draft-2020-12' }) as Record<string, unknown>;
+}
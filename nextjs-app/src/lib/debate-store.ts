@@ -0,0 +1,194 @@
+/**
+ * Debate Store - Persists generated debates to local JSON files, one per debate
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DebateResult, DebateSummary } from '../types/personas';
+import { parseDebateResult } from './debate-schema';
+
+const DEBATE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface DebateListOptions {
+  query?: string;
+  personaId?: string;
+  sortBy?: 'date' | 'cost';
+  order?: 'asc' | 'desc';
+}
+
+// Updates still running, by debate file, so each one starts from the last one's result
+const pendingUpdates = new Map<string, Promise<DebateResult | undefined>>();
+
+export class DebateStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  save(debate: DebateResult): void {
+    if (!DEBATE_ID_PATTERN.test(debate.debateId)) {
+      throw new Error(`Invalid debate id: ${debate.debateId}`);
+    }
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    const filePath = this.getFilePath(debate.debateId);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(debate, null, 2));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  get(debateId: string): DebateResult | undefined {
+    if (!DEBATE_ID_PATTERN.test(debateId)) {
+      return undefined;
+    }
+
+    const filePath = this.getFilePath(debateId);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    return this.read(filePath);
+  }
+
+  /**
+   * Read a debate, change it and save the result. Updates to the same debate
+   * run one at a time within this server process, so a slow change can't
+   * overwrite one that finished while it ran. Resolves undefined if the
+   * debate doesn't exist.
+   */
+  async update(
+    debateId: string,
+    change: (debate: DebateResult) => Promise<DebateResult>
+  ): Promise<DebateResult | undefined> {
+    const filePath = this.getFilePath(debateId);
+    const previous = pendingUpdates.get(filePath) ?? Promise.resolve(undefined);
+
+    const next = previous.catch(() => undefined).then(async () => {
+      const debate = this.get(debateId);
+      if (!debate) {
+        return undefined;
+      }
+
+      const updated = await change(debate);
+      this.save(updated);
+      return updated;
+    });
+
+    pendingUpdates.set(filePath, next);
+    try {
+      return await next;
+    } finally {
+      if (pendingUpdates.get(filePath) === next) {
+        pendingUpdates.delete(filePath);
+      }
+    }
+  }
+
+  delete(debateId: string): boolean {
+    if (!DEBATE_ID_PATTERN.test(debateId)) {
+      return false;
+    }
+
+    const filePath = this.getFilePath(debateId);
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+
+    fs.unlinkSync(filePath);
+    return true;
+  }
+
+  /**
+   * List stored debates as summaries, filtered and sorted
+   */
+  list(options: DebateListOptions = {}): DebateSummary[] {
+    const { query, personaId, sortBy = 'date', order = 'desc' } = options;
+
+    let summaries = this.readAll().map(debate => this.summarize(debate));
+
+    if (query) {
+      const needle = query.toLowerCase();
+      summaries = summaries.filter(s => s.topic.toLowerCase().includes(needle));
+    }
+
+    if (personaId) {
+      summaries = summaries.filter(s =>
+        s.personas.persona1.id === personaId || s.personas.persona2.id === personaId
+      );
+    }
+
+    const direction = order === 'asc' ? 1 : -1;
+    summaries.sort((a, b) => {
+      const difference = sortBy === 'cost'
+        ? a.totalEstimatedCost - b.totalEstimatedCost
+        : new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+      return difference * direction;
+    });
+
+    return summaries;
+  }
+
+  private readAll(): DebateResult[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    const debates: DebateResult[] = [];
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        debates.push(this.read(path.join(this.directory, file)));
+      } catch (error) {
+        console.warn(`Skipping unreadable debate file ${file}:`, error);
+      }
+    }
+    return debates;
+  }
+
+  /**
+   * Read a debate file, migrating it if it was saved with an older schema
+   */
+  private read(filePath: string): DebateResult {
+    const { debate, errors } = parseDebateResult(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    if (!debate) {
+      throw new Error(`Invalid debate in ${path.basename(filePath)}: ${errors.join('; ')}`);
+    }
+    return debate;
+  }
+
+  private summarize(debate: DebateResult): DebateSummary {
+    const describe = (slot: DebateResult['personas']['persona1']) => ({
+      id: slot.id,
+      characterName: slot.info.characterName,
+      displayName: slot.info.displayName,
+      politicalLeaning: slot.info.politicalLeaning
+    });
+
+    return {
+      debateId: debate.debateId,
+      topic: debate.topic,
+      format: debate.format,
+      timestamp: debate.timestamp,
+      personas: {
+        persona1: describe(debate.personas.persona1),
+        persona2: describe(debate.personas.persona2)
+      },
+      totalEstimatedCost: debate.costAnalysis?.totalEstimatedCost ?? 0
+    };
+  }
+
+  private getFilePath(debateId: string): string {
+    return path.join(this.directory, `${debateId}.json`);
+  }
+}
+
+// Export factory function for easy initialization
+export function createDebateStore(directory?: string): DebateStore {
+  return new DebateStore(
+    directory || process.env.DEBATE_STORE_DIR || path.join(process.cwd(), 'data', 'debates')
+  );
+}
+
+export default DebateStore;
@@ -0,0 +1,156 @@
+/**
+ * DOCX exporter - A Word document; side-by-side essays go in a borderless
+ * two-column table
+ */
+
+import {
+  AlignmentType,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  Table,
+  TableBorders,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import type { ExportBlock, ExportDocument, ExportLayout, ExportPersona, TextRun as ExportTextRun } from '../debate-export';
+
+const NUMBERED_LIST = 'numbered-list';
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+function heading(level: number): (typeof HEADING_LEVELS)[number] {
+  return HEADING_LEVELS[Math.min(Math.max(level, 1), HEADING_LEVELS.length) - 1];
+}
+
+function toRuns(runs: ExportTextRun[]): TextRun[] {
+  return runs.map(run => new TextRun({ text: run.text, bold: run.bold, italics: run.italic }));
+}
+
+/**
+ * Each ordered list gets its own numbering instance so it starts again at 1
+ */
+function renderBlocks(blocks: ExportBlock[], headingOffset: number, nextListInstance: () => number): Paragraph[] {
+  return blocks.flatMap(block => {
+    switch (block.type) {
+      case 'heading':
+        return [new Paragraph({ heading: heading(block.level + headingOffset), children: toRuns(block.runs) })];
+      case 'paragraph':
+        return [new Paragraph({ children: toRuns(block.runs), spacing: { after: 120 } })];
+      case 'list': {
+        const instance = nextListInstance();
+        return block.items.map(item => new Paragraph({
+          children: toRuns(item),
+          ...(block.ordered
+            ? { numbering: { reference: NUMBERED_LIST, level: 0, instance } }
+            : { bullet: { level: 0 } })
+        }));
+      }
+    }
+  });
+}
+
+function renderPersona(persona: ExportPersona, nextListInstance: () => number, pageBreakBefore = false): Paragraph[] {
+  const tags = [persona.leaning, persona.expertise, persona.handle].filter(Boolean).join(' · ');
+
+  return [
+    new Paragraph({ heading: HeadingLevel.HEADING_2, pageBreakBefore, children: [new TextRun(persona.displayName)] }),
+    new Paragraph({ children: [new TextRun({ text: persona.bio, italics: true, color: '555555', size: 19 })] }),
+    new Paragraph({ children: [new TextRun({ text: tags, color: '555555', size: 19 })], spacing: { after: 160 } }),
+    new Paragraph({ heading: HeadingLevel.HEADING_3, children: [new TextRun(persona.title)] }),
+    ...renderBlocks(persona.blocks, 2, nextListInstance),
+    ...renderSources(persona),
+  ];
+}
+
+function renderSources(persona: ExportPersona): Paragraph[] {
+  if (persona.sources.length === 0) return [];
+
+  return [
+    new Paragraph({ heading: HeadingLevel.HEADING_4, children: [new TextRun('Sources')] }),
+    ...persona.sources.map(source => new Paragraph({
+      children: [
+        new TextRun(`[${source.index}] `),
+        new ExternalHyperlink({ link: source.url, children: [new TextRun({ text: source.title, style: 'Hyperlink' })] }),
+        new TextRun({ text: source.url, break: 1, color: '555555', size: 17 }),
+      ],
+      spacing: { after: 80 }
+    })),
+  ];
+}
+
+export async function renderDocx(document: ExportDocument, layout: ExportLayout): Promise<Uint8Array<ArrayBuffer>> {
+  let listInstance = 0;
+  const nextListInstance = () => ++listInstance;
+  const [first, second] = document.personas;
+
+  const essays: Array<Paragraph | Table> = layout === 'side-by-side'
+    ? [new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: TableBorders.NONE,
+      rows: [new TableRow({
+        children: [first, second].map(persona => new TableCell({
+          width: { size: 50, type: WidthType.PERCENTAGE },
+          margins: { left: 120, right: 120 },
+          children: renderPersona(persona, nextListInstance)
+        }))
+      })]
+    })]
+    : [...renderPersona(first, nextListInstance), ...renderPersona(second, nextListInstance, true)];
+
+  const children: Array<Paragraph | Table> = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(document.topic)] }),
+    new Paragraph({ children: [new TextRun({ text: `Debate generated ${document.date}`, color: '555555' })], spacing: { after: 200 } }),
+  ];
+  if (document.context) {
+    children.push(new Paragraph({ children: [new TextRun({ text: 'Context: ', bold: true }), new TextRun(document.context)] }));
+  }
+  if (document.moderator) {
+    children.push(new Paragraph({
+      children: [new TextRun({ text: "Moderator's question: ", bold: true }), new TextRun(document.moderator.question)],
+      spacing: { after: 200 }
+    }));
+  }
+
+  children.push(...essays);
+
+  if (document.moderator && document.moderator.summary.length > 0) {
+    children.push(
+      new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun("Moderator's Summary")] }),
+      ...renderBlocks(document.moderator.summary, 2, nextListInstance)
+    );
+  }
+
+  children.push(
+    new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun('Generation Details')] }),
+    ...document.metadata.map(row => new Paragraph({
+      children: [new TextRun({ text: `${row.label}: `, bold: true }), new TextRun(row.value)]
+    }))
+  );
+
+  const doc = new Document({
+    title: document.topic,
+    description: 'AI-generated debate',
+    numbering: {
+      config: [{
+        reference: NUMBERED_LIST,
+        levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: AlignmentType.START }]
+      }]
+    },
+    sections: [{ children }]
+  });
+
+  return new Uint8Array(await Packer.toBuffer(doc));
+}
@@ -0,0 +1,120 @@
+/**
+ * HTML exporter - A standalone page with print styles, so "Print to PDF" from
+ * a browser gives the same layout as the PDF export
+ */
+
+import type { ExportBlock, ExportDocument, ExportLayout, ExportPersona, TextRun } from '../debate-export';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderRuns(runs: TextRun[]): string {
+  return runs.map(run => {
+    let html = escapeHtml(run.text);
+    if (run.italic) html = `<em>${html}</em>`;
+    if (run.bold) html = `<strong>${html}</strong>`;
+    return html;
+  }).join('');
+}
+
+function renderBlocks(blocks: ExportBlock[], headingOffset: number): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(block.level + headingOffset, 6);
+        return `<h${level}>${renderRuns(block.runs)}</h${level}>`;
+      }
+      case 'paragraph':
+        return `<p>${renderRuns(block.runs)}</p>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        return `<${tag}>${block.items.map(item => `<li>${renderRuns(item)}</li>`).join('')}</${tag}>`;
+      }
+    }
+  }).join('\n');
+}
+
+function renderPersona(persona: ExportPersona): string {
+  const sources = persona.sources.length > 0
+    ? `<section class="sources">
+  <h4>Sources</h4>
+  <ol>${persona.sources.map(source =>
+    `<li value="${source.index}"><a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a><br><span class="url">${escapeHtml(source.url)}</span></li>`
+  ).join('')}</ol>
+</section>`
+    : '';
+
+  return `<article class="persona">
+  <header>
+    <h2>${escapeHtml(persona.displayName)}</h2>
+    <p class="bio">${escapeHtml(persona.bio)}</p>
+    <p class="tags">${escapeHtml(persona.leaning)} · ${escapeHtml(persona.expertise)}${persona.handle ? ` · ${escapeHtml(persona.handle)}` : ''}</p>
+  </header>
+  <h3>${escapeHtml(persona.title)}</h3>
+  ${renderBlocks(persona.blocks, 2)}
+  ${sources}
+</article>`;
+}
+
+const STYLES = `
+  @page { size: letter; margin: 0.75in; }
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 11pt; line-height: 1.5; color: #111; max-width: 8.5in; margin: 0 auto; padding: 0.5in; }
+  h1 { font-size: 22pt; margin: 0 0 4pt; }
+  h2 { font-size: 15pt; margin: 0; }
+  h3 { font-size: 13pt; margin: 12pt 0 6pt; }
+  h4, h5, h6 { font-size: 11pt; margin: 10pt 0 4pt; }
+  .meta, .bio, .tags, .url { color: #555; font-size: 9.5pt; }
+  .bio { font-style: italic; margin: 2pt 0; }
+  .tags { text-transform: capitalize; margin: 0; }
+  .question { border-left: 3pt solid #888; padding-left: 10pt; margin: 12pt 0; }
+  .essays.side-by-side { display: grid; grid-template-columns: 1fr 1fr; gap: 0.35in; }
+  .essays.sequential .persona + .persona { break-before: page; }
+  .persona header { border-bottom: 1pt solid #ccc; padding-bottom: 6pt; }
+  .sources ol { padding-left: 18pt; font-size: 9.5pt; }
+  .sources a { color: inherit; }
+  .url { word-break: break-all; }
+  table.metadata { border-collapse: collapse; font-size: 9.5pt; margin-top: 8pt; }
+  table.metadata th { text-align: left; padding: 2pt 12pt 2pt 0; vertical-align: top; }
+  @media print { body { padding: 0; } a { text-decoration: none; } }
+`;
+
+export function renderHtml(document: ExportDocument, layout: ExportLayout): string {
+  const moderator = document.moderator
+    ? `<p class="question"><strong>Moderator's question:</strong> ${escapeHtml(document.moderator.question)}</p>`
+    : '';
+  const summary = document.moderator && document.moderator.summary.length > 0
+    ? `<section class="summary"><h2>Moderator's Summary</h2>${renderBlocks(document.moderator.summary, 2)}</section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.topic)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(document.topic)}</h1>
+<p class="meta">Debate generated ${escapeHtml(document.date)}</p>
+${document.context ? `<p><strong>Context:</strong> ${escapeHtml(document.context)}</p>` : ''}
+${moderator}
+<div class="essays ${layout}">
+${document.personas.map(renderPersona).join('\n')}
+</div>
+${summary}
+<section>
+  <h2>Generation Details</h2>
+  <table class="metadata">
+    ${document.metadata.map(row => `<tr><th>${escapeHtml(row.label)}</th><td>${escapeHtml(row.value)}</td></tr>`).join('\n    ')}
+  </table>
+</section>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,41 @@
+/**
+ * Markdown exporter - The essays one after the other, as written
+ */
+
+import type { ExportDocument, ExportPersona } from '../debate-export';
+
+function renderPersona(persona: ExportPersona): string {
+  const sources = persona.sources.length > 0
+    ? `\n\n### Sources\n\n${persona.sources.map(source => `${source.index}. [${source.title}](${source.url})`).join('\n')}`
+    : '';
+
+  return `## ${persona.displayName}
+
+*${persona.bio}*${persona.handle ? ` · ${persona.handle}` : ''}
+
+${persona.markdown.trim()}${sources}`;
+}
+
+export function renderMarkdown(document: ExportDocument): string {
+  const sections = [
+    `# ${document.topic}`,
+    `*Debate generated ${document.date}*`
+  ];
+
+  if (document.context) {
+    sections.push(`**Context:** ${document.context}`);
+  }
+  if (document.moderator) {
+    sections.push(`**Moderator's question:** ${document.moderator.question}`);
+  }
+
+  sections.push(...document.personas.map(renderPersona));
+
+  if (document.moderator?.summaryMarkdown.trim()) {
+    sections.push(`## Moderator's Summary\n\n${document.moderator.summaryMarkdown.trim()}`);
+  }
+
+  sections.push(`---\n\n**Generation Details:**\n${document.metadata.map(row => `- ${row.label}: ${row.value}`).join('\n')}`);
+
+  return `${sections.join('\n\n')}\n`;
+}
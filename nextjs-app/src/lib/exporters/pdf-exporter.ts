@@ -0,0 +1,340 @@
+/**
+ * PDF exporter - Lays the debate out on US Letter pages with the standard PDF
+ * fonts, so no font files need to ship with the app
+ */
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import type { ExportBlock, ExportDocument, ExportLayout, ExportPersona, TextRun } from '../debate-export';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const COLUMN_GAP = 24;
+const FOOTER_SIZE = 8;
+const LINE_SPACING = 1.35;
+
+const TEXT_COLOR = rgb(0.07, 0.07, 0.07);
+const MUTED_COLOR = rgb(0.35, 0.35, 0.35);
+
+// The standard fonts use WinAnsi, which has these beyond Latin-1
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+  heading: PDFFont;
+}
+
+interface Segment {
+  text: string;
+  font: PDFFont;
+}
+
+interface Line {
+  segments: Segment[];
+  size: number;
+  /** Space above the line, on top of its own height */
+  spaceBefore: number;
+  indent: number;
+  color?: ReturnType<typeof rgb>;
+}
+
+interface TextStyle {
+  size: number;
+  spaceBefore?: number;
+  font?: PDFFont;
+  color?: ReturnType<typeof rgb>;
+}
+
+/**
+ * Replace characters the standard fonts can't draw, like emoji
+ */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, char =>
+    WIN_ANSI_EXTRAS.includes(char) ? char : /\s/.test(char) ? ' ' : '?'
+  );
+}
+
+function fontFor(fonts: Fonts, run: TextRun): PDFFont {
+  if (run.bold && run.italic) return fonts.boldItalic;
+  if (run.bold) return fonts.bold;
+  if (run.italic) return fonts.italic;
+  return fonts.regular;
+}
+
+function lineHeight(line: Line): number {
+  return line.size * LINE_SPACING;
+}
+
+/**
+ * Word-wrap styled runs to a width. Words longer than a whole line, like
+ * URLs, are broken wherever they have to be.
+ */
+function wrapRuns(runs: TextRun[], fonts: Fonts, width: number, style: TextStyle, prefix?: string): Line[] {
+  const lines: Line[] = [];
+  const { size } = style;
+  let current: Segment[] = [];
+  let currentWidth = 0;
+  let pendingSpace = false;
+  const indent = prefix ? (style.font ?? fonts.regular).widthOfTextAtSize(prefix, size) : 0;
+
+  const startLine = () => {
+    lines.push({
+      segments: current,
+      size,
+      spaceBefore: lines.length === 0 ? style.spaceBefore ?? 0 : 0,
+      indent: lines.length === 0 ? 0 : indent,
+      color: style.color
+    });
+    current = [];
+    currentWidth = 0;
+    pendingSpace = false;
+  };
+
+  const available = () => width - (lines.length === 0 ? 0 : indent);
+
+  if (prefix) {
+    current.push({ text: prefix, font: style.font ?? fonts.regular });
+    currentWidth = indent;
+  }
+
+  for (const run of runs) {
+    const font = style.font ?? fontFor(fonts, run);
+    for (const token of toWinAnsi(run.text).split(/(\s+)/)) {
+      if (!token) continue;
+      if (/^\s+$/.test(token)) {
+        pendingSpace = currentWidth > 0;
+        continue;
+      }
+
+      let word = token;
+      const spaceWidth = pendingSpace ? font.widthOfTextAtSize(' ', size) : 0;
+      let wordWidth = font.widthOfTextAtSize(word, size);
+
+      if (currentWidth + spaceWidth + wordWidth > available() && currentWidth > (lines.length === 0 ? indent : 0)) {
+        startLine();
+      } else if (pendingSpace) {
+        current.push({ text: ' ', font });
+        currentWidth += spaceWidth;
+      }
+      pendingSpace = false;
+
+      // Break a word that can't fit on a line of its own
+      while (wordWidth > available() - currentWidth) {
+        let fit = word.length - 1;
+        while (fit > 1 && font.widthOfTextAtSize(word.slice(0, fit), size) > available() - currentWidth) fit--;
+        current.push({ text: word.slice(0, fit), font });
+        startLine();
+        word = word.slice(fit);
+        wordWidth = font.widthOfTextAtSize(word, size);
+      }
+
+      current.push({ text: word, font });
+      currentWidth += wordWidth;
+    }
+  }
+
+  if (current.length > 0 || lines.length === 0) startLine();
+  return lines;
+}
+
+function blockLines(blocks: ExportBlock[], fonts: Fonts, width: number, bodySize: number): Line[] {
+  return blocks.flatMap(block => {
+    switch (block.type) {
+      case 'heading':
+        return wrapRuns(block.runs, fonts, width, {
+          size: bodySize + Math.max(4 - block.level, 1),
+          spaceBefore: bodySize * 0.8,
+          font: fonts.heading
+        });
+      case 'paragraph':
+        return wrapRuns(block.runs, fonts, width, { size: bodySize, spaceBefore: bodySize * 0.6 });
+      case 'list':
+        return block.items.flatMap((item, index) => wrapRuns(item, fonts, width, {
+          size: bodySize,
+          spaceBefore: index === 0 ? bodySize * 0.6 : bodySize * 0.2
+        }, block.ordered ? `${index + 1}. ` : '•  '));
+    }
+  });
+}
+
+function personaLines(persona: ExportPersona, fonts: Fonts, width: number, bodySize: number): Line[] {
+  const text = (value: string): TextRun[] => [{ text: value }];
+  const tags = [persona.leaning, persona.expertise, persona.handle].filter(Boolean).join(' · ');
+
+  return [
+    ...wrapRuns(text(persona.displayName), fonts, width, { size: bodySize + 4, font: fonts.heading }),
+    ...wrapRuns(text(persona.bio), fonts, width, { size: bodySize - 1, spaceBefore: 2, font: fonts.italic, color: MUTED_COLOR }),
+    ...wrapRuns(text(tags), fonts, width, { size: bodySize - 1, spaceBefore: 2, color: MUTED_COLOR }),
+    ...wrapRuns(text(persona.title), fonts, width, { size: bodySize + 2, spaceBefore: bodySize, font: fonts.heading }),
+    ...blockLines(persona.blocks, fonts, width, bodySize),
+  ];
+}
+
+function sourceLines(persona: ExportPersona, fonts: Fonts, width: number, bodySize: number): Line[] {
+  if (persona.sources.length === 0) return [];
+
+  return [
+    ...wrapRuns([{ text: `Sources - ${persona.name}` }], fonts, width, {
+      size: bodySize,
+      spaceBefore: bodySize,
+      font: fonts.heading
+    }),
+    ...persona.sources.flatMap(source => [
+      ...wrapRuns([{ text: source.title }], fonts, width, { size: bodySize - 1, spaceBefore: 3 }, `[${source.index}] `),
+      ...wrapRuns([{ text: source.url }], fonts, width, { size: bodySize - 2, color: MUTED_COLOR }),
+    ]),
+  ];
+}
+
+class PdfWriter {
+  private document: PDFDocument;
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(document: PDFDocument) {
+    this.document = document;
+    this.newPage();
+  }
+
+  newPage(): void {
+    this.page = this.document.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Draw lines across the page, starting new pages as needed
+   */
+  write(lines: Line[], x: number = MARGIN): void {
+    for (const line of lines) {
+      const height = line.spaceBefore + lineHeight(line);
+      if (this.y - height < MARGIN + FOOTER_SIZE * 2) this.newPage();
+      this.y -= height;
+      this.drawLine(this.page, line, x, this.y);
+    }
+  }
+
+  /**
+   * Draw two columns side by side, each continuing onto the next page, then
+   * move below the longer of the two
+   */
+  writeColumns(left: Line[], right: Line[], columnWidth: number): void {
+    const columns = [
+      { lines: left, x: MARGIN, next: 0 },
+      { lines: right, x: MARGIN + columnWidth + COLUMN_GAP, next: 0 },
+    ];
+    const top = this.y;
+    let lowest = top;
+
+    for (let onFirstPage = true; columns.some(column => column.next < column.lines.length); onFirstPage = false) {
+      if (!onFirstPage) this.newPage();
+      const start = onFirstPage ? top : this.y;
+      lowest = start;
+
+      for (const column of columns) {
+        let y = start;
+        while (column.next < column.lines.length) {
+          const line = column.lines[column.next];
+          const height = line.spaceBefore + lineHeight(line);
+          if (y - height < MARGIN + FOOTER_SIZE * 2) break;
+          y -= height;
+          this.drawLine(this.page, line, column.x, y);
+          column.next++;
+        }
+        lowest = Math.min(lowest, y);
+      }
+    }
+
+    this.y = lowest;
+  }
+
+  rule(): void {
+    this.y -= 8;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: MUTED_COLOR
+    });
+  }
+
+  private drawLine(page: PDFPage, line: Line, x: number, y: number): void {
+    let cursor = x + line.indent;
+    for (const segment of line.segments) {
+      page.drawText(segment.text, { x: cursor, y, size: line.size, font: segment.font, color: line.color ?? TEXT_COLOR });
+      cursor += segment.font.widthOfTextAtSize(segment.text, line.size);
+    }
+  }
+}
+
+export async function renderPdf(document: ExportDocument, layout: ExportLayout): Promise<Uint8Array<ArrayBuffer>> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(toWinAnsi(document.topic));
+  pdf.setSubject('AI-generated debate');
+  pdf.setCreationDate(new Date());
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.TimesRoman),
+    bold: await pdf.embedFont(StandardFonts.TimesRomanBold),
+    italic: await pdf.embedFont(StandardFonts.TimesRomanItalic),
+    boldItalic: await pdf.embedFont(StandardFonts.TimesRomanBoldItalic),
+    heading: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+  const fullWidth = PAGE_WIDTH - MARGIN * 2;
+  const writer = new PdfWriter(pdf);
+  const text = (value: string): TextRun[] => [{ text: value }];
+
+  writer.write([
+    ...wrapRuns(text(document.topic), fonts, fullWidth, { size: 20, font: fonts.heading }),
+    ...wrapRuns(text(`Debate generated ${document.date}`), fonts, fullWidth, { size: 9, spaceBefore: 4, color: MUTED_COLOR }),
+    ...(document.context ? wrapRuns([{ text: 'Context: ', bold: true }, { text: document.context }], fonts, fullWidth, { size: 10.5, spaceBefore: 8 }) : []),
+    ...(document.moderator ? wrapRuns([{ text: "Moderator's question: ", bold: true }, { text: document.moderator.question }], fonts, fullWidth, { size: 10.5, spaceBefore: 8 }) : []),
+  ]);
+  writer.rule();
+
+  const [first, second] = document.personas;
+  if (layout === 'side-by-side') {
+    const columnWidth = (fullWidth - COLUMN_GAP) / 2;
+    writer.writeColumns(
+      personaLines(first, fonts, columnWidth, 9.5),
+      personaLines(second, fonts, columnWidth, 9.5),
+      columnWidth
+    );
+  } else {
+    writer.write(personaLines(first, fonts, fullWidth, 10.5));
+    writer.newPage();
+    writer.write(personaLines(second, fonts, fullWidth, 10.5));
+  }
+
+  if (document.moderator && document.moderator.summary.length > 0) {
+    writer.write([
+      ...wrapRuns(text("Moderator's Summary"), fonts, fullWidth, { size: 13, spaceBefore: 18, font: fonts.heading }),
+      ...blockLines(document.moderator.summary, fonts, fullWidth, 10.5),
+    ]);
+  }
+
+  writer.write([
+    ...sourceLines(first, fonts, fullWidth, 10.5),
+    ...sourceLines(second, fonts, fullWidth, 10.5),
+    ...wrapRuns(text('Generation Details'), fonts, fullWidth, { size: 10.5, spaceBefore: 10.5, font: fonts.heading }),
+    ...document.metadata.flatMap(row =>
+      wrapRuns([{ text: `${row.label}: `, bold: true }, { text: row.value }], fonts, fullWidth, { size: 9.5, spaceBefore: 2 })
+    ),
+  ]);
+
+  // Footers go on last, once the page count is known
+  const pages = pdf.getPages();
+  pages.forEach((page, index) => {
+    page.drawText(toWinAnsi(`${document.topic.slice(0, 90)} - page ${index + 1} of ${pages.length}`), {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: FOOTER_SIZE,
+      font: fonts.regular,
+      color: MUTED_COLOR
+    });
+  });
+
+  return new Uint8Array(await pdf.save());
+}
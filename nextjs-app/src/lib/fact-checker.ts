@@ -0,0 +1,172 @@
+/**
+ * Fact Checker - Pulls the factual claims out of an essay and grades each one
+ * against the persona's sources, or the checking model's own knowledge
+ */
+
+import {
+  FactCheckClaim,
+  FactCheckVerdict,
+  SourceCitation,
+  TokenUsage,
+} from '../types/personas';
+import type { LLMProvider } from './llm-provider';
+
+export const FACT_CHECK_VERDICTS: FactCheckVerdict[] = ['supported', 'contradicted', 'unverifiable'];
+
+const MAX_CLAIMS = 8;
+
+export class FactChecker {
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Grade the claims in one essay. Claims the model can't quote exactly are
+   * dropped, since they couldn't be shown in place.
+   */
+  async checkClaims(
+    topic: string,
+    content: string,
+    sources: SourceCitation[] = [],
+    personaId?: string,
+    signal?: AbortSignal
+  ): Promise<{ claims: FactCheckClaim[]; modelUsed: string; tokenUsage?: TokenUsage }> {
+    const model = this.provider.defaultModel;
+    const response = await this.provider.generate({
+      prompt: this.createCheckPrompt(topic, content, sources),
+      systemPrompt: this.getFactCheckerSystemPrompt(),
+      model,
+      temperature: 0.1, // Grading should be as repeatable as possible
+      maxTokens: 1500,
+      usageLabel: { purpose: 'fact_check', personaId },
+      signal
+    });
+
+    const claims = this.parseClaims(response.content, sources)
+      .filter(claim => locateClaim(content, claim.claim) !== -1);
+
+    return { claims, modelUsed: model, tokenUsage: response.usage };
+  }
+
+  private createCheckPrompt(topic: string, content: string, sources: SourceCitation[]): string {
+    const sourceList = sources.length > 0
+      ? sources.map(source => `[${source.index}] ${source.title} (${source.url}): ${source.snippet}`).join('\n')
+      : 'None';
+
+    return `Fact-check this essay from a debate on: ${topic}
+
+ESSAY:
+"""
+${content}
+"""
+
+SOURCES THE AUTHOR FOUND:
+${sourceList}
+
+Pick out up to ${MAX_CLAIMS} checkable factual claims: statistics, dates, quotes, named examples and statements about what happened. Skip opinions, predictions and calls to action.
+
+For each claim decide:
+- "supported" if a source above or well-established fact backs it
+- "contradicted" if a source above or well-established fact shows it is wrong
+- "unverifiable" if you cannot tell either way
+
+Respond with only a JSON array, no commentary:
+[{"claim": "...", "verdict": "supported", "explanation": "...", "sources": [1]}]
+
+RULES:
+- "claim" must be copied exactly from the essay, word for word, so it can be found in the text
+- "explanation" is one sentence a reader can check
+- "sources" lists the numbers of the sources above you relied on; use [] when you relied on your own knowledge`;
+  }
+
+  /**
+   * Read the model's JSON, tolerating code fences and skipping malformed entries
+   */
+  private parseClaims(text: string, sources: SourceCitation[]): FactCheckClaim[] {
+    const start = text.indexOf('[');
+    const end = text.lastIndexOf(']');
+    if (start === -1 || end < start) {
+      throw new Error('Fact check response did not contain a JSON array');
+    }
+
+    const parsed: unknown = JSON.parse(text.slice(start, end + 1));
+    if (!Array.isArray(parsed)) {
+      throw new Error('Fact check response was not a JSON array');
+    }
+
+    const knownIndexes = new Set(sources.map(source => source.index));
+    const claims: FactCheckClaim[] = [];
+
+    for (const entry of parsed) {
+      if (!entry || typeof entry !== 'object') continue;
+      const { claim, verdict, explanation, sources: cited } = entry as Record<string, unknown>;
+      if (typeof claim !== 'string' || !claim.trim()) continue;
+      if (!FACT_CHECK_VERDICTS.includes(verdict as FactCheckVerdict)) continue;
+
+      claims.push({
+        claim: claim.trim(),
+        verdict: verdict as FactCheckVerdict,
+        explanation: typeof explanation === 'string' ? explanation.trim() : '',
+        sourceIndexes: Array.isArray(cited)
+          ? cited.filter((index): index is number => typeof index === 'number' && knownIndexes.has(index))
+          : []
+      });
+    }
+
+    return claims.slice(0, MAX_CLAIMS);
+  }
+
+  /**
+   * Get system prompt for the fact checker
+   */
+  private getFactCheckerSystemPrompt(): string {
+    return `You are a meticulous, non-partisan fact-checker for a debate publication.
+
+You grade claims from every side by the same standard, say so plainly when a claim can't be verified, and never grade an opinion as a fact.`;
+  }
+}
+
+/**
+ * Find a claim in the text: exactly if possible, otherwise ignoring case
+ */
+export function locateClaim(content: string, claim: string): number {
+  const exact = content.indexOf(claim);
+  return exact !== -1 ? exact : content.toLowerCase().indexOf(claim.toLowerCase());
+}
+
+/**
+ * Insert a <sup data-fact-check="n"> badge placeholder after each claim found
+ * in the text, past any [n] citation markers that follow it, so the markdown
+ * renderer can show the verdict in place
+ */
+export function markFactCheckedClaims(content: string, claims: FactCheckClaim[]): string {
+  const insertions: Array<{ position: number; claimIndex: number }> = [];
+
+  claims.forEach((claim, claimIndex) => {
+    const start = locateClaim(content, claim.claim);
+    if (start === -1) return;
+
+    let position = start + claim.claim.length;
+    const markers = content.slice(position).match(/^(?:[ \t]*\[\d+(?:\s*,\s*\d+)*\])+/);
+    if (markers) {
+      position += markers[0].length;
+    } else if (/[.!?]$/.test(claim.claim)) {
+      // Keep the sentence's own full stop after the badge
+      position--;
+    }
+    insertions.push({ position, claimIndex });
+  });
+
+  // Insert from the end so earlier positions stay valid
+  return insertions
+    .sort((a, b) => b.position - a.position)
+    .reduce(
+      (text, { position, claimIndex }) =>
+        `${text.slice(0, position)}<sup data-fact-check="${claimIndex}"></sup>${text.slice(position)}`,
+      content
+    );
+}
+
+export default FactChecker;
@@ -0,0 +1,127 @@
+/**
+ * Generation Queue - Caps how many debates generate at once, so a burst of
+ * requests waits its turn instead of hitting the provider all together
+ */
+
+export class QueueFullError extends Error {
+  readonly code = 'SERVER_BUSY';
+  readonly statusCode = 503;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueueFullError';
+  }
+}
+
+/**
+ * Told the number of generations ahead of a waiting one, each time it changes
+ */
+export type QueuePositionHandler = (ahead: number) => void;
+
+interface Waiter {
+  start: () => void;
+  onPosition?: QueuePositionHandler;
+}
+
+export class GenerationQueue {
+  readonly maxConcurrent: number;
+  readonly maxWaiting: number;
+  private active = 0;
+  private waiters: Waiter[] = [];
+
+  constructor(maxConcurrent: number, maxWaiting: number) {
+    this.maxConcurrent = maxConcurrent;
+    this.maxWaiting = maxWaiting;
+  }
+
+  get running(): number {
+    return this.active;
+  }
+
+  get waiting(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Run a task once a slot is free. Aborting while it waits takes it out of
+   * the queue; aborting once it runs is up to the task.
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal, onPosition?: QueuePositionHandler): Promise<T> {
+    await this.acquire(signal, onPosition);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal, onPosition?: QueuePositionHandler): Promise<void> {
+    signal?.throwIfAborted();
+
+    if (this.active < this.maxConcurrent) {
+      this.active += 1;
+      return Promise.resolve();
+    }
+    if (this.waiters.length >= this.maxWaiting) {
+      return Promise.reject(new QueueFullError(
+        `${this.active} debates are generating and ${this.waiters.length} are waiting; try again shortly`
+      ));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(other => other !== waiter);
+        this.reportPositions();
+        reject(signal!.reason);
+      };
+      const waiter: Waiter = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        onPosition
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+      onPosition?.(this.active + this.waiters.length - 1);
+    });
+  }
+
+  // The finished generation's slot passes straight to the next waiter
+  private release(): void {
+    const next = this.waiters.shift();
+    if (!next) {
+      this.active -= 1;
+      return;
+    }
+    next.start();
+    this.reportPositions();
+  }
+
+  private reportPositions(): void {
+    this.waiters.forEach((waiter, index) => waiter.onPosition?.(this.active + index));
+  }
+}
+
+let sharedQueue: GenerationQueue | undefined;
+
+function parseCount(value: string | undefined, fallback: number): number {
+  const count = Number(value);
+  return value && Number.isInteger(count) && count >= 0 ? count : fallback;
+}
+
+/**
+ * The queue every generating route shares, sized from the environment on first use
+ */
+export function getGenerationQueue(): GenerationQueue {
+  if (!sharedQueue) {
+    sharedQueue = new GenerationQueue(
+      Math.max(parseCount(process.env.MAX_CONCURRENT_GENERATIONS, 2), 1),
+      parseCount(process.env.MAX_QUEUED_GENERATIONS, 20)
+    );
+  }
+  return sharedQueue;
+}
+
+export default GenerationQueue;
@@ -3,59 +3,68 @@
  * Handles all interactions with XAI's Grok API
  */
 
+import type {
+  LLMProvider,
+  LLMGenerateOptions,
+  LLMResponse,
+  LLMDeltaHandler,
+} from './llm-provider';
+import { needsReasoningModel } from './model-selection';
+import { ModelPricing, PricingTable, getModelPricing, loadModelPricing, priceUsage } from './pricing';
+import { DEFAULT_SEARCH_PROFILE, buildSearchParameters } from './search-profile';
+
 export interface GrokApiConfig {
   apiKey: string;
   baseUrl?: string;
   timeout?: number;
   maxRetries?: number;
+  retryBaseDelayMs?: number;
+  /** Rates by model id; defaults to the table loadModelPricing() returns */
+  pricing?: PricingTable;
+  /** Transport override, e.g. the mock provider's canned responses */
+  fetch?: typeof fetch;
 }
 
-export interface GrokGenerateOptions {
-  prompt: string;
-  systemPrompt?: string;
-  model?: string;
-  temperature?: number;
-  maxTokens?: number;
-  topP?: number;
-  frequencyPenalty?: number;
-  presencePenalty?: number;
-  stop?: string[];
-  useSearch?: boolean;
-}
+export type GrokGenerateOptions = LLMGenerateOptions;
 
-export interface GrokResponse {
-  content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-  model: string;
-  sources?: Array<{
-    url: string;
-    title: string;
-    snippet: string;
-  }>;
-  searchCost?: number;
-}
+export type GrokResponse = LLMResponse;
+
+export type GrokDeltaHandler = LLMDeltaHandler;
 
 export interface GrokError {
   error: string;
   code?: string;
   statusCode?: number;
+  /** How long the API asked us to wait, from its Retry-After header */
+  retryAfterSeconds?: number;
 }
 
-class GrokClient {
+// Used when the pricing table has no entry for grok-4-fast either
+const DEFAULT_GROK_PRICING: ModelPricing = {
+  inputPerMillion: 0.20,
+  outputPerMillion: 0.50,
+  searchPerSource: 0.025 // $25 per 1,000 sources
+};
+
+class GrokClient implements LLMProvider {
+  readonly name: string = 'grok';
+  readonly defaultModel: string = 'grok-4-fast';
   private apiKey: string;
   private baseUrl: string;
   private timeout: number;
   private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private pricing: PricingTable;
+  private fetchImpl: typeof fetch;
 
   constructor(config: GrokApiConfig) {
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl || 'https://api.x.ai/v1';
     this.timeout = config.timeout || 60000; // 60 seconds default
     this.maxRetries = config.maxRetries || 3;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? 1000;
+    this.pricing = config.pricing ?? loadModelPricing();
+    this.fetchImpl = config.fetch || ((input, init) => fetch(input, init));
 
     if (!this.apiKey) {
       throw new Error('XAI_API_KEY is required');
@@ -66,61 +75,71 @@ class GrokClient {
    * Generate content using Grok 4 API
    */
   async generate(options: GrokGenerateOptions): Promise<GrokResponse> {
-    const {
-      prompt,
-      systemPrompt = '',
-      model = 'grok-4-fast',
-      temperature = 0.7,
-      maxTokens = 2000,
-      topP = 1,
-      stop = [],
-      useSearch = false
-    } = options;
+    const { model = 'grok-4-fast', useSearch = false } = options;
 
     // Use standard endpoint for both regular and search requests
     const endpoint = '/chat/completions';
+    const requestBody = this.buildRequestBody(options);
 
-    const messages = [
-      ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
-      { role: 'user', content: prompt }
-    ];
+    let lastError: any;
+    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      this.throwIfCancelled(options.signal);
+      try {
+        const response = await this.makeRequest(endpoint, requestBody, options.signal);
+        return this.parseResponse(response, model, useSearch);
+      } catch (error) {
+        lastError = error;
 
-    const requestBody = {
-      model,
-      messages,
-      temperature,
-      max_tokens: maxTokens,
-      top_p: topP,
-      ...(stop.length > 0 && { stop }),
-      // Add X/Twitter search parameters when search is enabled
-      ...(useSearch && {
-        search_parameters: {
-          domains: ['x.com', 'twitter.com'],
-          post_favorite_count: 10,  // Only posts with 10+ favorites
-          post_view_count: 100,     // Only posts with 100+ views
-          time_range: 'week',       // Posts from last week
-          max_sources: 20           // Limit to 20 sources to control costs
+        // Check if it's a rate limit error
+        if ((error as any).statusCode === 429) {
+          const waitTime = this.getRetryDelay(attempt);
+          console.log(`Rate limited. Waiting ${waitTime}ms before retry...`);
+          await this.sleep(waitTime, options.signal);
+          continue;
         }
-      })
+
+        // For other errors, throw immediately
+        throw error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Generate content with token-level streaming.
+   * Each content delta is passed to onDelta as it arrives; the resolved value
+   * is the same aggregated response generate() would return.
+   */
+  async stream(
+    options: GrokGenerateOptions,
+    onDelta: GrokDeltaHandler
+  ): Promise<GrokResponse> {
+    const { model = 'grok-4-fast', useSearch = false } = options;
+
+    const endpoint = '/chat/completions';
+    const requestBody = {
+      ...this.buildRequestBody(options),
+      stream: true,
+      stream_options: { include_usage: true }
     };
 
     let lastError: any;
     for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      this.throwIfCancelled(options.signal);
       try {
-        const response = await this.makeRequest(endpoint, requestBody);
-        return this.parseResponse(response, model, useSearch);
+        return await this.makeStreamRequest(endpoint, requestBody, model, useSearch, onDelta, options.signal);
       } catch (error) {
         lastError = error;
 
-        // Check if it's a rate limit error
+        // Rate limits can only happen before the first token, so retrying is safe
         if ((error as any).statusCode === 429) {
           const waitTime = this.getRetryDelay(attempt);
           console.log(`Rate limited. Waiting ${waitTime}ms before retry...`);
-          await this.sleep(waitTime);
+          await this.sleep(waitTime, options.signal);
           continue;
         }
 
-        // For other errors, throw immediately
         throw error;
       }
     }
@@ -135,15 +154,50 @@ class GrokClient {
     return this.generate({ ...options, useSearch: true });
   }
 
+  /**
+   * Build the chat completions request body
+   */
+  private buildRequestBody(options: GrokGenerateOptions): Record<string, any> {
+    const {
+      prompt,
+      systemPrompt = '',
+      model = 'grok-4-fast',
+      temperature = 0.7,
+      maxTokens = 2000,
+      topP = 1,
+      stop = [],
+      useSearch = false,
+      searchProfile = DEFAULT_SEARCH_PROFILE,
+      searchPrompt = ''
+    } = options;
+
+    const messages = [
+      ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+      { role: 'user', content: useSearch ? prompt + searchPrompt : prompt }
+    ];
+
+    return {
+      model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      top_p: topP,
+      ...(stop.length > 0 && { stop }),
+      // Add live search parameters when search is enabled
+      ...(useSearch && { search_parameters: buildSearchParameters(searchProfile) })
+    };
+  }
+
   /**
    * Make HTTP request to Grok API
    */
-  private async makeRequest(endpoint: string, body: any): Promise<any> {
+  private async makeRequest(endpoint: string, body: any, signal?: AbortSignal): Promise<any> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const unlink = this.linkSignal(controller, signal);
 
     try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      const response = await this.fetchImpl(`${this.baseUrl}${endpoint}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -161,6 +215,7 @@ class GrokClient {
         throw {
           error: `API request failed: ${response.statusText}`,
           statusCode: response.status,
+          retryAfterSeconds: this.getRetryAfterSeconds(response),
           body: errorBody
         };
       }
@@ -170,13 +225,164 @@ class GrokClient {
       clearTimeout(timeoutId);
 
       if (error.name === 'AbortError') {
+        // The caller's cancellation and our own timeout both surface as an abort
+        this.throwIfCancelled(signal);
+        throw { error: 'Request timeout', code: 'TIMEOUT' };
+      }
+
+      throw error;
+    } finally {
+      unlink();
+    }
+  }
+
+  /**
+   * Make a streaming HTTP request and consume the Server-Sent Events body.
+   * The timeout is reset on every chunk, so it bounds idle time rather than
+   * the total length of the essay.
+   */
+  private async makeStreamRequest(
+    endpoint: string,
+    body: any,
+    model: string,
+    useSearch: boolean,
+    onDelta: GrokDeltaHandler,
+    signal?: AbortSignal
+  ): Promise<GrokResponse> {
+    const controller = new AbortController();
+    let timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    };
+    const unlink = this.linkSignal(controller, signal);
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          'Authorization': `Bearer ${this.apiKey}`,
+          'X-Request-ID': this.generateRequestId()
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw {
+          error: `API request failed: ${response.statusText}`,
+          statusCode: response.status,
+          retryAfterSeconds: this.getRetryAfterSeconds(response),
+          body: errorBody
+        };
+      }
+
+      if (!response.body) {
+        throw { error: 'Invalid response: no stream body returned' };
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+      let usage: any;
+      let searchResults: any[] | undefined;
+
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+
+        const payload = trimmed.slice(5).trim();
+        if (!payload || payload === '[DONE]') return;
+
+        let chunk;
+        try {
+          chunk = JSON.parse(payload);
+        } catch {
+          // One bad event shouldn't lose the rest of the stream
+          console.warn(`Skipping malformed stream event: ${payload.slice(0, 100)}`);
+          return;
+        }
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        if (chunk.search_results || chunk.sources) {
+          searchResults = chunk.search_results || chunk.sources;
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        resetTimeout();
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+
+      // The last event may not end with a newline
+      buffer += decoder.decode();
+      buffer.split('\n').forEach(handleLine);
+
+      clearTimeout(timeoutId);
+
+      return this.parseResponse(
+        {
+          choices: [{ message: { content } }],
+          usage,
+          search_results: searchResults
+        },
+        model,
+        useSearch
+      );
+    } catch (error: any) {
+      clearTimeout(timeoutId);
+
+      if (error.name === 'AbortError') {
+        // The caller's cancellation and our own timeout both surface as an abort
+        this.throwIfCancelled(signal);
         throw { error: 'Request timeout', code: 'TIMEOUT' };
       }
 
       throw error;
+    } finally {
+      unlink();
+    }
+  }
+
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw { error: 'Request cancelled', code: 'CANCELLED' };
     }
   }
 
+  /**
+   * Abort the request's controller when the caller's signal fires.
+   * Returns a function that detaches the listener once the request settles.
+   */
+  private linkSignal(controller: AbortController, signal?: AbortSignal): () => void {
+    if (!signal) return () => {};
+    if (signal.aborted) {
+      controller.abort();
+      return () => {};
+    }
+
+    const onAbort = () => controller.abort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
   /**
    * Parse API response into standardized format
    */
@@ -192,11 +398,7 @@ class GrokClient {
     const result: GrokResponse = {
       content,
       model,
-      usage: response.usage ? {
-        promptTokens: response.usage.prompt_tokens,
-        completionTokens: response.usage.completion_tokens,
-        totalTokens: response.usage.total_tokens
-      } : undefined
+      usage: response.usage ? this.parseUsage(response.usage) : undefined
     };
 
     // Handle X/Twitter search results
@@ -207,18 +409,48 @@ class GrokClient {
         title: source.title || source.name,
         snippet: source.snippet || source.description || source.text
       }));
-      // Cost calculation: $25 per 1,000 sources according to XAI pricing
-      result.searchCost = searchResults.length * 0.025;
+      result.searchCost = searchResults.length * (this.getPricing(model).searchPerSource ?? 0);
     }
 
     return result;
   }
 
+  /**
+   * xAI reports reasoning tokens separately from completion tokens; fold them
+   * in so completionTokens covers all billed output
+   */
+  private parseUsage(usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+    completion_tokens_details?: { reasoning_tokens?: number };
+  }): GrokResponse['usage'] {
+    const cachedPromptTokens = usage.prompt_tokens_details?.cached_tokens;
+    const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens;
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens + (reasoningTokens ?? 0),
+      totalTokens: usage.total_tokens,
+      ...(cachedPromptTokens && { cachedPromptTokens }),
+      ...(reasoningTokens && { reasoningTokens })
+    };
+  }
+
+  /**
+   * Seconds from a Retry-After header; HTTP dates are left out
+   */
+  private getRetryAfterSeconds(response: Response): number | undefined {
+    const seconds = Number(response.headers.get('retry-after') ?? NaN);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+  }
+
   /**
    * Calculate retry delay with exponential backoff
    */
   private getRetryDelay(attempt: number): number {
-    const baseDelay = 1000; // 1 second
+    const baseDelay = this.retryBaseDelayMs; // 1 second unless configured
     const maxDelay = 30000; // 30 seconds
     const delay = Math.min(baseDelay * Math.pow(2, attempt), maxDelay);
     const jitter = Math.random() * 0.3 * delay; // Add up to 30% jitter
@@ -226,10 +458,17 @@ class GrokClient {
   }
 
   /**
-   * Sleep for specified milliseconds
+   * Sleep for specified milliseconds, waking early if the caller cancels
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) return resolve();
+      const timeoutId = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeoutId);
+        resolve();
+      }, { once: true });
+    });
   }
 
   /**
@@ -242,37 +481,24 @@ class GrokClient {
   /**
    * Estimate cost for a generation
    */
-  estimateCost(usage?: GrokResponse['usage'], searchSources: number = 0): number {
-    if (!usage) return 0;
-
-    const inputCostPerToken = 0.20 / 1_000_000;  // $0.20 per 1M input tokens
-    const outputCostPerToken = 0.50 / 1_000_000; // $0.50 per 1M output tokens
-    const searchCostPerSource = 0.025;           // $0.025 per source
-
-    const inputCost = usage.promptTokens * inputCostPerToken;
-    const outputCost = usage.completionTokens * outputCostPerToken;
-    const searchCost = searchSources * searchCostPerSource;
+  estimateCost(usage?: GrokResponse['usage'], searchSources: number = 0, model: string = this.defaultModel): number {
+    return priceUsage(this.getPricing(model), usage, searchSources);
+  }
 
-    return inputCost + outputCost + searchCost;
+  /**
+   * Rates for a model, falling back to the default model's for ids the table doesn't know
+   */
+  private getPricing(model: string): ModelPricing {
+    return getModelPricing(this.pricing, model) ??
+      getModelPricing(this.pricing, this.defaultModel) ??
+      DEFAULT_GROK_PRICING;
   }
 
   /**
    * Select model based on query complexity
    */
   selectModel(topic: string, context?: string): string {
-    const combinedText = `${topic} ${context || ''}`.toLowerCase();
-
-    const reasoningKeywords = [
-      'analyze', 'complex', 'systematic', 'constitutional',
-      'policy', 'economic', 'historical', 'legal', 'impact',
-      'comprehensive', 'evaluate', 'compare', 'explain'
-    ];
-
-    const needsReasoning =
-      reasoningKeywords.some(keyword => combinedText.includes(keyword)) ||
-      combinedText.length > 100;
-
-    return needsReasoning ? 'grok-4-fast-reasoning' : 'grok-4-fast';
+    return needsReasoningModel(topic, context) ? 'grok-4-fast-reasoning' : this.defaultModel;
   }
 }
 
@@ -284,7 +510,12 @@ export function createGrokClient(apiKey?: string): GrokClient {
     throw new Error('XAI API key not found. Set XAI_API_KEY or NEXT_PUBLIC_XAI_API_KEY environment variable.');
   }
 
-  return new GrokClient({ apiKey: key });
+  return new GrokClient({
+    apiKey: key,
+    baseUrl: process.env.XAI_BASE_URL,
+    timeout: 60000,
+    maxRetries: 3
+  });
 }
 
 export default GrokClient;
\ No newline at end of file
@@ -0,0 +1,24 @@
+/**
+ * Badge and avatar colors for each political leaning
+ */
+
+const LEANING_COLORS: Record<string, string> = {
+  liberal: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  conservative: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
+  libertarian: 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300',
+  centrist: 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300',
+  populist: 'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300',
+  green: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+};
+
+const DEFAULT_COLOR = 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300';
+
+export function getLeaningColor(leaning: string): string {
+  return LEANING_COLORS[leaning.toLowerCase()] ?? DEFAULT_COLOR;
+}
+
+export const PAIRING_POLICY_LABELS: Record<string, string> = {
+  opposing_leaning: 'Opposing leanings',
+  same_leaning_different_expertise: 'Same leaning, different expertise',
+  any: 'Any two personas',
+};
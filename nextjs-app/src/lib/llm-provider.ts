@@ -0,0 +1,143 @@
+/**
+ * LLM Provider - Common interface for the models that write debates
+ */
+
+import { z } from 'zod';
+import { SearchProfile, TokenUsage, UsageLabel } from '../types/personas';
+import { createGrokClient } from './grok-client';
+import { OpenAIProvider } from './providers/openai-provider';
+import { LocalProvider } from './providers/local-provider';
+import { createMockProvider } from './providers/mock-provider';
+
+export interface LLMGenerateOptions {
+  prompt: string;
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[];
+  useSearch?: boolean;
+  /** Settings for live search; providers fall back to their defaults */
+  searchProfile?: SearchProfile;
+  /**
+   * How to use and cite live search, added to the prompt only if the call
+   * still searches when it is sent, since the budget can drop search
+   */
+  searchPrompt?: string;
+  /** What the call is for; read by the usage ledger, ignored by providers */
+  usageLabel?: UsageLabel;
+  /** Aborts the upstream request when the caller gives up on it */
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  content: string;
+  usage?: TokenUsage;
+  model: string;
+  sources?: Array<{
+    url: string;
+    title: string;
+    snippet: string;
+  }>;
+  searchCost?: number;
+}
+
+export type LLMDeltaHandler = (delta: string) => void;
+
+export interface LLMProvider {
+  /** Provider id recorded on generated content, e.g. "grok" */
+  readonly name: string;
+  /** Fast, inexpensive model used for helper calls like voice enhancement */
+  readonly defaultModel: string;
+
+  generate(options: LLMGenerateOptions): Promise<LLMResponse>;
+  stream(options: LLMGenerateOptions, onDelta: LLMDeltaHandler): Promise<LLMResponse>;
+  estimateCost(usage?: LLMResponse['usage'], searchSources?: number, model?: string): number;
+  selectModel(topic: string, context?: string): string;
+}
+
+export const LLM_PROVIDER_NAMES = ['grok', 'openai', 'local', 'mock'] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDER_NAMES[number];
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Human-readable message for a provider failure. GrokClient throws plain
+ * `{ error, code, statusCode }` objects rather than Error instances.
+ */
+export function describeLLMError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && typeof (error as { error?: unknown }).error === 'string') {
+    return (error as { error: string }).error;
+  }
+  return 'Unknown error';
+}
+
+const personaModelSchema = z.object({
+  provider: z.enum(LLM_PROVIDER_NAMES, { error: `must be one of: ${LLM_PROVIDER_NAMES.join(', ')}` }).optional(),
+  model: z.string({ error: 'must be a non-empty string' })
+    .trim()
+    .min(1, { error: 'must be a non-empty string' })
+    .optional(),
+}, { error: 'must be an object' });
+
+/**
+ * A request's per-persona provider/model choices
+ */
+export const personaModelsSchema = z.strictObject({
+  persona1: personaModelSchema.optional(),
+  persona2: personaModelSchema.optional(),
+}, { error: 'must be an object keyed by persona1/persona2' })
+  .nullish()
+  .transform(personaModels => personaModels ?? undefined);
+
+/**
+ * Providers whose credentials are present in the environment
+ */
+export function getConfiguredProviders(): LLMProviderName[] {
+  return LLM_PROVIDER_NAMES.filter(name => {
+    switch (name) {
+      case 'grok':
+        return Boolean(process.env.XAI_API_KEY);
+      case 'openai':
+        return Boolean(process.env.OPENAI_API_KEY);
+      case 'local':
+        return Boolean(process.env.LOCAL_LLM_BASE_URL || process.env.LOCAL_LLM_MODEL);
+      case 'mock':
+        // Opt-in only, so canned essays never show up next to real providers by accident
+        return process.env.LLM_PROVIDER === 'mock';
+    }
+  });
+}
+
+// Export factory function for easy initialization
+export function createLLMProvider(name?: LLMProviderName): LLMProvider {
+  const providerName = name || (process.env.LLM_PROVIDER as LLMProviderName | undefined) || 'grok';
+
+  switch (providerName) {
+    case 'grok':
+      return createGrokClient();
+    case 'openai':
+      return new OpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY || '',
+        baseUrl: process.env.OPENAI_BASE_URL,
+        defaultModel: process.env.OPENAI_MODEL,
+        reasoningModel: process.env.OPENAI_REASONING_MODEL
+      });
+    case 'local':
+      return new LocalProvider({
+        baseUrl: process.env.LOCAL_LLM_BASE_URL,
+        defaultModel: process.env.LOCAL_LLM_MODEL
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${providerName}". Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}`);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Model Selection - Shared heuristics for picking a model tier
+ * Kept free of provider imports so every provider can use it
+ */
+
+/**
+ * Decide whether a topic is complex enough to warrant a reasoning model
+ */
+export function needsReasoningModel(topic: string, context?: string): boolean {
+  const combinedText = `${topic} ${context || ''}`.toLowerCase();
+
+  const reasoningKeywords = [
+    'analyze', 'complex', 'systematic', 'constitutional',
+    'policy', 'economic', 'historical', 'legal', 'impact',
+    'comprehensive', 'evaluate', 'compare', 'explain'
+  ];
+
+  return reasoningKeywords.some(keyword => combinedText.includes(keyword)) ||
+    combinedText.length > 100;
+}
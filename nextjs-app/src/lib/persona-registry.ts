@@ -8,14 +8,82 @@ import {
   PoliticalLeaning,
   ExpertiseLevel,
   PersonaCombination,
+  PairingPolicy,
 } from '../types/personas';
+import type { PersonaStore } from './persona-store';
+
+/**
+ * Pairing policy used when a request doesn't name one (DEBATE_PAIRING_POLICY env)
+ */
+export function getDefaultPairingPolicy(): PairingPolicy {
+  const configured = process.env.DEBATE_PAIRING_POLICY as PairingPolicy | undefined;
+  return configured && Object.values(PairingPolicy).includes(configured)
+    ? configured
+    : PairingPolicy.OPPOSING_LEANING;
+}
+
+export function describePairingPolicy(policy: PairingPolicy): string {
+  switch (policy) {
+    case PairingPolicy.OPPOSING_LEANING:
+      return 'personas must have different political leanings';
+    case PairingPolicy.SAME_LEANING_DIFFERENT_EXPERTISE:
+      return 'personas must share a political leaning but differ in expertise';
+    case PairingPolicy.ANY:
+      return 'personas must be two different personas';
+  }
+}
 
 export class PersonaRegistry {
-  private personas: Map<PersonaType, PersonaProfile>;
+  private personas: Map<string, PersonaProfile>;
 
-  constructor() {
+  constructor(store?: PersonaStore) {
     this.personas = new Map();
     this.initializePersonas();
+
+    if (store) {
+      this.loadCustomPersonas(store);
+    }
+  }
+
+  /**
+   * Register user-defined personas from the store. Built-in ids always win.
+   */
+  private loadCustomPersonas(store: PersonaStore): void {
+    for (const profile of store.list()) {
+      if (this.isBuiltIn(profile.personaId)) {
+        console.warn(`Skipping custom persona "${profile.personaId}": id is reserved`);
+        continue;
+      }
+      this.registerPersona(profile);
+    }
+  }
+
+  public registerPersona(profile: PersonaProfile): void {
+    this.personas.set(profile.personaId, {
+      ...profile,
+      systemPrompt: profile.systemPrompt || this.buildDefaultSystemPrompt(profile),
+    });
+  }
+
+  public isBuiltIn(personaId: string): boolean {
+    return (Object.values(PersonaType) as string[]).includes(personaId);
+  }
+
+  /**
+   * System prompt for custom personas that don't bring their own
+   */
+  private buildDefaultSystemPrompt(profile: PersonaProfile): string {
+    return `You are ${profile.characterName}, ${profile.description}.
+
+Your background: ${profile.background}
+
+You are a ${profile.politicalLeaning} voice writing at the ${profile.expertiseLevel} level. Your influences include ${profile.keyInfluences.join(', ')}, and you trust sources like ${profile.preferredSources.join(', ')}. You post as ${profile.socialMediaHandle}.
+
+WRITING VOICE & STYLE:
+- ${profile.writingStyle}
+- Work in signature phrases naturally: ${profile.signaturePhrases.map(phrase => `"${phrase}"`).join(', ')}
+
+When writing, stay fully in character: argue your side with conviction while keeping your facts straight.`;
   }
 
   private initializePersonas(): void {
@@ -208,8 +276,8 @@ COMMUNICATION STYLE & VOICE:
 When writing, channel the voice of someone who combines judicial gravitas with media sophistication - intellectually rigorous but accessible, conservative but principled, passionate about the Constitution but grounded in legal scholarship.`;
   }
 
-  public getPersona(type: PersonaType): PersonaProfile | undefined {
-    return this.personas.get(type);
+  public getPersona(personaId: string): PersonaProfile | undefined {
+    return this.personas.get(personaId);
   }
 
   public getAllPersonas(): PersonaProfile[] {
@@ -220,17 +288,34 @@ When writing, channel the voice of someone who combines judicial gravitas with m
     return this.getAllPersonas().filter(p => p.politicalLeaning === leaning);
   }
 
-  public validatePersonaPair(persona1: PersonaType, persona2: PersonaType): boolean {
+  public validatePersonaPair(
+    persona1: string,
+    persona2: string,
+    policy: PairingPolicy = getDefaultPairingPolicy()
+  ): boolean {
     const p1 = this.personas.get(persona1);
     const p2 = this.personas.get(persona2);
 
     if (!p1 || !p2) return false;
 
-    // Must be from opposing political leanings
-    return p1.politicalLeaning !== p2.politicalLeaning;
+    return this.isPairAllowed(p1, p2, policy);
+  }
+
+  private isPairAllowed(p1: PersonaProfile, p2: PersonaProfile, policy: PairingPolicy): boolean {
+    if (p1.personaId === p2.personaId) return false;
+
+    switch (policy) {
+      case PairingPolicy.OPPOSING_LEANING:
+        return p1.politicalLeaning !== p2.politicalLeaning;
+      case PairingPolicy.SAME_LEANING_DIFFERENT_EXPERTISE:
+        return p1.politicalLeaning === p2.politicalLeaning &&
+          p1.expertiseLevel !== p2.expertiseLevel;
+      case PairingPolicy.ANY:
+        return true;
+    }
   }
 
-  public getValidCombinations(): PersonaCombination[] {
+  public getValidCombinations(policy: PairingPolicy = getDefaultPairingPolicy()): PersonaCombination[] {
     const combinations: PersonaCombination[] = [];
     const allPersonas = this.getAllPersonas();
 
@@ -239,7 +324,7 @@ When writing, channel the voice of someone who combines judicial gravitas with m
         const p1 = allPersonas[i];
         const p2 = allPersonas[j];
 
-        if (p1.politicalLeaning !== p2.politicalLeaning) {
+        if (this.isPairAllowed(p1, p2, policy)) {
           combinations.push({
             id: `${p1.personaId}_vs_${p2.personaId}`,
             displayName: `${p1.displayName} vs ${p2.displayName}`,
@@ -263,6 +348,7 @@ When writing, channel the voice of someone who combines judicial gravitas with m
     characterName: string;
     socialMediaHandle: string;
     keyInfluences: string[];
+    isCustom: boolean;
   }> {
     return this.getAllPersonas().map(p => ({
       id: p.personaId,
@@ -272,7 +358,8 @@ When writing, channel the voice of someone who combines judicial gravitas with m
       expertiseLevel: p.expertiseLevel,
       characterName: p.characterName,
       socialMediaHandle: p.socialMediaHandle,
-      keyInfluences: p.keyInfluences.slice(0, 3)
+      keyInfluences: p.keyInfluences.slice(0, 3),
+      isCustom: !this.isBuiltIn(p.personaId)
     }));
   }
 }
@@ -0,0 +1,169 @@
+/**
+ * Persona Store - Persists user-defined personas to a local JSON file
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PersonaProfile, PoliticalLeaning, ExpertiseLevel } from '../types/personas';
+
+const PERSONA_ID_PATTERN = /^[a-z0-9][a-z0-9_]{2,63}$/;
+
+export class PersonaStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * List all custom personas
+   */
+  list(): PersonaProfile[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      return Array.isArray(data.personas) ? data.personas : [];
+    } catch (error) {
+      console.error(`Failed to read persona store at ${this.filePath}:`, error);
+      return [];
+    }
+  }
+
+  get(personaId: string): PersonaProfile | undefined {
+    return this.list().find(p => p.personaId === personaId);
+  }
+
+  create(profile: PersonaProfile): PersonaProfile {
+    const personas = this.list();
+    if (personas.some(p => p.personaId === profile.personaId)) {
+      throw new Error(`Persona "${profile.personaId}" already exists`);
+    }
+
+    this.write([...personas, profile]);
+    return profile;
+  }
+
+  update(personaId: string, profile: PersonaProfile): PersonaProfile {
+    const personas = this.list();
+    const index = personas.findIndex(p => p.personaId === personaId);
+    if (index === -1) {
+      throw new Error(`Persona "${personaId}" not found`);
+    }
+
+    // The id is the key debates refer to, so it never changes on update
+    personas[index] = { ...profile, personaId };
+    this.write(personas);
+    return personas[index];
+  }
+
+  delete(personaId: string): boolean {
+    const personas = this.list();
+    const remaining = personas.filter(p => p.personaId !== personaId);
+    if (remaining.length === personas.length) {
+      return false;
+    }
+
+    this.write(remaining);
+    return true;
+  }
+
+  /**
+   * Write via a temp file so a crash never leaves a half-written store
+   */
+  private write(personas: PersonaProfile[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ personas }, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Check an incoming persona payload and normalize it into a PersonaProfile.
+ * Returns the list of problems when the payload is not usable.
+ */
+export function validatePersonaProfile(payload: unknown): { profile?: PersonaProfile; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!payload || typeof payload !== 'object') {
+    return { errors: ['Persona must be a JSON object'] };
+  }
+  const input = payload as Record<string, unknown>;
+  const text = (field: string) => (input[field] as string).trim();
+
+  const requiredStrings = [
+    'personaId',
+    'displayName',
+    'description',
+    'characterName',
+    'background',
+    'writingStyle',
+    'socialMediaHandle'
+  ];
+  for (const field of requiredStrings) {
+    const value = input[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`${field} is required`);
+    }
+  }
+
+  if (typeof input.personaId === 'string' && !PERSONA_ID_PATTERN.test(input.personaId)) {
+    errors.push('personaId must be 3-64 lowercase letters, digits or underscores');
+  }
+
+  if (!Object.values(PoliticalLeaning).includes(input.politicalLeaning as PoliticalLeaning)) {
+    errors.push(`politicalLeaning must be one of: ${Object.values(PoliticalLeaning).join(', ')}`);
+  }
+
+  if (!Object.values(ExpertiseLevel).includes(input.expertiseLevel as ExpertiseLevel)) {
+    errors.push(`expertiseLevel must be one of: ${Object.values(ExpertiseLevel).join(', ')}`);
+  }
+
+  const requiredLists = ['keyInfluences', 'signaturePhrases', 'preferredSources'];
+  for (const field of requiredLists) {
+    const value = input[field];
+    if (!Array.isArray(value) || value.length === 0 || value.some(item => typeof item !== 'string')) {
+      errors.push(`${field} must be a non-empty list of strings`);
+    }
+  }
+
+  if (input.systemPrompt !== undefined && typeof input.systemPrompt !== 'string') {
+    errors.push('systemPrompt must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const systemPrompt = (input.systemPrompt as string | undefined)?.trim();
+  return {
+    profile: {
+      personaId: input.personaId as string,
+      displayName: text('displayName'),
+      description: text('description'),
+      politicalLeaning: input.politicalLeaning as PoliticalLeaning,
+      expertiseLevel: input.expertiseLevel as ExpertiseLevel,
+      characterName: text('characterName'),
+      background: text('background'),
+      writingStyle: text('writingStyle'),
+      keyInfluences: input.keyInfluences as string[],
+      signaturePhrases: input.signaturePhrases as string[],
+      preferredSources: input.preferredSources as string[],
+      socialMediaHandle: text('socialMediaHandle'),
+      ...(systemPrompt && { systemPrompt })
+    },
+    errors
+  };
+}
+
+// Export factory function for easy initialization
+export function createPersonaStore(filePath?: string): PersonaStore {
+  return new PersonaStore(
+    filePath || process.env.PERSONA_STORE_PATH || path.join(process.cwd(), 'data', 'personas.json')
+  );
+}
+
+export default PersonaStore;
@@ -0,0 +1,109 @@
+/**
+ * Pricing - Per-model token and search rates, used to turn reported usage into
+ * dollars. The built-in table can be overridden with a JSON file.
+ */
+
+import fs from 'fs';
+import { TokenUsage } from '../types/personas';
+
+export interface ModelPricing {
+  /** US dollars per million uncached prompt tokens */
+  inputPerMillion: number;
+  outputPerMillion: number;
+  /** Prompt tokens served from cache; billed as input when not set */
+  cachedInputPerMillion?: number;
+  /** Hidden reasoning tokens; billed as output when not set */
+  reasoningPerMillion?: number;
+  /** US dollars per live search source */
+  searchPerSource?: number;
+}
+
+export type PricingTable = Record<string, ModelPricing>;
+
+// List prices, keyed by model id
+export const DEFAULT_MODEL_PRICING: PricingTable = {
+  'grok-4-fast': { inputPerMillion: 0.20, cachedInputPerMillion: 0.05, outputPerMillion: 0.50, searchPerSource: 0.025 },
+  'grok-4-fast-reasoning': { inputPerMillion: 0.20, cachedInputPerMillion: 0.05, outputPerMillion: 0.50, searchPerSource: 0.025 },
+  'grok-4-fast-non-reasoning': { inputPerMillion: 0.20, cachedInputPerMillion: 0.05, outputPerMillion: 0.50, searchPerSource: 0.025 },
+  'grok-4': { inputPerMillion: 3.00, cachedInputPerMillion: 0.75, outputPerMillion: 15.00, searchPerSource: 0.025 },
+  'grok-3': { inputPerMillion: 3.00, cachedInputPerMillion: 0.75, outputPerMillion: 15.00, searchPerSource: 0.025 },
+  'grok-3-mini': { inputPerMillion: 0.30, cachedInputPerMillion: 0.075, outputPerMillion: 0.50, searchPerSource: 0.025 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, cachedInputPerMillion: 0.075, outputPerMillion: 0.60 },
+  'gpt-4o': { inputPerMillion: 2.50, cachedInputPerMillion: 1.25, outputPerMillion: 10.00 },
+  'gpt-4.1-mini': { inputPerMillion: 0.40, cachedInputPerMillion: 0.10, outputPerMillion: 1.60 },
+  'gpt-4.1': { inputPerMillion: 2.00, cachedInputPerMillion: 0.50, outputPerMillion: 8.00 },
+  'o4-mini': { inputPerMillion: 1.10, cachedInputPerMillion: 0.275, outputPerMillion: 4.40 },
+};
+
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isModelPricing(value: unknown): value is ModelPricing {
+  if (!value || typeof value !== 'object') return false;
+  const pricing = value as Record<string, unknown>;
+  return isRate(pricing.inputPerMillion) &&
+    isRate(pricing.outputPerMillion) &&
+    ['cachedInputPerMillion', 'reasoningPerMillion', 'searchPerSource']
+      .every(field => pricing[field] === undefined || isRate(pricing[field]));
+}
+
+/**
+ * The built-in table with any overrides from MODEL_PRICING_PATH merged over it.
+ * Malformed entries are skipped so a typo can't zero out a model's price.
+ */
+export function loadModelPricing(filePath: string | undefined = process.env.MODEL_PRICING_PATH): PricingTable {
+  if (!filePath) {
+    return { ...DEFAULT_MODEL_PRICING };
+  }
+
+  try {
+    const overrides: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      throw new Error('expected an object keyed by model id');
+    }
+
+    const table: PricingTable = { ...DEFAULT_MODEL_PRICING };
+    for (const [model, pricing] of Object.entries(overrides as Record<string, unknown>)) {
+      if (isModelPricing(pricing)) {
+        table[model] = pricing;
+      } else {
+        console.warn(`Ignoring invalid pricing for model "${model}" in ${filePath}`);
+      }
+    }
+    return table;
+  } catch (error) {
+    console.error(`Failed to read model pricing at ${filePath}:`, error);
+    return { ...DEFAULT_MODEL_PRICING };
+  }
+}
+
+/**
+ * Rates for a model: an exact match, else the longest id it starts with, so
+ * dated snapshots like "gpt-4o-mini-2024-07-18" find their family
+ */
+export function getModelPricing(table: PricingTable, model: string): ModelPricing | undefined {
+  if (table[model]) return table[model];
+
+  const family = Object.keys(table)
+    .filter(id => model.startsWith(`${id}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? table[family] : undefined;
+}
+
+/**
+ * Dollar cost of one call
+ */
+export function priceUsage(pricing: ModelPricing, usage?: TokenUsage, searchSources: number = 0): number {
+  if (!usage) return 0;
+
+  const cachedTokens = Math.min(usage.cachedPromptTokens ?? 0, usage.promptTokens);
+  const reasoningTokens = Math.min(usage.reasoningTokens ?? 0, usage.completionTokens);
+  const perToken = (perMillion: number) => perMillion / 1_000_000;
+
+  return (usage.promptTokens - cachedTokens) * perToken(pricing.inputPerMillion) +
+    cachedTokens * perToken(pricing.cachedInputPerMillion ?? pricing.inputPerMillion) +
+    (usage.completionTokens - reasoningTokens) * perToken(pricing.outputPerMillion) +
+    reasoningTokens * perToken(pricing.reasoningPerMillion ?? pricing.outputPerMillion) +
+    searchSources * (pricing.searchPerSource ?? 0);
+}
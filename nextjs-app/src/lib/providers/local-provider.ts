@@ -0,0 +1,30 @@
+/**
+ * Local/offline provider for Ollama or llama.cpp
+ * Both expose an OpenAI-compatible API, so this only changes defaults and pricing
+ */
+
+import { OpenAIProvider } from './openai-provider';
+
+export interface LocalProviderConfig {
+  baseUrl?: string;
+  defaultModel?: string;
+}
+
+export class LocalProvider extends OpenAIProvider {
+  readonly name: string = 'local';
+
+  constructor(config: LocalProviderConfig = {}) {
+    super({
+      apiKey: 'local', // Ignored by local servers, required by the SDK
+      baseUrl: config.baseUrl || 'http://localhost:11434/v1', // Ollama default
+      defaultModel: config.defaultModel || 'llama3.1',
+      // Running locally is free, whatever the model is called
+      inputCostPerMillion: 0,
+      outputCostPerMillion: 0,
+      pricing: {},
+      maxRetries: 1
+    });
+  }
+}
+
+export default LocalProvider;
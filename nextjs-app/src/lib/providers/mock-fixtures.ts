@@ -0,0 +1,223 @@
+/**
+ * Canned responses for the mock provider
+ * Fixtures are checked in order and the first whose `match` text appears wins,
+ * so specific fixtures must come first. The system prompt is searched before the
+ * prompt, since a debate turn's prompt also names the opponent.
+ */
+
+import fs from 'fs';
+
+export interface MockSearchResult {
+  url: string;
+  title: string;
+  snippet: string;
+}
+
+export interface MockFixture {
+  /** Case-insensitive text to look for; omit for the fallback fixture */
+  match?: string;
+  content: string;
+  searchResults?: MockSearchResult[];
+}
+
+export const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    match: 'voice coach',
+    content: `Let me be straight with you about what is at stake here, because the people who will live with this decision deserve more than talking points. I have spent years listening to them, and what they ask for is simple: a plan that works and leaders who own the results.`
+  },
+  {
+    match: 'Write the single framing question',
+    content: 'What should government be responsible for on this issue, and what tradeoffs are you willing to accept to get it?'
+  },
+  {
+    match: 'Write one follow-up question',
+    content: 'Each of you has claimed the other side ignores the costs. What is the single largest cost of your own proposal, and who pays it?'
+  },
+  {
+    // One answer for every essay: the fact checker drops claims that aren't in the essay it checked
+    match: 'non-partisan fact-checker',
+    content: JSON.stringify([
+      {
+        claim: 'Costs have climbed faster than wages for a decade',
+        verdict: 'supported',
+        explanation: 'The cited post reports costs outpacing wages for ten straight years.',
+        sources: [1]
+      },
+      {
+        claim: 'Cities that invested early and held corporations to clear rules saw better outcomes and lower long-run costs',
+        verdict: 'unverifiable',
+        explanation: 'No city or study is named, so the comparison cannot be checked.',
+        sources: []
+      },
+      {
+        claim: 'well-designed public standards reduce costs over time without suppressing innovation',
+        verdict: 'supported',
+        explanation: 'The cited comparison found long-run cost reductions under public standards.',
+        sources: [1]
+      },
+      {
+        claim: 'Small businesses in my town spend hours on paperwork that helps no one',
+        verdict: 'unverifiable',
+        explanation: 'An anecdote about one town; the cited post covers compliance costs, not hours.',
+        sources: []
+      },
+      {
+        claim: 'Every time a new mandate comes down from far away, it costs us more and delivers less',
+        verdict: 'contradicted',
+        explanation: 'Outcomes vary by mandate; some federal programs have measurably lowered local costs.',
+        sources: []
+      },
+      {
+        claim: 'compliance burdens fall hardest on smaller firms',
+        verdict: 'supported',
+        explanation: 'The cited study puts small-firm compliance costs at three times the per-employee rate.',
+        sources: [1]
+      }
+    ])
+  },
+  {
+    match: 'Where They Agree',
+    content: `## Where They Agree
+
+Both participants accept that the status quo is not working and that ordinary families bear most of the cost.
+
+## Where They Disagree
+
+They disagree about who should act first: one side looks to public investment and regulation, the other to markets and local control.
+
+## Questions Left Open
+
+Neither side put a price on its plan, and both cited figures the other disputed.`
+  },
+  {
+    match: 'Alex Rivera',
+    content: `# This Is About Who We Leave Behind
+
+Last spring I sat in a church basement with forty neighbors who had all done everything right and were still one bad month away from losing everything. That room is the real debate, and it is the one the people in charge keep skipping.
+
+The numbers tell the same story the room did. Costs have climbed faster than wages for a decade [https://x.com/policywatch/status/1000000000000000002], and the gap lands hardest on the people with the least room to absorb it.
+
+We know what works because we have watched it work. Cities that invested early and held corporations to clear rules saw better outcomes and lower long-run costs.
+
+The other side will tell you we cannot afford to act. Ask them what it costs to keep doing nothing, and who has been paying that bill.
+
+So here is the ask: call your representatives, show up at the next council meeting, and bring a neighbor. When we organize, we win.`,
+    searchResults: [
+      {
+        url: 'https://x.com/communityvoices/status/1000000000000000001',
+        title: 'Community Voices on X',
+        snippet: 'Forty families showed up tonight to demand a real plan.'
+      },
+      {
+        url: 'https://x.com/policywatch/status/1000000000000000002',
+        title: 'Policy Watch on X',
+        snippet: 'New figures show costs outpacing wages for the tenth straight year.'
+      }
+    ]
+  },
+  {
+    match: 'Dr. Maya Chen',
+    content: `# A Framework That Matches the Evidence
+
+As I noted in recent testimony, the policy debate has drifted away from what the research actually supports. The evidence base here is broad, and it points in a consistent direction.
+
+Comparative data from peer nations show that well-designed public standards reduce costs over time without suppressing innovation [https://x.com/econresearch/status/1000000000000000003]. The design details matter far more than the slogans.
+
+Critics argue that regulation stifles growth. The record does not bear that out: the most durable gains came where rules were clear, predictable and enforced.
+
+I recommend three steps: a transparent baseline standard, independent evaluation after three years, and targeted support for the communities most exposed to the transition.
+
+Policymakers have the evidence they need. What remains is the will to use it.`,
+    searchResults: [
+      {
+        url: 'https://x.com/econresearch/status/1000000000000000003',
+        title: 'Economic Research on X',
+        snippet: 'Peer-nation comparison: standards lowered long-run costs by double digits.'
+      }
+    ]
+  },
+  {
+    match: 'Jordan Hale',
+    content: `# Let Us Handle This Ourselves
+
+Where I come from, nobody waits for Washington to fix a fence. We fix it, and we help our neighbor fix theirs. That is the spirit this debate keeps forgetting.
+
+Every time a new mandate comes down from far away, it costs us more and delivers less. Small businesses in my town spend hours on paperwork that helps no one [https://x.com/mainstreetusa/status/1000000000000000004].
+
+What works is local control and honest competition. Towns that cut red tape and trusted their own people found solutions faster and cheaper.
+
+The other side says we need more oversight. I say we need more freedom and more accountability to the people actually affected.
+
+So get involved locally. Run for the school board, support the shop down the street, and hold every official to their word.`,
+    searchResults: [
+      {
+        url: 'https://x.com/mainstreetusa/status/1000000000000000004',
+        title: 'Main Street USA on X',
+        snippet: 'Local businesses report compliance costs doubled in five years.'
+      }
+    ]
+  },
+  {
+    match: 'Michael Sterling',
+    content: `# Markets, Not Mandates
+
+Having advised on this question for two decades, I can say plainly that the centralized approach has been tried, measured and found wanting.
+
+The data show that compliance burdens fall hardest on smaller firms, which in turn reduces competition and raises prices for consumers [https://x.com/regwatch/status/1000000000000000005]. Well-intended rules often entrench the incumbents they were meant to discipline.
+
+Constitutional limits exist for good reason. Decisions of this scale belong with legislatures and, where possible, with the states.
+
+My recommendations: sunset clauses on new rules, cost-benefit review before enactment, and regulatory sandboxes that let competitors prove better ideas.
+
+Prosperity follows freedom. Policy should start there.`,
+    searchResults: [
+      {
+        url: 'https://x.com/regwatch/status/1000000000000000005',
+        title: 'Regulatory Watch on X',
+        snippet: 'Study: small firms bear three times the per-employee compliance cost.'
+      }
+    ]
+  },
+  {
+    content: `# A Clear Position on the Question
+
+This is a canned response from the mock LLM provider. It stands in for a full essay so the debate flow can run without network access.
+
+The argument proceeds in three steps: what the problem is, what has worked elsewhere, and what should happen next. Each step would normally draw on live sources and the persona's own voice.
+
+Opponents raise fair concerns about cost and scope, and a real essay would answer them directly with evidence.
+
+The takeaway is simple: act on what the evidence supports, and measure the results honestly.`
+  }
+];
+
+/**
+ * Load fixtures from a JSON file (an array of MockFixture), or the defaults
+ */
+export function loadMockFixtures(filePath?: string): MockFixture[] {
+  if (!filePath) {
+    return DEFAULT_MOCK_FIXTURES;
+  }
+
+  const fixtures = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(fixtures)) {
+    throw new Error(`Mock fixtures file ${filePath} must contain a JSON array`);
+  }
+  return fixtures;
+}
+
+/**
+ * Find the fixture for a request, falling back to the first one without a match
+ */
+export function findMockFixture(fixtures: MockFixture[], systemPrompt: string, prompt: string): MockFixture {
+  const matchIn = (text: string) => {
+    const haystack = text.toLowerCase();
+    return fixtures.find(f => f.match && haystack.includes(f.match.toLowerCase()));
+  };
+  const fixture = matchIn(systemPrompt) || matchIn(prompt) || fixtures.find(f => !f.match);
+
+  if (!fixture) {
+    throw new Error('No mock fixture matched the request and no fallback fixture is defined');
+  }
+  return fixture;
+}
@@ -0,0 +1,185 @@
+/**
+ * Mock provider for offline development and tests
+ * Runs the real GrokClient against an in-memory fake of the xAI chat completions
+ * endpoint, so retries, timeouts and SSE parsing are exercised with no network.
+ */
+
+import GrokClient from '../grok-client';
+import { MockFixture, findMockFixture, loadMockFixtures } from './mock-fixtures';
+
+export type MockFailureMode = 'none' | 'rate_limit' | 'timeout' | 'server_error';
+
+export const MOCK_FAILURE_MODES: MockFailureMode[] = ['none', 'rate_limit', 'timeout', 'server_error'];
+
+export interface MockProviderConfig {
+  fixtures?: MockFixture[];
+  /** Failure to simulate before requests start succeeding */
+  failureMode?: MockFailureMode;
+  /** How many requests fail before the rest succeed; defaults to all of them */
+  failureCount?: number;
+  /** Delay between streamed chunks, to make the live view watchable */
+  chunkDelayMs?: number;
+  timeout?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+/**
+ * Build a fetch implementation that answers chat completions requests from fixtures
+ */
+export function createMockFetch(config: MockProviderConfig = {}): typeof fetch {
+  const fixtures = config.fixtures || loadMockFixtures();
+  const failureMode = config.failureMode || 'none';
+  const failureCount = config.failureCount ?? Infinity;
+  const chunkDelayMs = config.chunkDelayMs ?? 0;
+  let requestCount = 0;
+
+  return async (_input, init) => {
+    requestCount++;
+    const signal = init?.signal ?? undefined;
+
+    if (failureMode !== 'none' && requestCount <= failureCount) {
+      switch (failureMode) {
+        case 'rate_limit':
+          return Response.json(
+            { error: 'Rate limit exceeded' },
+            { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '1' } }
+          );
+        case 'server_error':
+          return Response.json(
+            { error: 'Internal server error' },
+            { status: 500, statusText: 'Internal Server Error' }
+          );
+        case 'timeout':
+          // Hang until the client gives up, as a stalled upstream would
+          await waitForAbort(signal);
+      }
+    }
+
+    const body = JSON.parse(String(init?.body ?? '{}'));
+    const messages: Array<{ role: string; content: string }> = body.messages || [];
+    const systemPrompt = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+    const prompt = messages.filter(m => m.role !== 'system').map(m => m.content).join('\n');
+
+    const found = findMockFixture(fixtures, systemPrompt, prompt);
+    const searchResults = body.search_parameters ? found.searchResults : undefined;
+    // Without search there are no results to cite, so the canned citations of them go too
+    const fixture = searchResults ? found : { ...found, content: withoutCitations(found.content, found.searchResults) };
+    const usage = {
+      prompt_tokens: estimateTokens(systemPrompt + prompt),
+      completion_tokens: estimateTokens(fixture.content),
+      total_tokens: estimateTokens(systemPrompt + prompt) + estimateTokens(fixture.content)
+    };
+
+    if (!body.stream) {
+      return Response.json({
+        id: `mock_${requestCount}`,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: fixture.content }, finish_reason: 'stop' }],
+        usage,
+        ...(searchResults && { search_results: searchResults })
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const chunks = fixture.content.match(/\S+\s*/g) || [];
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (payload: unknown) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        };
+
+        try {
+          for (const chunk of chunks) {
+            if (chunkDelayMs > 0) {
+              await sleep(chunkDelayMs, signal);
+            }
+            send({ choices: [{ index: 0, delta: { content: chunk } }] });
+          }
+          send({ choices: [], usage, ...(searchResults && { search_results: searchResults }) });
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      }
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' }
+    });
+  };
+}
+
+/**
+ * Rough token count, deterministic so usage and cost are stable across runs
+ */
+function withoutCitations(content: string, searchResults: MockFixture['searchResults'] = []): string {
+  return searchResults.reduce((text, result) => text.split(` [${result.url}]`).join(''), content);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function waitForAbort(signal?: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (!signal) return; // Without a signal there is nothing to wait for but the caller
+    if (signal.aborted) return reject(abortError());
+    signal.addEventListener('abort', () => reject(abortError()), { once: true });
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    }, { once: true });
+  });
+}
+
+export class MockProvider extends GrokClient {
+  readonly name: string = 'mock';
+
+  constructor(config: MockProviderConfig = {}) {
+    super({
+      apiKey: 'mock',
+      baseUrl: 'https://mock.invalid/v1',
+      timeout: config.timeout ?? 2000, // Short, so simulated timeouts resolve quickly
+      maxRetries: config.maxRetries ?? 3,
+      retryBaseDelayMs: config.retryBaseDelayMs ?? 50,
+      fetch: createMockFetch(config)
+    });
+  }
+}
+
+// Export factory function for easy initialization
+export function createMockProvider(): MockProvider {
+  const failureMode = process.env.MOCK_LLM_FAILURE as MockFailureMode | undefined;
+  if (failureMode && !MOCK_FAILURE_MODES.includes(failureMode)) {
+    throw new Error(`Invalid MOCK_LLM_FAILURE "${failureMode}". Expected one of: ${MOCK_FAILURE_MODES.join(', ')}`);
+  }
+
+  const failureCount = process.env.MOCK_LLM_FAILURE_COUNT ? Number(process.env.MOCK_LLM_FAILURE_COUNT) : undefined;
+  if (failureCount !== undefined && !(Number.isInteger(failureCount) && failureCount >= 0)) {
+    throw new Error(`Invalid MOCK_LLM_FAILURE_COUNT "${process.env.MOCK_LLM_FAILURE_COUNT}". Expected a whole number`);
+  }
+
+  return new MockProvider({
+    fixtures: loadMockFixtures(process.env.MOCK_LLM_FIXTURES),
+    failureMode,
+    failureCount,
+    chunkDelayMs: Number(process.env.MOCK_LLM_CHUNK_DELAY_MS ?? 15)
+  });
+}
+
+export default MockProvider;
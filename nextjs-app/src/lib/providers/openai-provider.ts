@@ -0,0 +1,169 @@
+/**
+ * OpenAI-compatible provider built on the AI SDK
+ * Works with OpenAI itself and any server that speaks the chat completions API
+ */
+
+import { createOpenAI } from '@ai-sdk/openai';
+import { generateText, streamText, LanguageModel, LanguageModelUsage } from 'ai';
+import type {
+  LLMProvider,
+  LLMGenerateOptions,
+  LLMResponse,
+  LLMDeltaHandler,
+} from '../llm-provider';
+import { needsReasoningModel } from '../model-selection';
+import { ModelPricing, PricingTable, getModelPricing, loadModelPricing, priceUsage } from '../pricing';
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+  defaultModel?: string;
+  reasoningModel?: string;
+  /** Rates for models the pricing table doesn't list */
+  inputCostPerMillion?: number;
+  outputCostPerMillion?: number;
+  pricing?: PricingTable;
+  maxRetries?: number;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  readonly defaultModel: string;
+  protected reasoningModel: string;
+  private openai: ReturnType<typeof createOpenAI>;
+  private fallbackPricing: ModelPricing;
+  private pricing: PricingTable;
+  private maxRetries: number;
+
+  constructor(config: OpenAIProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error('OPENAI_API_KEY is required');
+    }
+
+    this.openai = createOpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl || undefined
+    });
+    this.defaultModel = config.defaultModel || 'gpt-4o-mini';
+    this.reasoningModel = config.reasoningModel || this.defaultModel;
+    this.fallbackPricing = {
+      inputPerMillion: config.inputCostPerMillion ?? 0.15,   // gpt-4o-mini list price
+      outputPerMillion: config.outputCostPerMillion ?? 0.60
+    };
+    this.pricing = config.pricing ?? loadModelPricing();
+    this.maxRetries = config.maxRetries ?? 3;
+  }
+
+  /**
+   * Generate content in a single response
+   */
+  async generate(options: LLMGenerateOptions): Promise<LLMResponse> {
+    const model = options.model || this.defaultModel;
+    this.warnIfSearchRequested(options);
+
+    const result = await generateText({
+      model: this.getModel(model),
+      ...this.getCallSettings(options)
+    });
+
+    return {
+      content: result.text,
+      model,
+      usage: this.toUsage(result.usage)
+    };
+  }
+
+  /**
+   * Generate content with token-level streaming
+   */
+  async stream(options: LLMGenerateOptions, onDelta: LLMDeltaHandler): Promise<LLMResponse> {
+    const model = options.model || this.defaultModel;
+    this.warnIfSearchRequested(options);
+
+    const result = streamText({
+      model: this.getModel(model),
+      ...this.getCallSettings(options),
+      // Failures arrive as error parts below and are thrown from there, so don't log them twice
+      onError: () => {}
+    });
+
+    // textStream ends quietly on a failure, losing the status code, so read the full stream
+    let content = '';
+    let usage: LanguageModelUsage | undefined;
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case 'text-delta':
+          content += part.text;
+          onDelta(part.text);
+          break;
+        case 'error':
+          throw part.error;
+        case 'abort':
+          options.signal?.throwIfAborted();
+          throw new Error('Stream aborted');
+        case 'finish':
+          usage = part.totalUsage;
+          break;
+      }
+    }
+
+    return {
+      content,
+      model,
+      usage: this.toUsage(usage ?? await result.usage)
+    };
+  }
+
+  /**
+   * Estimate cost for a generation. These providers have no live search.
+   */
+  estimateCost(usage?: LLMResponse['usage'], _searchSources?: number, model: string = this.defaultModel): number {
+    return priceUsage(getModelPricing(this.pricing, model) ?? this.fallbackPricing, usage);
+  }
+
+  selectModel(topic: string, context?: string): string {
+    return needsReasoningModel(topic, context) ? this.reasoningModel : this.defaultModel;
+  }
+
+  /**
+   * Chat completions rather than the Responses API, so OpenAI-compatible servers work too
+   */
+  private getModel(model: string): LanguageModel {
+    return this.openai.chat(model);
+  }
+
+  private getCallSettings(options: LLMGenerateOptions) {
+    return {
+      system: options.systemPrompt || undefined,
+      prompt: options.prompt,
+      temperature: options.temperature ?? 0.7,
+      maxOutputTokens: options.maxTokens ?? 2000,
+      topP: options.topP,
+      frequencyPenalty: options.frequencyPenalty,
+      presencePenalty: options.presencePenalty,
+      stopSequences: options.stop && options.stop.length > 0 ? options.stop : undefined,
+      maxRetries: this.maxRetries,
+      abortSignal: options.signal
+    };
+  }
+
+  private toUsage(usage: LanguageModelUsage): LLMResponse['usage'] {
+    const promptTokens = usage.inputTokens ?? 0;
+    const completionTokens = usage.outputTokens ?? 0;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.totalTokens ?? promptTokens + completionTokens,
+      ...(usage.cachedInputTokens && { cachedPromptTokens: usage.cachedInputTokens }),
+      ...(usage.reasoningTokens && { reasoningTokens: usage.reasoningTokens })
+    };
+  }
+
+  private warnIfSearchRequested(options: LLMGenerateOptions): void {
+    if (options.useSearch) {
+      console.warn(`${this.name} provider has no live search; generating without it`);
+    }
+  }
+}
+
+export default OpenAIProvider;
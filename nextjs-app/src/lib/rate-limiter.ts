@@ -0,0 +1,188 @@
+/**
+ * Rate Limiter - Burst and daily request quotas for the routes that spend
+ * money on the LLM providers, counted per API key and, behind a proxy, per
+ * client IP
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiErrorBody, apiError } from './api-errors';
+
+/**
+ * Where the counters live. The in-memory store only limits a single server
+ * process; a shared backend like Redis maps onto increment as INCR followed
+ * by PEXPIRE when the count is 1.
+ */
+export interface RateLimitStore {
+  /** Add one to a counter, creating it to expire after ttlMs, and return the new count */
+  increment(key: string, ttlMs: number): Promise<number>;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    this.prune(now);
+
+    const counter = this.counters.get(key);
+    if (counter) {
+      counter.count += 1;
+      return counter.count;
+    }
+    this.counters.set(key, { count: 1, expiresAt: now + ttlMs });
+    return 1;
+  }
+
+  private prune(now: number): void {
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+/**
+ * Requests allowed per client. Omitted limits are not enforced.
+ */
+export interface RateLimits {
+  /** Requests allowed in each window */
+  burst?: number;
+  windowSeconds: number;
+  /** Requests allowed per UTC day */
+  daily?: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'burst' | 'daily'; client: string; limit: number; retryAfterSeconds: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RateLimiter {
+  readonly limits: RateLimits;
+  private store: RateLimitStore;
+
+  constructor(limits: RateLimits, store: RateLimitStore) {
+    this.limits = limits;
+    this.store = store;
+  }
+
+  /**
+   * Count a request against every client it came from, burst windows first
+   * so a client throttled for bursting doesn't also use up its day
+   */
+  async check(clients: string[], now: Date = new Date()): Promise<RateLimitDecision> {
+    const time = now.getTime();
+
+    if (this.limits.burst !== undefined) {
+      const windowMs = this.limits.windowSeconds * 1000;
+      const windowStart = Math.floor(time / windowMs) * windowMs;
+      for (const client of clients) {
+        const count = await this.store.increment(`${client}:burst:${windowStart}`, windowMs);
+        if (count > this.limits.burst) {
+          return this.refuse('burst', client, this.limits.burst, windowStart + windowMs - time);
+        }
+      }
+    }
+
+    if (this.limits.daily !== undefined) {
+      const dayStart = Math.floor(time / DAY_MS) * DAY_MS;
+      for (const client of clients) {
+        const count = await this.store.increment(`${client}:daily:${dayStart}`, DAY_MS);
+        if (count > this.limits.daily) {
+          return this.refuse('daily', client, this.limits.daily, dayStart + DAY_MS - time);
+        }
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  private refuse(reason: 'burst' | 'daily', client: string, limit: number, waitMs: number): RateLimitDecision {
+    return { allowed: false, reason, client, limit, retryAfterSeconds: Math.max(Math.ceil(waitMs / 1000), 1) };
+  }
+}
+
+/**
+ * Proxies in front of the app that append the address they saw to
+ * X-Forwarded-For. Without one the header is whatever the client sent, since
+ * Next.js only fills it in when it is missing.
+ */
+function getTrustedProxyCount(): number {
+  const count = Number(process.env.RATE_LIMIT_TRUSTED_PROXIES);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+/**
+ * Who a request counts against: its API key once verified, and its IP when
+ * trusted proxies report it. A request with neither isn't counted.
+ */
+export function getRateLimitClients(request: Request, apiKeyId?: string): string[] {
+  const clients: string[] = [];
+
+  // The outermost trusted proxy's entry is the address it saw; anything before it came from the client
+  const proxies = getTrustedProxyCount();
+  if (proxies > 0) {
+    const forwardedFor = request.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()) ?? [];
+    const ip = forwardedFor[forwardedFor.length - proxies];
+    if (ip) clients.push(`ip:${ip}`);
+  }
+
+  if (apiKeyId) clients.push(`key:${apiKeyId}`);
+  return clients;
+}
+
+let sharedStore: RateLimitStore = new InMemoryRateLimitStore();
+
+/**
+ * Swap the store every limiter counts in, e.g. for one shared by several servers
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  sharedStore = store;
+}
+
+/**
+ * A limit from the environment: unset uses the default, and 0 turns it off
+ */
+function parseQuota(value: string | undefined, fallback: number): number | undefined {
+  if (!value) return fallback;
+  const quota = Number(value);
+  if (!Number.isInteger(quota) || quota < 0) return fallback;
+  return quota === 0 ? undefined : quota;
+}
+
+// Export factory function for easy initialization
+export function createRateLimiter(store: RateLimitStore = sharedStore): RateLimiter {
+  return new RateLimiter(
+    {
+      burst: parseQuota(process.env.RATE_LIMIT_BURST, 5),
+      windowSeconds: parseQuota(process.env.RATE_LIMIT_WINDOW_SECONDS, 60) ?? 60,
+      daily: parseQuota(process.env.RATE_LIMIT_DAILY, 50)
+    },
+    store
+  );
+}
+
+/**
+ * The 429 for a request over its quota, or undefined to let it through
+ */
+export async function checkRateLimit(
+  request: Request,
+  apiKeyId?: string,
+  limiter: RateLimiter = createRateLimiter()
+): Promise<NextResponse<ApiErrorBody> | undefined> {
+  const decision = await limiter.check(getRateLimitClients(request, apiKeyId));
+  if (decision.allowed) return undefined;
+
+  const headers = { 'Retry-After': String(decision.retryAfterSeconds) };
+  if (decision.reason === 'burst') {
+    return apiError(
+      'RATE_LIMITED',
+      'Too many requests',
+      `At most ${decision.limit} requests every ${limiter.limits.windowSeconds} seconds`,
+      headers
+    );
+  }
+  return apiError('QUOTA_EXCEEDED', 'Daily quota exceeded', `At most ${decision.limit} requests per day`, headers);
+}
+
+export default RateLimiter;
@@ -0,0 +1,185 @@
+/**
+ * Search Profile - Live search settings for a debate and their translation
+ * into xAI's search_parameters
+ */
+
+import { z } from 'zod';
+import {
+  DebateConfig,
+  PersonaProfile,
+  SearchProfile,
+  SearchSourceType,
+  SearchTimeRange,
+} from '../types/personas';
+import { formatValidationIssues } from './validation-issues';
+
+export const SEARCH_SOURCE_TYPES: SearchSourceType[] = ['x', 'news', 'web'];
+
+export const SEARCH_TIME_RANGES: SearchTimeRange[] = ['day', 'week', 'month', 'year'];
+
+// Limits enforced by the xAI search API
+export const MAX_SEARCH_HANDLES = 10;
+export const MAX_SEARCH_WEBSITES = 5;
+export const MAX_SEARCH_SOURCES = 50;
+
+const TIME_RANGE_DAYS: Record<SearchTimeRange, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365
+};
+
+export const DEFAULT_SEARCH_PROFILE: SearchProfile = {
+  sources: ['x'],
+  timeRange: 'week',
+  minFavorites: 10,   // Only posts with 10+ favorites
+  minViews: 100,      // Only posts with 100+ views
+  maxSources: 20,     // Limit to 20 sources to control costs
+  allowedHandles: [],
+  excludedHandles: [],
+  allowedWebsites: [],
+  excludedWebsites: [],
+  seedFromPreferredSources: false
+};
+
+function normalizeHandle(handle: string): string {
+  return handle.trim().replace(/^@/, '');
+}
+
+function dedupe(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Fill in defaults and seed the handle allow list from the persona's preferred
+ * sources. Seeding is skipped when handles are excluded, since the two lists
+ * can't be combined.
+ */
+export function resolveSearchProfile(
+  profile: Partial<SearchProfile> | undefined,
+  persona: PersonaProfile
+): SearchProfile {
+  const resolved: SearchProfile = { ...DEFAULT_SEARCH_PROFILE, ...profile };
+  let allowedHandles = resolved.allowedHandles.map(normalizeHandle);
+
+  if (resolved.seedFromPreferredSources && resolved.excludedHandles.length === 0) {
+    const personaHandles = persona.preferredSources
+      .filter(source => source.trim().startsWith('@'))
+      .map(normalizeHandle);
+    allowedHandles = [...allowedHandles, ...personaHandles];
+  }
+
+  return {
+    ...resolved,
+    allowedHandles: dedupe(allowedHandles).slice(0, MAX_SEARCH_HANDLES),
+    excludedHandles: dedupe(resolved.excludedHandles.map(normalizeHandle))
+  };
+}
+
+/**
+ * Build the request's search_parameters from a resolved profile
+ */
+export function buildSearchParameters(profile: SearchProfile, now: Date = new Date()): Record<string, unknown> {
+  const fromDate = new Date(now.getTime() - TIME_RANGE_DAYS[profile.timeRange] * 24 * 60 * 60 * 1000);
+
+  const sources = profile.sources.map(type => {
+    switch (type) {
+      case 'x':
+        return {
+          type: 'x',
+          ...(profile.allowedHandles.length > 0 && { included_x_handles: profile.allowedHandles }),
+          ...(profile.excludedHandles.length > 0 && { excluded_x_handles: profile.excludedHandles }),
+          post_favorite_count: profile.minFavorites,
+          post_view_count: profile.minViews
+        };
+      case 'news':
+        // News search only supports a deny list
+        return {
+          type: 'news',
+          ...(profile.excludedWebsites.length > 0 && { excluded_websites: profile.excludedWebsites })
+        };
+      case 'web':
+        return {
+          type: 'web',
+          ...(profile.allowedWebsites.length > 0 && { allowed_websites: profile.allowedWebsites }),
+          ...(profile.excludedWebsites.length > 0 && { excluded_websites: profile.excludedWebsites })
+        };
+    }
+  });
+
+  return {
+    mode: 'auto',
+    from_date: fromDate.toISOString().slice(0, 10),
+    max_search_results: profile.maxSources,
+    sources
+  };
+}
+
+const count = (min: number, max: number) => {
+  const error = `must be a whole number from ${min} to ${max}`;
+  return z.number({ error }).int({ error }).min(min, { error }).max(max, { error });
+};
+
+const stringList = (limit: number) =>
+  z.array(z.string({ error: 'must be an array of strings' }), { error: 'must be an array of strings' })
+    .transform(items => items.map(item => item.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).max(limit, { error: `can list at most ${limit} entries` }));
+
+// The search API takes an allow list or a deny list, never both. Checked even
+// when other fields are invalid, so every problem is reported at once.
+const bothListsSet = (allowed: unknown, excluded: unknown) =>
+  Array.isArray(allowed) && allowed.length > 0 && Array.isArray(excluded) && excluded.length > 0;
+
+const isObjectPayload = (payload: { value: unknown }) =>
+  typeof payload.value === 'object' && payload.value !== null && !Array.isArray(payload.value);
+
+const sourcesError = `must be a non-empty list of: ${SEARCH_SOURCE_TYPES.join(', ')}`;
+
+/**
+ * A request's search profile. Only the fields that were sent are kept; the
+ * rest fall back to the defaults when the debate runs.
+ */
+export const searchProfileSchema = z.strictObject({
+  sources: z.array(z.enum(SEARCH_SOURCE_TYPES, { error: sourcesError }), { error: sourcesError })
+    .min(1, { error: sourcesError })
+    .transform(sources => [...new Set(sources)])
+    .optional(),
+  timeRange: z.enum(SEARCH_TIME_RANGES, { error: `must be one of: ${SEARCH_TIME_RANGES.join(', ')}` }).optional(),
+  minFavorites: count(0, Number.MAX_SAFE_INTEGER).optional(),
+  minViews: count(0, Number.MAX_SAFE_INTEGER).optional(),
+  maxSources: count(1, MAX_SEARCH_SOURCES).optional(),
+  allowedHandles: stringList(MAX_SEARCH_HANDLES).transform(handles => handles.map(normalizeHandle)).optional(),
+  excludedHandles: stringList(MAX_SEARCH_HANDLES).transform(handles => handles.map(normalizeHandle)).optional(),
+  allowedWebsites: stringList(MAX_SEARCH_WEBSITES).optional(),
+  excludedWebsites: stringList(MAX_SEARCH_WEBSITES).optional(),
+  seedFromPreferredSources: z.boolean({ error: 'must be a boolean' }).optional(),
+}, { error: 'must be an object' })
+  .refine(profile => !bothListsSet(profile.allowedHandles, profile.excludedHandles), {
+    error: 'can set allowedHandles or excludedHandles, not both',
+    when: isObjectPayload
+  })
+  .refine(profile => !bothListsSet(profile.allowedWebsites, profile.excludedWebsites), {
+    error: 'can set allowedWebsites or excludedWebsites, not both',
+    when: isObjectPayload
+  })
+  .nullish()
+  .transform(searchProfile => searchProfile ?? undefined);
+
+/**
+ * Validate a request's search profile
+ */
+export function validateSearchProfile(input: unknown): {
+  searchProfile?: DebateConfig['searchProfile'];
+  errors: string[];
+} {
+  const result = searchProfileSchema.safeParse(input);
+  return result.success
+    ? { ...(result.data && { searchProfile: result.data }), errors: [] }
+    : { errors: formatValidationIssues(result.error.issues, 'searchProfile') };
+}
@@ -0,0 +1,86 @@
+/**
+ * Spend Store - Running total of estimated LLM spend per UTC day, kept in a
+ * local JSON file so the daily budget holds across debates and restarts
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// Estimates held for calls still in flight, by store file, so every debate in
+// this process sees what the others are about to spend
+const pendingReservations = new Map<string, number>();
+
+export class SpendStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  getDailySpend(date: Date = new Date()): number {
+    return this.read()[this.dayKey(date)] ?? 0;
+  }
+
+  /**
+   * Add to the day's total. Reads and writes synchronously so concurrent
+   * requests in this process can't interleave their updates.
+   */
+  addSpend(amount: number, date: Date = new Date()): number {
+    const days = this.read();
+    const key = this.dayKey(date);
+    days[key] = (days[key] ?? 0) + amount;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ days }, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+    return days[key];
+  }
+
+  /**
+   * Dollars held for calls still in flight, across every store on this file
+   */
+  getReserved(): number {
+    return pendingReservations.get(this.filePath) ?? 0;
+  }
+
+  reserve(amount: number): void {
+    pendingReservations.set(this.filePath, this.getReserved() + amount);
+  }
+
+  release(amount: number): void {
+    const reserved = this.getReserved() - amount;
+    if (reserved > 0) {
+      pendingReservations.set(this.filePath, reserved);
+    } else {
+      pendingReservations.delete(this.filePath);
+    }
+  }
+
+  private read(): Record<string, number> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      return data.days && typeof data.days === 'object' ? data.days : {};
+    } catch (error) {
+      console.error(`Failed to read spend store at ${this.filePath}:`, error);
+      return {};
+    }
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+// Export factory function for easy initialization
+export function createSpendStore(filePath?: string): SpendStore {
+  return new SpendStore(
+    filePath || process.env.SPEND_STORE_PATH || path.join(process.cwd(), 'data', 'spend.json')
+  );
+}
+
+export default SpendStore;
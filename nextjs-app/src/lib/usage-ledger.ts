@@ -0,0 +1,217 @@
+/**
+ * Usage Ledger - One line per LLM call in a local JSONL file, recording what
+ * it was for, the tokens it used and what it cost
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { TokenUsage, UsagePurpose } from '../types/personas';
+import type { LLMDeltaHandler, LLMGenerateOptions, LLMProvider, LLMResponse } from './llm-provider';
+
+export interface UsageEntry {
+  timestamp: string;
+  debateId?: string;
+  topic: string;
+  /** The API key the call was made for; absent for the app's own pages */
+  apiKeyId?: string;
+  purpose?: UsagePurpose;
+  personaId?: string;
+  provider: string;
+  model: string;
+  usage?: TokenUsage;
+  searchSources: number;
+  cost: number;
+}
+
+/**
+ * The debate a metered provider's calls belong to
+ */
+export interface UsageContext {
+  debateId?: string;
+  topic: string;
+  apiKeyId?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageFilter {
+  /** First UTC day to include, as YYYY-MM-DD */
+  from?: string;
+  /** Last UTC day to include, as YYYY-MM-DD */
+  to?: string;
+}
+
+export interface UsageSummary extends UsageFilter {
+  totals: UsageTotals;
+  byDay: Record<string, UsageTotals>;
+  byPersona: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byTopic: Record<string, UsageTotals>;
+  byApiKey: Record<string, UsageTotals>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function addTo(groups: Record<string, UsageTotals>, key: string, entry: UsageEntry): void {
+  const totals = groups[key] ?? (groups[key] = emptyTotals());
+  totals.calls += 1;
+  totals.promptTokens += entry.usage?.promptTokens ?? 0;
+  totals.completionTokens += entry.usage?.completionTokens ?? 0;
+  totals.totalTokens += entry.usage?.totalTokens ?? 0;
+  totals.cost += entry.cost;
+}
+
+export class UsageLedger {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Append an entry. A failed write is logged rather than thrown, since the
+   * call it records has already been paid for.
+   */
+  record(entry: UsageEntry): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      console.error(`Failed to write usage ledger at ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Entries in the order they were recorded, skipping lines that don't parse
+   */
+  list(filter: UsageFilter = {}): UsageEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const entries: UsageEntry[] = [];
+    for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as UsageEntry;
+        const day = entry.timestamp.slice(0, 10);
+        if (filter.from && day < filter.from) continue;
+        if (filter.to && day > filter.to) continue;
+        entries.push(entry);
+      } catch {
+        console.warn(`Skipping malformed usage ledger line in ${this.filePath}`);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Spend grouped by UTC day, persona, provider/model, topic and API key.
+   * Calls that belong to no persona, like the moderator's, are grouped under
+   * their purpose.
+   */
+  summarize(filter: UsageFilter = {}): UsageSummary {
+    const summary: UsageSummary = {
+      ...filter,
+      totals: emptyTotals(),
+      byDay: {},
+      byPersona: {},
+      byModel: {},
+      byTopic: {},
+      byApiKey: {}
+    };
+
+    for (const entry of this.list(filter)) {
+      addTo({ all: summary.totals }, 'all', entry);
+      addTo(summary.byDay, entry.timestamp.slice(0, 10), entry);
+      addTo(summary.byPersona, entry.personaId ?? entry.purpose ?? 'unattributed', entry);
+      addTo(summary.byModel, `${entry.provider}/${entry.model}`, entry);
+      addTo(summary.byTopic, entry.topic, entry);
+      addTo(summary.byApiKey, entry.apiKeyId ?? 'anonymous', entry);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Wrap a provider so every call it makes is recorded against a debate
+   */
+  wrap(provider: LLMProvider, context: UsageContext): LLMProvider {
+    return new MeteredProvider(provider, this, context);
+  }
+}
+
+/**
+ * Provider decorator that records each completed call in the ledger
+ */
+export class MeteredProvider implements LLMProvider {
+  private provider: LLMProvider;
+  private ledger: UsageLedger;
+  private context: UsageContext;
+
+  constructor(provider: LLMProvider, ledger: UsageLedger, context: UsageContext) {
+    this.provider = provider;
+    this.ledger = ledger;
+    this.context = context;
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get defaultModel(): string {
+    return this.provider.defaultModel;
+  }
+
+  async generate(options: LLMGenerateOptions): Promise<LLMResponse> {
+    return this.record(options, await this.provider.generate(options));
+  }
+
+  async stream(options: LLMGenerateOptions, onDelta: LLMDeltaHandler): Promise<LLMResponse> {
+    return this.record(options, await this.provider.stream(options, onDelta));
+  }
+
+  estimateCost(usage?: LLMResponse['usage'], searchSources?: number, model?: string): number {
+    return this.provider.estimateCost(usage, searchSources, model);
+  }
+
+  selectModel(topic: string, context?: string): string {
+    return this.provider.selectModel(topic, context);
+  }
+
+  private record(options: LLMGenerateOptions, response: LLMResponse): LLMResponse {
+    const searchSources = response.sources?.length ?? 0;
+
+    this.ledger.record({
+      timestamp: new Date().toISOString(),
+      debateId: this.context.debateId,
+      topic: this.context.topic,
+      ...(this.context.apiKeyId && { apiKeyId: this.context.apiKeyId }),
+      purpose: options.usageLabel?.purpose,
+      personaId: options.usageLabel?.personaId,
+      provider: this.provider.name,
+      model: response.model,
+      usage: response.usage,
+      searchSources,
+      cost: this.provider.estimateCost(response.usage, searchSources, response.model)
+    });
+    return response;
+  }
+}
+
+// Export factory function for easy initialization
+export function createUsageLedger(filePath?: string): UsageLedger {
+  return new UsageLedger(
+    filePath || process.env.USAGE_LEDGER_PATH || path.join(process.cwd(), 'data', 'usage.jsonl')
+  );
+}
+
+export default UsageLedger;
@@ -0,0 +1,24 @@
+/**
+ * Validation Issues - The messages a request's zod issues are reported as,
+ * each starting with the field it is about
+ */
+
+import { z } from 'zod';
+
+/**
+ * Format issues as "field.path message", under the given field when the
+ * schema validates a single field. A problem with a list item is reported
+ * once against the whole list.
+ */
+export function formatValidationIssues(issues: z.core.$ZodIssue[], field?: string): string[] {
+  const messages = issues.flatMap(issue => {
+    const path = [...(field ? [field] : []), ...issue.path.filter(key => typeof key === 'string')].join('.');
+
+    if (issue.code === 'unrecognized_keys') {
+      return issue.keys.map(key => `Unknown ${path} field "${key}"`);
+    }
+    return path ? `${path} ${issue.message}` : issue.message;
+  });
+
+  return [...new Set(messages)];
+}
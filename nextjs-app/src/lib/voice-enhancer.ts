@@ -2,120 +2,244 @@
  * Voice Enhancer - Post-processes content to enhance persona authenticity
  */
 
-import { PersonaProfile, ExpertiseLevel } from '../types/personas';
-import GrokClient from './grok-client';
+import { PersonaProfile, ExpertiseLevel, TokenUsage, VoiceDiffSection } from '../types/personas';
+import { LLMProvider } from './llm-provider';
+
+export interface VoiceEnhancement {
+  content: string;
+  /** Tokens the enhancement calls used, even when their output was discarded */
+  usage?: TokenUsage;
+  diff: VoiceDiffSection[];
+}
+
+// Sections longer than this are split again at paragraph breaks
+const MAX_SECTION_LENGTH = 800;
+// Too little text to rewrite in a voice, like a one-line sign-off
+const MIN_REWRITE_LENGTH = 80;
+// Sections rewritten at once, so a long essay doesn't wait on each call in turn
+export const MAX_PARALLEL_SECTIONS = 3;
+
+const HEADING_LINE = /^#{1,6}\s/;
+const NUMBER = /\d+(?:[.,]\d+)*/g;
+const CITATION = /\[[^\]\n]+\]/g;
+const URL = /https?:\/\/[^\s\])]+/g;
+// Capitalized words mid-sentence, so sentence openers aren't mistaken for names
+const NAME = /(?<=[a-z0-9,;:)] )[A-Z][\w'’-]+(?: (?:of |the |de )?[A-Z][\w'’-]+)*/g;
+
+/**
+ * Split an essay at markdown headings, and at paragraph breaks once a section
+ * grows past the maximum length. Joining the sections gives back the essay.
+ */
+export function splitSections(content: string, maxLength: number = MAX_SECTION_LENGTH): string[] {
+  // Paragraphs with the blank lines that follow them
+  const paragraphs = content.match(/[\s\S]*?(?:\n[ \t]*\n\s*|$)/g)?.filter(Boolean) ?? [];
+  const sections: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    const startsSection = HEADING_LINE.test(paragraph) || current.length + paragraph.length > maxLength;
+    if (current && startsSection) {
+      sections.push(current);
+      current = '';
+    }
+    current += paragraph;
+  }
+  if (current) sections.push(current);
+
+  return sections;
+}
+
+/**
+ * Numbers, names and citations in the original that the rewrite no longer contains
+ */
+export function findMissingFacts(original: string, enhanced: string): string[] {
+  // Numbers inside a link or citation are checked as part of it
+  const prose = original.replace(URL, '').replace(CITATION, '');
+  const facts = new Set([
+    ...(original.match(URL) ?? []),
+    ...(original.match(CITATION) ?? []),
+    ...(prose.match(NUMBER) ?? []),
+    ...(prose.match(NAME) ?? []),
+  ]);
+  return [...facts].filter(fact => !enhanced.includes(fact));
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    cachedPromptTokens: (total.cachedPromptTokens ?? 0) + (usage.cachedPromptTokens ?? 0),
+    reasoningTokens: (total.reasoningTokens ?? 0) + (usage.reasoningTokens ?? 0)
+  };
+}
 
 export class VoiceEnhancer {
-  private grokClient: GrokClient;
+  private provider: LLMProvider;
 
-  constructor(grokClient: GrokClient) {
-    this.grokClient = grokClient;
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
   }
 
   /**
-   * Enhance content with persona-specific voice characteristics
+   * Enhance content with persona-specific voice characteristics, a few
+   * sections at a time across the whole essay. Headings are kept as written,
+   * and a rewrite that drops a number, name or citation is discarded for the
+   * original. Once a call fails, sections not yet started keep the original.
+   * Pass the provider that wrote the content so a model comparison stays clean.
    */
   async enhanceContent(
     content: string,
     persona: PersonaProfile,
-    biasLevel: number
-  ): Promise<string> {
-    // Take a sample from the beginning for enhancement
-    const sampleLength = Math.min(600, content.length);
-    const contentSample = content.substring(0, sampleLength);
-
-    // Create enhancement prompt based on persona type
-    const enhancementPrompt = this.createEnhancementPrompt(
-      contentSample,
-      persona,
-      biasLevel
-    );
-
-    try {
-      // Use Grok to enhance the voice
-      const response = await this.grokClient.generate({
-        prompt: enhancementPrompt,
-        systemPrompt: this.getEnhancementSystemPrompt(persona),
-        model: 'grok-4-fast',
-        temperature: 0.8 + (biasLevel * 0.1), // More creative for voice
-        maxTokens: 800
-      });
-
-      const enhancedExcerpt = response.content;
-
-      // Replace the beginning of the content with enhanced version
-      if (enhancedExcerpt && enhancedExcerpt.trim().length > 50) {
-        return enhancedExcerpt + content.substring(sampleLength);
+    biasLevel: number,
+    provider: LLMProvider = this.provider,
+    signal?: AbortSignal
+  ): Promise<VoiceEnhancement> {
+    const sections = splitSections(content);
+    const diff: VoiceDiffSection[] = new Array(sections.length);
+    let usage: TokenUsage | undefined;
+    let failed = false;
+    let next = 0;
+
+    const enhanceSection = async (index: number): Promise<VoiceDiffSection> => {
+      const section = sections[index];
+      // Headings and surrounding whitespace stay as written; only the prose is rewritten
+      const [, prefix, body, suffix] = section.match(/^(\s*(?:#{1,6}\s[^\n]*\n+)?)([\s\S]*?)(\s*)$/)!;
+
+      if (failed || body.length < MIN_REWRITE_LENGTH) {
+        return { original: section, keptOriginal: failed ? 'failed' : 'skipped' };
       }
 
-      // Fall back to original if enhancement fails
-      return content;
+      try {
+        // Use the fast model to enhance the voice
+        const response = await provider.generate({
+          prompt: this.createEnhancementPrompt(body, persona, biasLevel, index === 0),
+          systemPrompt: this.getEnhancementSystemPrompt(persona),
+          model: provider.defaultModel,
+          temperature: 0.8 + (biasLevel * 0.1), // More creative for voice
+          maxTokens: Math.ceil(body.length / 2) + 100,
+          usageLabel: { purpose: 'voice', personaId: persona.personaId },
+          signal
+        });
+        usage = addUsage(usage, response.usage);
 
-    } catch (error) {
-      console.warn(`Voice enhancement failed for ${persona.characterName}:`, error);
-      return content;
-    }
+        const enhanced = response.content.trim();
+        const missing = findMissingFacts(body, enhanced);
+
+        // Fall back to the original section if the rewrite lost substance
+        if (enhanced.length < body.length / 2) {
+          return { original: section, keptOriginal: 'too_short' };
+        }
+        if (missing.length > 0) {
+          return { original: section, keptOriginal: 'missing_facts', missing };
+        }
+        return { original: section, enhanced: prefix + enhanced + suffix };
+      } catch (error) {
+        // A cancelled debate should stop, not carry on with the unenhanced text
+        if (signal?.aborted) throw error;
+
+        console.warn(`Voice enhancement failed for ${persona.characterName}:`, error);
+        failed = true;
+        return { original: section, keptOriginal: 'failed' };
+      }
+    };
+
+    // Each worker takes the next section until none are left
+    const worker = async () => {
+      while (next < sections.length) {
+        const index = next++;
+        diff[index] = await enhanceSection(index);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_SECTIONS, sections.length) }, worker));
+
+    return {
+      content: diff.map(section => section.enhanced ?? section.original).join(''),
+      usage,
+      diff
+    };
   }
 
   /**
    * Create enhancement prompt based on persona
    */
   private createEnhancementPrompt(
-    contentSample: string,
+    section: string,
     persona: PersonaProfile,
-    biasLevel: number
+    biasLevel: number,
+    isOpening: boolean
   ): string {
     const signaturePhrases = persona.signaturePhrases.slice(0, 2).join('" or "');
 
     if (persona.expertiseLevel === ExpertiseLevel.EXPERT) {
-      return this.createExpertEnhancementPrompt(contentSample, persona, signaturePhrases);
+      return this.createExpertEnhancementPrompt(section, persona, signaturePhrases, isOpening);
     } else {
-      return this.createGrassrootsEnhancementPrompt(contentSample, persona, signaturePhrases);
+      return this.createGrassrootsEnhancementPrompt(section, persona, signaturePhrases, isOpening);
     }
   }
 
   private createExpertEnhancementPrompt(
-    contentSample: string,
+    section: string,
     persona: PersonaProfile,
-    signaturePhrases: string
+    signaturePhrases: string,
+    isOpening: boolean
   ): string {
-    return `Rewrite this excerpt to sound more authentically like ${persona.characterName}, an elite ${persona.politicalLeaning} expert. Add:
-
-- 1-2 references to your credentials or media appearances ("As I testified before Congress..." or "In my recent MSNBC appearance...")
+    const touches = isOpening
+      ? `- 1-2 references to your credentials or media appearances ("As I testified before Congress..." or "In my recent MSNBC appearance...")
 - Sophisticated language with academic authority
 - A reference to research, legal precedent, or policy expertise
-- Signature phrases like "${signaturePhrases}"
+- Signature phrases like "${signaturePhrases}"`
+      : `- Sophisticated language with academic authority
+- A signature phrase like "${signaturePhrases}" only if it fits naturally`;
+
+    return `Rewrite this ${isOpening ? 'opening section' : 'section'} of an essay to sound more authentically like ${persona.characterName}, an elite ${persona.politicalLeaning} expert. Add:
+
+${touches}
 - Maintain the intellectual gravitas expected from a top-tier expert
 
-Keep the same length and main points. Don't lose the facts or policy substance.
+${this.getPreservationRules()}
 
-Original excerpt:
-${contentSample}
+Original section:
+${section}
 
 Enhanced version with ${persona.characterName}'s expert voice:`;
   }
 
   private createGrassrootsEnhancementPrompt(
-    contentSample: string,
+    section: string,
     persona: PersonaProfile,
-    signaturePhrases: string
+    signaturePhrases: string,
+    isOpening: boolean
   ): string {
-    return `Rewrite this excerpt to sound more authentically like ${persona.characterName}, a passionate ${persona.politicalLeaning} grassroots advocate. Add:
-
-- 1-2 personal touches ("Growing up in..." or "My friend always says...")
+    const touches = isOpening
+      ? `- 1-2 personal touches ("Growing up in..." or "My friend always says...")
 - More emotional urgency and passion
 - A cultural reference or real-world example if it fits naturally
-- Signature phrases like "${signaturePhrases}"
+- Signature phrases like "${signaturePhrases}"`
+      : `- More emotional urgency and passion
+- A signature phrase like "${signaturePhrases}" only if it fits naturally`;
+
+    return `Rewrite this ${isOpening ? 'opening section' : 'section'} of an essay to sound more authentically like ${persona.characterName}, a passionate ${persona.politicalLeaning} grassroots advocate. Add:
+
+${touches}
 - Direct, accessible language that connects with regular people
 
-Keep the same length and main points. Don't lose the facts or policy substance.
+${this.getPreservationRules()}
 
-Original excerpt:
-${contentSample}
+Original section:
+${section}
 
 Enhanced version with ${persona.characterName}'s authentic voice:`;
   }
 
+  private getPreservationRules(): string {
+    return `Keep the same length and main points. Don't lose the facts or policy substance:
+- Keep every number, name and bracketed citation exactly as written
+- Don't add a heading, and return only the rewritten section`;
+  }
+
   /**
    * Get system prompt for voice enhancement
    */
@@ -128,57 +252,43 @@ Enhance the voice to match their personality while maintaining all factual conte
   }
 
   /**
-   * Quick voice touches without full enhancement (for performance)
+   * Quick voice touches without full enhancement: an opening and a sign-off
+   * templated from the persona's profile, so custom personas get them too and
+   * no second call is made
    */
   addQuickVoiceTouches(
     content: string,
     persona: PersonaProfile
   ): string {
-    // Add signature opening if not present
-    if (!content.startsWith(persona.signaturePhrases[0].substring(0, 10))) {
-      const opening = this.getPersonaOpening(persona);
-      if (opening) {
-        content = `${opening}\n\n${content}`;
-      }
+    // Add the opening under the title, unless the essay already opens that way
+    const opening = this.getPersonaOpening(persona);
+    if (opening && !content.toLowerCase().includes(opening.slice(0, 20).toLowerCase())) {
+      const [, title, body] = content.match(/^(#{1,6}\s[^\n]*\n+)?([\s\S]*)$/)!;
+      content = `${title ?? ''}${opening}\n\n${body}`;
     }
 
-    // Add signature closing if needed
+    // Add the sign-off if needed
     const closing = this.getPersonaClosing(persona);
-    if (closing && !content.includes(closing.substring(0, 20))) {
-      content = `${content}\n\n${closing}`;
+    if (!content.includes(closing)) {
+      content = `${content.trimEnd()}\n\n${closing}`;
     }
 
     return content;
   }
 
   private getPersonaOpening(persona: PersonaProfile): string | null {
-    switch (persona.personaId) {
-      case 'liberal_grassroots':
-        return "Friends, let me tell you something that's been weighing on my heart...";
-      case 'liberal_expert':
-        return "The evidence is unequivocal, and as someone who's studied this issue for decades...";
-      case 'conservative_patriot':
-        return "Folks, let's cut through the BS and talk straight about what's really happening...";
-      case 'conservative_expert':
-        return "Constitutional principles and historical precedent make one thing abundantly clear...";
-      default:
-        return null;
+    if (persona.expertiseLevel === ExpertiseLevel.EXPERT) {
+      return persona.background ? `*${persona.characterName}, ${persona.background.replace(/[.\s]+$/, '')}.*` : null;
     }
+
+    const phrase = persona.signaturePhrases[0]?.replace(/[.!?,\s]+$/, '');
+    return phrase ? `${phrase}. I'm ${persona.characterName}, and this one is personal.` : null;
   }
 
-  private getPersonaClosing(persona: PersonaProfile): string | null {
-    switch (persona.personaId) {
-      case 'liberal_grassroots':
-        return "Together, we can build the just and equitable future our children deserve. The time for action is now.";
-      case 'liberal_expert':
-        return "The policy path forward is clear. What we need now is the political will to implement these evidence-based solutions.";
-      case 'conservative_patriot':
-        return "It's time we stand up for our values, our families, and our freedom. America First, always.";
-      case 'conservative_expert':
-        return "We must return to constitutional governance and the principles that made America exceptional.";
-      default:
-        return null;
-    }
+  private getPersonaClosing(persona: PersonaProfile): string {
+    return persona.socialMediaHandle
+      ? `*— ${persona.characterName} (${persona.socialMediaHandle})*`
+      : `*— ${persona.characterName}*`;
   }
 }
 
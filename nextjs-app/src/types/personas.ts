@@ -12,6 +12,16 @@ export enum PersonaType {
 export enum PoliticalLeaning {
   LIBERAL = "liberal",
   CONSERVATIVE = "conservative",
+  LIBERTARIAN = "libertarian",
+  CENTRIST = "centrist",
+  POPULIST = "populist",
+  GREEN = "green",
+}
+
+export enum PairingPolicy {
+  OPPOSING_LEANING = "opposing_leaning",
+  SAME_LEANING_DIFFERENT_EXPERTISE = "same_leaning_different_expertise",
+  ANY = "any",
 }
 
 export enum ExpertiseLevel {
@@ -42,16 +52,131 @@ export interface PersonaVoiceConfig {
   modelPreference: "reasoning" | "standard" | "auto";
 }
 
+export type DebateFormat = "essays" | "rounds";
+
+/**
+ * How an essay is given the persona's voice after it is written: not at all,
+ * with templated openings and closings from the profile at no extra cost, or
+ * with a rewrite by the LLM
+ */
+export type VoiceMode = "none" | "quick" | "llm";
+
+export type DebateSpeaker = "persona1" | "persona2";
+
+export type DebateTurnPhase = "opening" | "rebuttal" | "closing";
+
+/**
+ * Which LLM provider and model argue for a persona. Omitted fields fall back
+ * to the server's default provider and its own model selection.
+ */
+export interface PersonaModelSelection {
+  provider?: string;
+  model?: string;
+}
+
+export type SearchSourceType = 'x' | 'news' | 'web';
+
+export type SearchTimeRange = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Live search settings for a debate. The search API can't combine an allow
+ * list with a deny list of the same kind, so set one or the other.
+ */
+export interface SearchProfile {
+  sources: SearchSourceType[];
+  timeRange: SearchTimeRange;
+  /** Minimum likes and views for X posts */
+  minFavorites: number;
+  minViews: number;
+  maxSources: number;
+  allowedHandles: string[];
+  excludedHandles: string[];
+  /** Sites for news and web results, e.g. "apnews.com" */
+  allowedWebsites: string[];
+  excludedWebsites: string[];
+  /** Add the @handles in each persona's preferredSources to the allow list */
+  seedFromPreferredSources: boolean;
+}
+
 export interface DebateConfig {
   topic: string;
-  persona1Id: PersonaType;
-  persona2Id: PersonaType;
+  persona1Id: string;
+  persona2Id: string;
   context?: string;
   useTwitterSearch?: boolean;
   biasLevels?: {
     persona1: number;
     persona2: number;
   };
+  format?: DebateFormat;
+  rebuttalRounds?: number;
+  includeModerator?: boolean;
+  includeFactCheck?: boolean;
+  voiceMode?: VoiceMode;
+  pairingPolicy?: PairingPolicy;
+  personaModels?: Partial<Record<DebateSpeaker, PersonaModelSelection>>;
+  searchProfile?: Partial<SearchProfile>;
+  /** Id for the result, when the caller needs it before generation starts */
+  debateId?: string;
+}
+
+/**
+ * Spending limits in US dollars; omitted limits are not enforced
+ */
+export interface BudgetLimits {
+  perDebate?: number;
+  perDay?: number;
+}
+
+export interface BudgetReport extends BudgetLimits {
+  spent: number;
+  /** Calls that were downgraded to fit the budget */
+  fallbacks: string[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Prompt tokens served from the provider's cache, included in promptTokens */
+  cachedPromptTokens?: number;
+  /** Hidden reasoning tokens, included in completionTokens */
+  reasoningTokens?: number;
+}
+
+export type UsagePurpose = 'essay' | 'turn' | 'voice' | 'moderator' | 'fact_check';
+
+/**
+ * What an LLM call was for, so the usage ledger can attribute its cost
+ */
+export interface UsageLabel {
+  purpose: UsagePurpose;
+  personaId?: string;
+}
+
+/**
+ * A search result a persona relied on, numbered to match its [n] markers
+ */
+export interface SourceCitation {
+  index: number;
+  url: string;
+  title: string;
+  snippet: string;
+}
+
+/**
+ * One section of an essay before and after the voice pass. Joining every
+ * section's original gives the essay as written, and joining each section's
+ * enhanced text (or its original, where that was kept) gives the final essay.
+ */
+export interface VoiceDiffSection {
+  original: string;
+  /** Set when the rewrite was kept */
+  enhanced?: string;
+  /** Why the original was kept instead */
+  keptOriginal?: 'missing_facts' | 'too_short' | 'failed' | 'skipped';
+  /** Numbers, names and citations the rejected rewrite dropped */
+  missing?: string[];
 }
 
 export interface PersonaResponse {
@@ -68,34 +193,112 @@ export interface PersonaResponse {
   content: string;
   title: string;
   modelUsed: string;
+  providerUsed?: string;
+  estimatedCost?: number;
+  tokenUsage?: TokenUsage;
+  /** The voice enhancement pass, which estimatedCost also covers */
+  voiceTokenUsage?: TokenUsage;
+  /** What the voice pass changed, section by section, for editors to review */
+  voiceDiff?: VoiceDiffSection[];
+  sourcesUsed?: string[];
+  sources?: SourceCitation[];
+  timestamp: string;
+  twitterIntegrated: boolean;
+  biasLevel: number;
+  voiceEnhanced: boolean;
+}
+
+export interface DebateTurn {
+  turnIndex: number;
+  phase: DebateTurnPhase;
+  round: number;
+  speaker: DebateSpeaker;
+  personaId: string;
+  characterName: string;
+  content: string;
+  modelUsed: string;
+  providerUsed?: string;
   tokenUsage?: {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
   };
+  /** Tokens spent rewriting the turn in the persona's voice, for the llm voice mode */
+  voiceTokenUsage?: TokenUsage;
+  /** What the voice pass changed in the turn */
+  voiceDiff?: VoiceDiffSection[];
+  voiceEnhanced?: boolean;
   sourcesUsed?: string[];
+  sources?: SourceCitation[];
+  respondingTo?: number;
   timestamp: string;
-  twitterIntegrated: boolean;
-  biasLevel: number;
-  voiceEnhanced: boolean;
 }
 
+export type ModeratorContributionKind = "framing" | "follow_up" | "summary";
+
+export interface ModeratorContribution {
+  kind: ModeratorContributionKind;
+  afterRound?: number;
+  content: string;
+  modelUsed: string;
+  tokenUsage?: TokenUsage;
+  timestamp: string;
+}
+
+export interface ModeratorReport {
+  framingQuestion: ModeratorContribution;
+  followUps: ModeratorContribution[];
+  summary: ModeratorContribution;
+}
+
+export type FactCheckVerdict = "supported" | "contradicted" | "unverifiable";
+
+/**
+ * A factual claim from an essay and how it held up. The claim is quoted
+ * exactly as written so the display can badge it in place.
+ */
+export interface FactCheckClaim {
+  claim: string;
+  verdict: FactCheckVerdict;
+  explanation: string;
+  /** Numbers of the persona's sources the verdict rests on; empty when graded by the model alone */
+  sourceIndexes: number[];
+}
+
+export interface FactCheckReport {
+  persona1: FactCheckClaim[];
+  persona2: FactCheckClaim[];
+  modelUsed: string;
+  tokenUsage?: TokenUsage;
+  timestamp: string;
+}
+
+export interface DebateSide {
+  id: string;
+  info: PersonaProfile;
+  content: PersonaResponse;
+  /** Earlier versions of this side's essay, oldest first, kept when it is regenerated */
+  alternates?: PersonaResponse[];
+}
+
+/**
+ * A generated debate as saved and served. The zod schema in
+ * lib/debate-schema.ts validates this shape, so change both together.
+ */
 export interface DebateResult {
+  /** Version of this shape the debate was saved with */
+  schemaVersion: number;
   debateId: string;
   topic: string;
   context?: string;
   personas: {
-    persona1: {
-      id: string;
-      info: PersonaProfile;
-      content: PersonaResponse;
-    };
-    persona2: {
-      id: string;
-      info: PersonaProfile;
-      content: PersonaResponse;
-    };
+    persona1: DebateSide;
+    persona2: DebateSide;
   };
+  format: DebateFormat;
+  turns?: DebateTurn[];
+  moderator?: ModeratorReport;
+  factCheck?: FactCheckReport;
   generationMetadata: {
     generationTimeSeconds: number;
     twitterSearchEnabled: boolean;
@@ -103,21 +306,56 @@ export interface DebateResult {
       persona1: number;
       persona2: number;
     };
+    voiceMode?: VoiceMode;
     modelsUsed: {
       persona1: string;
       persona2: string;
     };
+    providersUsed?: {
+      persona1: string;
+      persona2: string;
+    };
+    /** Search settings each persona ran with, after seeding */
+    searchProfiles?: Record<DebateSpeaker, SearchProfile>;
+    budget?: BudgetReport;
+    /** The API key the debate was generated with; absent for the app's own pages */
+    apiKeyId?: string;
   };
   costAnalysis?: {
+    /** Everything spent on the debate, including replaced versions */
     totalEstimatedCost: number;
     costBreakdown: {
-      persona1: any;
-      persona2: any;
+      persona1?: TokenUsage;
+      persona2?: TokenUsage;
+      moderator?: TokenUsage;
+      factCheck?: TokenUsage;
     };
   };
   timestamp: string;
 }
 
+export interface DebateSummary {
+  debateId: string;
+  topic: string;
+  format: DebateFormat;
+  timestamp: string;
+  personas: {
+    persona1: {
+      id: string;
+      characterName: string;
+      displayName: string;
+      politicalLeaning: string;
+    };
+    persona2: {
+      id: string;
+      characterName: string;
+      displayName: string;
+      politicalLeaning: string;
+    };
+  };
+  totalEstimatedCost: number;
+}
+
 export interface PersonaCombination {
   id: string;
   displayName: string;